@@ -0,0 +1,261 @@
+/**
+ * Entity Action Dialog Template
+ *
+ * Create/edit dialog for MUI v6 that saves through Server Actions
+ * (nextjs-api/assets/actions-template.ts) with useActionState, instead of
+ * calling the API from the client like dialog-template.tsx.
+ *
+ * USAGE:
+ * 1. Copy this file to your components directory
+ * 2. Replace "Entity" with your entity name (e.g., "User", "Product")
+ * 3. Update the form fields; each input's `name` must match the schema field
+ * 4. Import your actions (createEntity, updateEntity)
+ *
+ * FEATURES:
+ * - Create and edit modes in single dialog
+ * - Field-level errors from the action's Zod `details` (and duplicate `field`)
+ * - Pending state from useActionState; inputs keep their values on error
+ * - Edit conflict detection (ifMatch field) with Reload / Keep my changes
+ * - Request ID shown with unexpected errors
+ * - Resets on open
+ */
+
+'use client';
+
+import { useActionState, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Alert,
+  Typography,
+} from '@mui/material';
+
+import { etagFor } from '@/lib/etag';
+import type { ActionResult } from '@/lib/server/actions'; // Type-only import is safe in client code
+
+// TODO: Import your actions
+import { createEntity, updateEntity } from '@/app/entities/actions';
+
+// TODO: Update type to match your entity
+interface Entity {
+  id: string;
+  name: string;
+  updatedAt: Date | string; // Sent back as the ifMatch ETag
+  // Add your fields here
+}
+
+/**
+ * First error for a form field: its Zod error, or the action's error when it
+ * names that field (e.g. DUPLICATE on email).
+ */
+function fieldError(state: ActionResult<unknown> | null, field: string): string | undefined {
+  if (!state || state.success) return undefined;
+
+  const details = state.details as Record<string, { _errors?: string[] }> | undefined;
+  return details?.[field]?._errors?.[0] ?? (state.field === field ? state.error : undefined);
+}
+
+interface EntityActionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  entity?: Entity | null; // null/undefined = create mode, object = edit mode
+}
+
+export function EntityActionDialog({ open, onClose, onSuccess, entity }: EntityActionDialogProps) {
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth data-testid="entity-dialog">
+      {/* Remounting the form on open resets its fields and the action state */}
+      {open && (
+        <EntityActionForm
+          key={entity?.id ?? 'new'}
+          entity={entity ?? null}
+          onClose={onClose}
+          onSuccess={onSuccess}
+        />
+      )}
+    </Dialog>
+  );
+}
+
+interface EntityActionFormProps {
+  entity: Entity | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function EntityActionForm({ entity, onClose, onSuccess }: EntityActionFormProps) {
+  const isEdit = !!entity;
+
+  // ==================== Form Fields ====================
+  // Controlled, so React doesn't reset them when the action returns an error
+  // TODO: Add state for all your form fields
+  const [name, setName] = useState(entity?.name ?? '');
+
+  // ==================== Concurrency State ====================
+  // Version the form was loaded from; sent as the ifMatch field
+  const [baseEntity, setBaseEntity] = useState<Entity | null>(entity);
+
+  // ==================== Action ====================
+  const [state, formAction, pending] = useActionState(
+    entity ? updateEntity.bind(null, entity.id) : createEntity,
+    null
+  );
+
+  useEffect(() => {
+    if (state?.success) {
+      onSuccess(); // Parent reloads data (server-rendered pages are revalidated by the action)
+      onClose();
+    }
+  }, [state]);
+
+  // ==================== Derived State ====================
+  const failure = state && !state.success ? state : null;
+  const nameError = fieldError(state, 'name');
+
+  // 412: someone else saved first. Hidden once the user picks Reload or Keep
+  const conflict =
+    failure?.code === 'PRECONDITION_FAILED' ? (failure.data as Entity | undefined) : undefined;
+  const showConflict =
+    !!conflict && !!baseEntity && etagFor(baseEntity.updatedAt) !== etagFor(conflict.updatedAt);
+
+  // Field errors are shown on the fields; anything else goes in the Alert
+  const formError =
+    failure && failure.code !== 'VALIDATION_FAILED' && !failure.field && !conflict ? failure : null;
+
+  // Discard local edits and load the other person's changes
+  const handleReload = () => {
+    if (!conflict) return;
+    setName(conflict.name);
+    // TODO: Set other fields from conflict
+    setBaseEntity(conflict);
+  };
+
+  // Keep local edits; the next save overwrites the other person's changes
+  const handleKeep = () => {
+    if (conflict) setBaseEntity(conflict);
+  };
+
+  // ==================== Render ====================
+  return (
+    <form action={formAction}>
+      <DialogTitle>{isEdit ? 'Edit' : 'Create'} Entity</DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {/* Error Alert */}
+          {formError && (
+            <Alert severity="error" data-testid="entity-dialog-error">
+              {formError.error}
+              <Typography
+                variant="caption"
+                display="block"
+                sx={{ mt: 0.5 }}
+                data-testid="entity-dialog-request-id"
+              >
+                Request ID: {formError.requestId}
+              </Typography>
+            </Alert>
+          )}
+
+          {/* Conflict Alert (PRECONDITION_FAILED) */}
+          {showConflict && (
+            <Alert
+              severity="warning"
+              data-testid="entity-dialog-conflict"
+              action={
+                <>
+                  <Button
+                    color="inherit"
+                    size="small"
+                    onClick={handleReload}
+                    data-testid="entity-dialog-conflict-reload"
+                  >
+                    Reload
+                  </Button>
+                  <Button
+                    color="inherit"
+                    size="small"
+                    onClick={handleKeep}
+                    data-testid="entity-dialog-conflict-keep"
+                  >
+                    Keep my changes
+                  </Button>
+                </>
+              }
+            >
+              This entity was changed by someone else. Reload their changes, or keep yours and save
+              again to overwrite them?
+            </Alert>
+          )}
+
+          {baseEntity && (
+            <input type="hidden" name="ifMatch" value={etagFor(baseEntity.updatedAt)} />
+          )}
+
+          {/* Name Field */}
+          <TextField
+            name="name"
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            fullWidth
+            autoFocus
+            disabled={pending}
+            error={!!nameError}
+            helperText={nameError ?? 'Enter entity name'}
+          />
+
+          {/* TODO: Add more fields */}
+          {/* Example:
+          <TextField
+            name="email"
+            label="Email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            fullWidth
+            disabled={pending}
+            error={!!emailError}
+            helperText={emailError}
+          />
+          */}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={pending}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={pending || showConflict}
+          data-testid="entity-dialog-save"
+        >
+          {pending ? 'Saving...' : isEdit ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </form>
+  );
+}
+
+/**
+ * CHECKLIST:
+ * [ ] Replaced "Entity" with actual entity name
+ * [ ] Imported your actions and updated the Entity type
+ * [ ] Every input has a `name` matching the schema field
+ * [ ] Field errors wired up with fieldError() for each field
+ * [ ] Tested create mode
+ * [ ] Tested edit mode
+ * [ ] Tested validation and duplicate errors
+ * [ ] Tested edit conflict (save in two tabs)
+ * [ ] Removed TODO comments
+ */
@@ -0,0 +1,340 @@
+/**
+ * BulkActionToolbar
+ *
+ * Copy this file to src/components/BulkActionToolbar.tsx.
+ *
+ * The contextual toolbar EntityListPage shows while rows are selected: the
+ * selection count, an offer to widen a full page to every matching row, and
+ * the bulk actions.
+ *
+ * Actions with an `operation` go to POST {basePath}/bulk in batches of 100 in
+ * partial mode, so one bad row doesn't stop the rest. A progress bar runs
+ * while the batches are sent, and a summary lists the rows that failed and
+ * why; those rows stay selected so the action can be retried. Actions with
+ * `run` do their own work instead, e.g. a download.
+ *
+ *   const archive: BulkAction<EntityRecord> = {
+ *     id: 'change-status',
+ *     label: 'Change status',
+ *     choices: [{ value: 'active', label: 'Active' }, { value: 'archived', label: 'Archived' }],
+ *     operation: (id, status) => ({ op: 'update', id, data: { status } }),
+ *     done: 'updated',
+ *   };
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  LinearProgress,
+  Link,
+  Menu,
+  MenuItem,
+  Toolbar,
+  Typography,
+} from '@mui/material';
+import type { ButtonProps } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+
+import { MAX_BULK_OPERATIONS } from '@/lib/bulk';
+import type { BulkOperationInput, ResourceClient } from '@/lib/api/client';
+
+// ==================== Types ====================
+
+export interface BulkSelection<TRecord> {
+  /** Selected rows, from any page; empty when allMatching */
+  records: TRecord[];
+  /** Every row matching the search, filters and tab, on all pages */
+  allMatching: boolean;
+  count: number;
+}
+
+export interface BulkAction<TRecord> {
+  /** data-testid is bulk-{id} */
+  id: string;
+  label: string;
+  icon?: ReactNode;
+  color?: ButtonProps['color'];
+  /** Confirmation text for `count` rows; omit to run straight away */
+  confirm?: (count: number) => string;
+  /** Choose a value first, e.g. the new status; it is passed to `operation` */
+  choices?: { value: string; label: string }[];
+  /** The bulk operation for one row */
+  operation?: (id: string, choice?: string) => BulkOperationInput<unknown, unknown>;
+  /** Past tense for the summary, e.g. 'deleted' -> "28 deleted, 2 failed". Default: 'done' */
+  done?: string;
+  /** Instead of `operation`: do the work yourself */
+  run?: (selection: BulkSelection<TRecord>) => void | Promise<void>;
+}
+
+export interface BulkActionToolbarProps<TRecord extends { id: string }> {
+  resource: ResourceClient<TRecord, never, never>;
+  selection: BulkSelection<TRecord>;
+  actions: BulkAction<TRecord>[];
+  /** Prefix for data-testids, e.g. 'entities' */
+  testIdPrefix: string;
+  /** Offer "Select all N matching" (every row on the page is selected and there are more) */
+  canSelectAllMatching: boolean;
+  totalItems: number;
+  /** Every id matching the list's query, for an allMatching selection */
+  matchingIds: () => Promise<string[]>;
+  recordLabel: (record: TRecord) => string;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  /** After an operation ran; the failed ids stay selected */
+  onComplete: (failedIds: string[]) => void;
+}
+
+interface Failure {
+  id: string;
+  error: string;
+}
+
+interface Summary {
+  label: string;
+  done: string;
+  succeeded: number;
+  failures: Failure[];
+  /** The action as a whole failed */
+  error?: string;
+}
+
+/** Failures listed in the summary; the rest are counted */
+const MAX_LISTED_FAILURES = 5;
+
+// ==================== Component ====================
+
+export function BulkActionToolbar<TRecord extends { id: string }>({
+  resource,
+  selection,
+  actions,
+  testIdPrefix,
+  canSelectAllMatching,
+  totalItems,
+  matchingIds,
+  recordLabel,
+  onSelectAllMatching,
+  onClear,
+  onComplete,
+}: BulkActionToolbarProps<TRecord>) {
+  const [pending, setPending] = useState<{ action: BulkAction<TRecord>; choice?: string } | null>(
+    null
+  );
+  const [choiceMenu, setChoiceMenu] = useState<{
+    action: BulkAction<TRecord>;
+    anchor: HTMLElement;
+  } | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<Summary | null>(null);
+
+  const running = progress !== null;
+
+  const labelFor = (id: string) => {
+    const record = selection.records.find((item) => item.id === id);
+    return record ? recordLabel(record) : id;
+  };
+
+  // ==================== Run ====================
+  const execute = async (action: BulkAction<TRecord>, choice?: string) => {
+    setPending(null);
+    setSummary(null);
+
+    if (action.run) {
+      try {
+        await action.run(selection);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'Action failed';
+        setSummary({ label: action.label, done: 'done', succeeded: 0, failures: [], error });
+      }
+      return;
+    }
+    if (!action.operation) return;
+
+    setProgress({ done: 0, total: selection.count });
+    const failures: Failure[] = [];
+    let succeeded = 0;
+    let error: string | undefined;
+
+    try {
+      const ids = selection.allMatching
+        ? await matchingIds()
+        : selection.records.map((record) => record.id);
+      setProgress({ done: 0, total: ids.length });
+
+      // The page doesn't know the resource's update schema; the action builds the data
+      const client = resource as unknown as ResourceClient<TRecord, unknown, unknown>;
+
+      for (let offset = 0; offset < ids.length; offset += MAX_BULK_OPERATIONS) {
+        const batch = ids.slice(offset, offset + MAX_BULK_OPERATIONS);
+        try {
+          const result = await client.bulk(
+            batch.map((id) => action.operation!(id, choice)),
+            { mode: 'partial' }
+          );
+          succeeded += result.succeeded;
+          for (const item of result.results) {
+            if (!item.success) failures.push({ id: batch[item.index], error: item.error ?? '' });
+          }
+        } catch (err) {
+          // The whole batch was refused (network, 403, 429): every row in it failed
+          const message = err instanceof Error ? err.message : 'Request failed';
+          failures.push(...batch.map((id) => ({ id, error: message })));
+        }
+        setProgress({ done: offset + batch.length, total: ids.length });
+      }
+    } catch (err) {
+      // Collecting the matching ids failed before anything was changed
+      error = err instanceof Error ? err.message : 'Request failed';
+    } finally {
+      setProgress(null);
+    }
+
+    setSummary({ label: action.label, done: action.done ?? 'done', succeeded, failures, error });
+    if (!error) onComplete(failures.map((failure) => failure.id));
+  };
+
+  const start = (action: BulkAction<TRecord>, choice?: string) => {
+    if (action.confirm) setPending({ action, choice });
+    else execute(action, choice);
+  };
+
+  // ==================== Render ====================
+  return (
+    <>
+      {selection.count > 0 && (
+        <Toolbar
+          sx={{
+            mb: 2,
+            borderRadius: 1,
+            gap: 1,
+            bgcolor: (theme) =>
+              alpha(theme.palette.primary.main, theme.palette.action.selectedOpacity),
+          }}
+          data-testid={`${testIdPrefix}-bulk-toolbar`}
+        >
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="subtitle1" data-testid={`${testIdPrefix}-selected-count`}>
+              {selection.allMatching
+                ? `All ${selection.count} matching selected`
+                : `${selection.count} selected`}
+            </Typography>
+            {canSelectAllMatching && !selection.allMatching && (
+              <Link
+                component="button"
+                variant="body2"
+                onClick={onSelectAllMatching}
+                data-testid="select-all-matching"
+              >
+                Select all {totalItems} matching
+              </Link>
+            )}
+          </Box>
+
+          {actions.map((action) => (
+            <Button
+              key={action.id}
+              size="small"
+              variant="outlined"
+              color={action.color}
+              startIcon={action.icon}
+              disabled={running}
+              onClick={(e) =>
+                action.choices ? setChoiceMenu({ action, anchor: e.currentTarget }) : start(action)
+              }
+              data-testid={`bulk-${action.id}`}
+            >
+              {action.label}
+            </Button>
+          ))}
+          <Button size="small" onClick={onClear} disabled={running} data-testid="bulk-clear">
+            Clear
+          </Button>
+        </Toolbar>
+      )}
+
+      {/* Choices, e.g. the new status */}
+      <Menu anchorEl={choiceMenu?.anchor} open={!!choiceMenu} onClose={() => setChoiceMenu(null)}>
+        {choiceMenu?.action.choices?.map((choice) => (
+          <MenuItem
+            key={choice.value}
+            onClick={() => {
+              start(choiceMenu.action, choice.value);
+              setChoiceMenu(null);
+            }}
+            data-testid={`bulk-${choiceMenu.action.id}-${choice.value}`}
+          >
+            {choice.label}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {progress && (
+        <Box sx={{ mb: 2 }} data-testid="bulk-progress">
+          <LinearProgress
+            variant={progress.total > 0 ? 'determinate' : 'indeterminate'}
+            value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {progress.done} of {progress.total}
+          </Typography>
+        </Box>
+      )}
+
+      {summary && (
+        <Alert
+          severity={summary.error ? 'error' : summary.failures.length === 0 ? 'success' : 'warning'}
+          onClose={() => setSummary(null)}
+          sx={{ mb: 2 }}
+          data-testid="bulk-summary"
+        >
+          {summary.error
+            ? `${summary.label} failed: ${summary.error}`
+            : `${summary.label}: ${summary.succeeded} ${summary.done}`}
+          {summary.failures.length > 0 && `, ${summary.failures.length} failed`}
+          {summary.failures.length > 0 && (
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {summary.failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+                <li key={failure.id}>
+                  {labelFor(failure.id)}: {failure.error}
+                </li>
+              ))}
+              {summary.failures.length > MAX_LISTED_FAILURES && (
+                <li>and {summary.failures.length - MAX_LISTED_FAILURES} more</li>
+              )}
+            </Box>
+          )}
+        </Alert>
+      )}
+
+      {/* Confirmation */}
+      <Dialog open={!!pending} onClose={() => setPending(null)} data-testid="bulk-confirm-dialog">
+        <DialogTitle>{pending?.action.label}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>{pending?.action.confirm?.(selection.count)}</DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)} data-testid="bulk-cancel">
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color={pending?.action.color}
+            onClick={() => pending && execute(pending.action, pending.choice)}
+            data-testid="bulk-confirm"
+          >
+            {pending?.action.label}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
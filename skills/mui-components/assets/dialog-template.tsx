@@ -7,15 +7,18 @@
  * 1. Copy this file to your components directory
  * 2. Replace "Entity" with your entity name (e.g., "User", "Product")
  * 3. Update the form fields to match your schema
- * 4. Import your API functions (createEntity, updateEntity)
- * 5. Update the TypeScript types to match your schema
+ * 4. Import your resource client (src/lib/api/entities.ts, see nextjs-api/assets/api-client.ts).
+ *    The request bodies are typed from your Zod schemas, so missing fields are type errors
  *
  * FEATURES:
  * - Create and edit modes in single dialog
  * - Form validation
  * - Loading states
- * - Error handling
+ * - Error handling, with the request ID to quote when reporting a failure
  * - Auto-reset on open/close
+ * - Passes the saved record to onSuccess, so the list updates its row without a reload
+ * - Edit conflict detection (412 via If-Match) with Reload / Overwrite
+ * - Idempotency-Key per open dialog, so double-clicks and retries create one row
  * - Keyboard accessibility (Enter to submit)
  */
 
@@ -31,29 +34,41 @@ import {
   TextField,
   Box,
   Alert,
+  Typography,
 } from '@mui/material';
 
-// TODO: Import your entity type
-// import type { Entity } from '@/db/schema';
+// TODO: Import your resource client and record type (createResourceClient in api-client.ts)
+import { entitiesApi } from '@/lib/api/entities';
+import type { EntityRecord as Entity } from '@/lib/api/entities'; // updatedAt is the If-Match ETag
 
-// TODO: Import your API functions
-// import { createEntity, updateEntity } from '@/lib/api/entities';
+import { ApiError } from '@/lib/api/client';
+import { etagFor } from '@/lib/etag';
 
-// TODO: Update type to match your entity
-interface Entity {
-  id: string;
-  name: string;
-  // Add your fields here
+/** A 412 from PATCH carries the record as it is now in `data` */
+function getConflict(err: unknown): Entity | null {
+  if (!(err instanceof ApiError) || err.code !== 'PRECONDITION_FAILED') return null;
+  return (err.data as Entity | undefined) ?? null;
 }
 
 interface EntityDialogProps {
   open: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (entity: Entity) => void;
+  /** Edit mode: called with the changes before the request, so the list shows them at once */
+  onSaving?: (changes: Partial<Entity>) => void;
+  /** Edit mode: the request failed, so the list puts the row back */
+  onSaveError?: (message: string) => void;
   entity?: Entity | null; // null/undefined = create mode, object = edit mode
 }
 
-export function EntityDialog({ open, onClose, onSuccess, entity }: EntityDialogProps) {
+export function EntityDialog({
+  open,
+  onClose,
+  onSuccess,
+  onSaving,
+  onSaveError,
+  entity,
+}: EntityDialogProps) {
   // ==================== Form Fields ====================
   // TODO: Add state for all your form fields
   const [name, setName] = useState('');
@@ -62,50 +77,97 @@ export function EntityDialog({ open, onClose, onSuccess, entity }: EntityDialogP
   // ==================== UI State ====================
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorRequestId, setErrorRequestId] = useState<string | null>(null);
+
+  // ==================== Concurrency State ====================
+  // Version the form was loaded from; sent as If-Match on save
+  const [baseEntity, setBaseEntity] = useState<Entity | null>(null);
+  // Latest server version when someone else saved first
+  const [conflict, setConflict] = useState<Entity | null>(null);
+  // Sent as Idempotency-Key on create; one key per opening of the dialog
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
   // ==================== Derived State ====================
   const isEdit = !!entity;
 
   // ==================== Reset Form ====================
   // Reset form when dialog opens/closes or entity changes
+  const populate = (source: Entity) => {
+    setName(source.name);
+    // TODO: Set other fields from source
+    setBaseEntity(source);
+  };
+
   useEffect(() => {
     if (entity) {
       // Edit mode: populate from entity
-      setName(entity.name);
-      // TODO: Set other fields from entity
+      populate(entity);
     } else {
       // Create mode: reset to empty
       setName('');
       // TODO: Reset other fields to empty
+      setBaseEntity(null);
     }
     setError(null); // Clear errors
+    setErrorRequestId(null);
+    setConflict(null);
+    if (open) setIdempotencyKey(crypto.randomUUID()); // New key per open, reused on retries
   }, [entity, open]);
 
   // ==================== Form Submission ====================
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const save = async (base: Entity | null) => {
     setLoading(true);
     setError(null);
+    setErrorRequestId(null);
+
+    // TODO: Send your other fields
+    const changes = { name };
+    if (isEdit && base) onSaving?.(changes); // Parent shows the edit before the server answers
 
     try {
-      // TODO: Replace with your actual API calls
-      if (isEdit) {
-        // await updateEntity(entity.id, { name /* add other fields */ });
-        console.log('Update:', { id: entity.id, name });
-      } else {
-        // await createEntity({ name /* add other fields */ });
-        console.log('Create:', { name });
-      }
+      const saved =
+        isEdit && base
+          ? await entitiesApi.update(base.id, changes, { ifMatch: etagFor(base.updatedAt) })
+          : await entitiesApi.create(changes, { idempotencyKey });
 
-      onSuccess(); // Parent reloads data
+      onSuccess(saved); // Parent shows the saved record without reloading
       onClose(); // Close dialog
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      if (isEdit) onSaveError?.(err instanceof Error ? err.message : 'An error occurred');
+      const current = getConflict(err);
+      if (current) {
+        setConflict(current);
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        // The request ID the server logged the failure under
+        setErrorRequestId(err instanceof ApiError ? err.requestId : null);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await save(baseEntity);
+  };
+
+  // Discard local edits and load the other person's changes
+  const handleReload = () => {
+    if (!conflict) return;
+    populate(conflict);
+    setConflict(null);
+  };
+
+  // Keep local edits and save over the other person's changes
+  const handleOverwrite = async () => {
+    if (!conflict) return;
+    const latest = conflict;
+    setBaseEntity(latest);
+    setConflict(null);
+    await save(latest);
+  };
+
   // ==================== Render ====================
   return (
     <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
@@ -115,7 +177,51 @@ export function EntityDialog({ open, onClose, onSuccess, entity }: EntityDialogP
         <DialogContent>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
             {/* Error Alert */}
-            {error && <Alert severity="error">{error}</Alert>}
+            {error && (
+              <Alert severity="error" data-testid="entity-dialog-error">
+                {error}
+                {errorRequestId && (
+                  <Typography
+                    variant="caption"
+                    display="block"
+                    sx={{ mt: 0.5 }}
+                    data-testid="entity-dialog-request-id"
+                  >
+                    Request ID: {errorRequestId}
+                  </Typography>
+                )}
+              </Alert>
+            )}
+
+            {/* Conflict Alert (412) */}
+            {conflict && (
+              <Alert
+                severity="warning"
+                data-testid="entity-dialog-conflict"
+                action={
+                  <>
+                    <Button
+                      color="inherit"
+                      size="small"
+                      onClick={handleReload}
+                      data-testid="entity-dialog-conflict-reload"
+                    >
+                      Reload
+                    </Button>
+                    <Button
+                      color="inherit"
+                      size="small"
+                      onClick={handleOverwrite}
+                      data-testid="entity-dialog-conflict-overwrite"
+                    >
+                      Overwrite
+                    </Button>
+                  </>
+                }
+              >
+                This entity was changed by someone else. Reload their changes or overwrite them?
+              </Alert>
+            )}
 
             {/* Name Field */}
             <TextField
@@ -148,7 +254,7 @@ export function EntityDialog({ open, onClose, onSuccess, entity }: EntityDialogP
           <Button onClick={onClose} disabled={loading}>
             Cancel
           </Button>
-          <Button type="submit" variant="contained" disabled={loading}>
+          <Button type="submit" variant="contained" disabled={loading || !!conflict}>
             {loading ? 'Saving...' : isEdit ? 'Save' : 'Create'}
           </Button>
         </DialogActions>
@@ -160,12 +266,13 @@ export function EntityDialog({ open, onClose, onSuccess, entity }: EntityDialogP
 /**
  * CHECKLIST:
  * [ ] Replaced "Entity" with actual entity name
- * [ ] Updated import statements (types, API functions)
+ * [ ] Updated import statements (resource client)
  * [ ] Added all necessary form fields
  * [ ] Updated form validation
  * [ ] Tested create mode
  * [ ] Tested edit mode
  * [ ] Tested error handling
+ * [ ] Tested edit conflict (save in two tabs)
  * [ ] Tested loading states
  * [ ] Removed TODO comments
  */
@@ -0,0 +1,1143 @@
+/**
+ * EntityListPage
+ *
+ * Copy this file to src/components/EntityListPage.tsx.
+ *
+ * The CRUD list page shared by every resource: search with debouncing,
+ * pagination with an items-per-page selector, loading, empty and error
+ * states, and the delete confirmation. Optional: a Trash tab with restore and
+ * permanent delete, a History action, Export and Import. A resource page is
+ * then only its configuration (see page-template.tsx):
+ *
+ *   <EntityListPage
+ *     resource={entitiesApi}
+ *     names={{ singular: 'Entity', plural: 'Entities' }}
+ *     columns={columns}
+ *     dialog={EntityDialog}
+ *   />
+ *
+ * `resource` is a client from createResourceClient() (nextjs-api/assets/api-client.ts),
+ * and columns are typed from its records: `render` receives the field's value
+ * with the field's type.
+ *
+ * Search, page, limit and sort live in the URL (useListQueryState, copied to
+ * src/hooks/useListQueryState.ts from use-list-query-state.ts), so a
+ * refresh, a shared link or Back shows the same list.
+ *
+ * Sorting and filtering happen on the server: `sortable` columns get a
+ * clickable header (?sort=) and `filters` add a FilterBar (filter-bar.tsx,
+ * ?filter[field][op]=), both checked against the resource's sortable and
+ * filterable allowlists. A Columns menu shows and hides columns, and with
+ * `savedViews` (saved-views-menu.tsx) users save the combination per user.
+ *
+ * With `selectable`, rows get checkboxes and a BulkActionToolbar
+ * (bulk-action-toolbar.tsx) appears while any are selected: Delete, Export
+ * (with `exportable`) and your `bulkActions`, sent to POST {basePath}/bulk.
+ * The selection is kept across pages and cleared by a new search, filter or
+ * tab; "Select all N matching" widens it to every row on every page.
+ *
+ * Edit, delete and restore are optimistic: the row changes before the request
+ * finishes, and goes back to how it was with the error underneath if the
+ * request fails. The saved record then replaces the edited row. A created
+ * record reloads the page instead, as only the server knows where the list's
+ * order and filters put it. A delete shows
+ * an Undo snackbar; soft-delete resources are moved to the trash at once and
+ * Undo restores them, otherwise the DELETE is held until the snackbar closes
+ * or the page is left (sent with keepalive, so a reload doesn't lose it).
+ *
+ * data-testid values come from the names, e.g. `entities-page-title`,
+ * `create-entity-button` and `entity-row-{id}`, so one set of Playwright
+ * helpers works for every resource.
+ */
+
+'use client';
+
+import { Fragment, useState, useEffect, useRef } from 'react';
+import type { ComponentType, ReactNode } from 'react';
+import {
+  Container,
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Checkbox,
+  ListItemText,
+  IconButton,
+  Alert,
+  TextField,
+  InputAdornment,
+  Pagination,
+  Select,
+  MenuItem,
+  Menu,
+  FormControl,
+  InputLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tabs,
+  Tab,
+  Snackbar,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  DeleteForever as DeleteForeverIcon,
+  RestoreFromTrash as RestoreIcon,
+  History as HistoryIcon,
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
+  Search as SearchIcon,
+  ViewColumn as ColumnsIcon,
+} from '@mui/icons-material';
+
+import { BulkActionToolbar } from '@/components/BulkActionToolbar';
+import type { BulkAction, BulkSelection } from '@/components/BulkActionToolbar';
+import { FilterBar } from '@/components/FilterBar';
+import type { FilterDefinition } from '@/components/FilterBar';
+import { SavedViewsMenu } from '@/components/SavedViewsMenu';
+import type { SavedViewsClient } from '@/components/SavedViewsMenu';
+import { useListQueryState } from '@/hooks/useListQueryState';
+import { listSearchParams } from '@/lib/api/client';
+import type { ListParams, ResourceClient } from '@/lib/api/client';
+
+// ==================== Types ====================
+
+/** Soft-delete resources get a Trash tab */
+export type EntityView = 'active' | 'trash';
+
+interface ColumnBase {
+  header: string;
+  align?: 'left' | 'center' | 'right';
+  width?: number | string;
+  /** Tabs the column is shown in. Default: all */
+  views?: EntityView[];
+  /** Off until turned on in the Columns menu */
+  defaultHidden?: boolean;
+}
+
+/** A column showing one field; `render` gets the field's value, typed */
+type FieldColumn<TRecord, TField extends keyof TRecord> = ColumnBase & {
+  field: TField;
+  render?: (value: TRecord[TField], record: TRecord) => ReactNode;
+  /** Clickable header sorting by this field on the server; must be in the resource's `sortable` */
+  sortable?: boolean;
+};
+
+/** A column computed from the whole record, e.g. a full name or a status chip */
+type ComputedColumn<TRecord> = ColumnBase & {
+  id: string;
+  field?: never;
+  render: (record: TRecord) => ReactNode;
+};
+
+export type EntityColumn<TRecord> =
+  | { [TField in keyof TRecord & string]: FieldColumn<TRecord, TField> }[keyof TRecord & string]
+  | ComputedColumn<TRecord>;
+
+/** A bulk action for the selection toolbar, optionally limited to some tabs */
+export type EntityBulkAction<TRecord> = BulkAction<TRecord> & {
+  /** Tabs the action is offered in. Default: all */
+  views?: EntityView[];
+};
+
+/** Props EntityListPage passes to the create/edit dialog (dialog-template.tsx) */
+export interface EntityDialogProps<TRecord> {
+  open: boolean;
+  onClose: () => void;
+  /** With the saved record it replaces the edited row; otherwise the page reloads */
+  onSuccess: (record?: TRecord) => void;
+  /** Edit mode, before the request: the row shows these values at once */
+  onSaving?: (changes: Partial<TRecord>) => void;
+  /** Edit mode, the request failed: the row goes back, with the error underneath */
+  onSaveError?: (message: string) => void;
+  entity: TRecord | null; // null = create mode
+}
+
+/** Props passed to the history drawer (history-drawer-template.tsx) */
+export interface EntityHistoryProps<TRecord> {
+  open: boolean;
+  onClose: () => void;
+  entity: TRecord | null;
+}
+
+/** Props passed to the import dialog (import-dialog-template.tsx) */
+export interface EntityImportProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export interface EntityListPageProps<TRecord extends { id: string }> {
+  resource: ResourceClient<TRecord, never, never>;
+  /** Display names, e.g. { singular: 'Entity', plural: 'Entities' }; data-testids use them in kebab-case */
+  names: { singular: string; plural: string };
+  columns: EntityColumn<TRecord>[];
+  /** Create/edit dialog; without it there is no Create button or Edit action */
+  dialog?: ComponentType<EntityDialogProps<TRecord>>;
+  /** History drawer, for resources with audit: true */
+  historyDrawer?: ComponentType<EntityHistoryProps<TRecord>>;
+  /** Import dialog, for resources with import */
+  importDialog?: ComponentType<EntityImportProps>;
+  /** Export menu, for resources with export (GET {basePath}/export) */
+  exportable?: boolean;
+  /** Trash tab with restore and permanent delete, for resources with softDelete: true */
+  softDelete?: boolean;
+  /** Name shown in the delete confirmation. Default: the record's `name`, else its id */
+  recordLabel?: (record: TRecord) => string;
+  /** Passed to list(), e.g. `fields` or a fixed `filter` */
+  listParams?: Pick<ListParams<TRecord>, 'fields' | 'include' | 'sort' | 'filter'>;
+  /** Items-per-page options. Default: 25, 50, 100 */
+  pageSizes?: number[];
+  /** Default: 50 */
+  defaultPageSize?: number;
+  /** Filter chips; each field and operator must be in the resource's `filterable` */
+  filters?: FilterDefinition<TRecord>[];
+  /** Saved views client (saved-views-menu.tsx); views are stored under the kebab-case plural name */
+  savedViews?: SavedViewsClient;
+  /**
+   * Row checkboxes and the bulk action toolbar. Export of selected rows needs
+   * `filterable: { id: ['in'] }` on the resource
+   */
+  selectable?: boolean;
+  /** Bulk actions after the built-in Delete and Export, e.g. a status change */
+  bulkActions?: EntityBulkAction<TRecord>[];
+}
+
+const DEFAULT_PAGE_SIZES = [25, 50, 100];
+
+/** How long a delete can be undone, in milliseconds */
+const UNDO_TIMEOUT = 5000;
+
+/** A delete the Undo snackbar is holding */
+interface PendingDelete<TRecord> {
+  record: TRecord;
+  /** Id of the row below it, to put it back there; null for the last row */
+  before: string | null;
+  permanent: boolean;
+  /** Already sent (moved to the trash); Undo restores it */
+  sent: boolean;
+}
+
+const kebab = (value: string) => value.trim().toLowerCase().replace(/\s+/g, '-');
+
+function defaultLabel(record: { id: string }) {
+  const { name } = record as { name?: unknown };
+  return typeof name === 'string' ? name : record.id;
+}
+
+function isComputed<TRecord>(column: EntityColumn<TRecord>): column is ComputedColumn<TRecord> {
+  return column.field === undefined;
+}
+
+const columnKey = <TRecord,>(column: EntityColumn<TRecord>) =>
+  isComputed(column) ? column.id : column.field;
+
+function renderCell<TRecord>(column: EntityColumn<TRecord>, record: TRecord): ReactNode {
+  if (isComputed(column)) return column.render(record);
+
+  const value = record[column.field];
+  if (column.render) {
+    // The union of field columns can't call its render with one value type
+    return (column.render as (value: unknown, record: TRecord) => ReactNode)(value, record);
+  }
+  return value === null || value === undefined ? '—' : String(value);
+}
+
+// ==================== Component ====================
+
+export function EntityListPage<TRecord extends { id: string }>({
+  resource,
+  names,
+  columns,
+  dialog: EntityDialog,
+  historyDrawer: HistoryDrawer,
+  importDialog: ImportDialog,
+  exportable = false,
+  softDelete = false,
+  recordLabel = defaultLabel,
+  listParams = {},
+  pageSizes = DEFAULT_PAGE_SIZES,
+  defaultPageSize = 50,
+  filters,
+  savedViews,
+  selectable = false,
+  bulkActions = [],
+}: EntityListPageProps<TRecord>) {
+  const one = kebab(names.singular);
+  const many = kebab(names.plural);
+  const pluralLower = names.plural.toLowerCase();
+
+  // ==================== Data State ====================
+  const [records, setRecords] = useState<TRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<EntityView>('active');
+
+  // ==================== Dialog & Drawer State ====================
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selected, setSelected] = useState<TRecord | null>(null);
+  const [historyRecord, setHistoryRecord] = useState<TRecord | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+
+  // ==================== Delete Dialog State ====================
+  const [toDelete, setToDelete] = useState<TRecord | null>(null);
+
+  // ==================== Optimistic Update State ====================
+  // A failed row request shows under its row rather than in the page's Alert
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  // The ref is read by timers and unmount; the state drives the snackbar, and
+  // keeps its message while it closes
+  const pendingDelete = useRef<PendingDelete<TRecord> | null>(null);
+  const [undoable, setUndoable] = useState<PendingDelete<TRecord> | null>(null);
+  const [undoOpen, setUndoOpen] = useState(false);
+
+  // ==================== Search, Sort, Filter & Pagination State ====================
+  // In the URL; `searchInput` is the box, `search` follows it after the debounce
+  const listState = useListQueryState({ defaultLimit: defaultPageSize, limits: pageSizes });
+  const { searchInput, setSearchInput, search, page, setPage, limit, setLimit } = listState;
+  const { sort, setSort, filter, setFilter, columns: chosenColumns, setColumns } = listState;
+  const [columnsAnchor, setColumnsAnchor] = useState<HTMLElement | null>(null);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+
+  // ==================== Selection State ====================
+  // Kept across pages; `allMatching` stands for every row the query matches
+  const [selectedRows, setSelectedRows] = useState<Map<string, TRecord>>(new Map());
+  const [allMatching, setAllMatching] = useState(false);
+
+  // ==================== Load Data ====================
+  const listQuery = (): ListParams<TRecord> => ({
+    ...listParams,
+    ...(sort.length > 0 && { sort: sort as ListParams<TRecord>['sort'] }),
+    search,
+    filter: {
+      ...listParams.filter,
+      ...filter,
+      // The Trash tab lists deleted rows; the active tab hides them (server default)
+      ...(view === 'trash' && { deletedAt: { isNull: false } }),
+    } as ListParams<TRecord>['filter'],
+    ...(view === 'trash' && { includeDeleted: true }),
+  });
+
+  const loadRecords = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await resource.list({ ...listQuery(), page, limit, cursor: undefined });
+      // A delete waiting on Undo may not be sent yet: keep its row hidden
+      const hiddenId = pendingDelete.current?.record.id;
+      const rows = result.data.filter((record) => record.id !== hiddenId);
+      setRecords(rows);
+      setTotalPages(result.pagination.pages || 1);
+      setTotalItems(result.pagination.total - (result.data.length - rows.length));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to load ${pluralLower}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ==================== Load on Mount & Dependencies ====================
+  useEffect(() => {
+    loadRecords();
+  }, [page, limit, search, sort.join(','), JSON.stringify(filter), view]);
+
+  // A different set of rows: the old selection no longer means anything
+  useEffect(() => {
+    clearSelection();
+  }, [search, JSON.stringify(filter), view]);
+
+  // Leaving the page (navigating away, reloading, closing the tab) doesn't
+  // cancel a delete waiting on Undo. keepalive lets the DELETE outlive the page
+  useEffect(() => {
+    const sendHeldDelete = () => {
+      const pending = pendingDelete.current;
+      if (!pending || pending.sent) return;
+      pendingDelete.current = null;
+      setUndoOpen(false);
+
+      // Nowhere left to show a failure
+      resource
+        .remove(pending.record.id, { permanent: pending.permanent, keepalive: true })
+        .catch(() => {});
+    };
+
+    window.addEventListener('pagehide', sendHeldDelete);
+    return () => {
+      window.removeEventListener('pagehide', sendHeldDelete);
+      sendHeldDelete();
+    };
+  }, []);
+
+  // ==================== Handlers ====================
+  const openDialog = (record: TRecord | null) => {
+    setSelected(record);
+    setDialogOpen(true);
+  };
+
+  const handleViewChange = (_: React.SyntheticEvent, value: EntityView) => {
+    setView(value);
+    if (page !== 1) setPage(1);
+  };
+
+  // Header clicks cycle ascending -> descending -> the resource's default order
+  const sortField = sort[0]?.replace(/^-/, '');
+  const sortDirection = sort[0]?.startsWith('-') ? 'desc' : 'asc';
+
+  const handleSort = (field: string) => {
+    if (sortField !== field) setSort([field]);
+    else if (sortDirection === 'asc') setSort([`-${field}`]);
+    else setSort([]);
+  };
+
+  // Columns chosen in the Columns menu (kept in the URL), else the non-defaultHidden ones
+  const defaultColumns = columns.filter((column) => !column.defaultHidden).map(columnKey);
+  const shownColumns = chosenColumns.length > 0 ? chosenColumns : defaultColumns;
+
+  const toggleColumn = (key: string) => {
+    const next = shownColumns.includes(key)
+      ? shownColumns.filter((shown) => shown !== key)
+      : [...shownColumns, key];
+    // Back to the default leaves the URL clean
+    setColumns(next.sort().join(',') === [...defaultColumns].sort().join(',') ? [] : next);
+  };
+
+  // In the Trash tab, delete is permanent
+  const permanentDelete = view === 'trash';
+
+  // ==================== Optimistic Updates ====================
+  const setRowError = (id: string, message: string | null) => {
+    setRowErrors((current) => {
+      const { [id]: _cleared, ...rest } = current;
+      return message ? { ...rest, [id]: message } : rest;
+    });
+  };
+
+  // Rows are put back by their neighbour rather than an index, which other
+  // changes made while the request was running would have shifted
+  const rowBelow = (record: TRecord) => {
+    const index = records.findIndex((row) => row.id === record.id);
+    return records[index + 1]?.id ?? null;
+  };
+
+  const takeOut = (record: TRecord) => {
+    setRecords((current) => current.filter((row) => row.id !== record.id));
+    setTotalItems((total) => total - 1);
+  };
+
+  const putBack = (record: TRecord, before: string | null) => {
+    setRecords((current) => {
+      if (current.some((row) => row.id === record.id)) return current;
+      const index = current.findIndex((row) => row.id === before);
+      return index === -1
+        ? [...current, record]
+        : [...current.slice(0, index), record, ...current.slice(index)];
+    });
+    setTotalItems((total) => total + 1);
+  };
+
+  // The edited row as it was before the dialog's values were applied
+  const beforeEdit = useRef<TRecord | null>(null);
+
+  const handleSaving = (changes: Partial<TRecord>) => {
+    if (!selected) return;
+    // A retry (e.g. Overwrite after a conflict) keeps the first snapshot
+    if (beforeEdit.current?.id !== selected.id) {
+      beforeEdit.current = records.find((row) => row.id === selected.id) ?? null;
+    }
+    setRowError(selected.id, null);
+    setRecords((current) =>
+      current.map((row) => (row.id === selected.id ? { ...row, ...changes } : row))
+    );
+  };
+
+  const handleSaveError = (message: string) => {
+    const before = beforeEdit.current;
+    beforeEdit.current = null;
+    if (!before) return;
+    setRecords((current) => current.map((row) => (row.id === before.id ? before : row)));
+    setRowError(before.id, message);
+  };
+
+  // The dialog saved: the server's record replaces the edited row. A new
+  // record reloads the page, as its place depends on the order and filters
+  const handleSaved = (saved?: TRecord) => {
+    beforeEdit.current = null;
+    if (!saved || !records.some((row) => row.id === saved.id)) {
+      loadRecords();
+      return;
+    }
+
+    setRowError(saved.id, null);
+    // Merged, so `include`d relations the response lacks stay on the row
+    setRecords((current) =>
+      current.map((row) => (row.id === saved.id ? { ...row, ...saved } : row))
+    );
+  };
+
+  const failed = (err: unknown, action: string) =>
+    err instanceof Error ? err.message : `Failed to ${action} ${one}`;
+
+  // Sends a held delete; the snackbar closing (timeout, another delete) commits it
+  const commitDelete = async () => {
+    const pending = pendingDelete.current;
+    if (!pending) return;
+    pendingDelete.current = null;
+    setUndoOpen(false);
+    if (pending.sent) return;
+
+    try {
+      await resource.remove(pending.record.id, { permanent: pending.permanent });
+    } catch (err) {
+      putBack(pending.record, pending.before);
+      setRowError(pending.record.id, failed(err, 'delete'));
+    }
+  };
+
+  const handleUndo = async () => {
+    const pending = pendingDelete.current;
+    if (!pending) return;
+    pendingDelete.current = null;
+    setUndoOpen(false);
+    putBack(pending.record, pending.before);
+    if (!pending.sent) return; // Nothing was sent
+
+    try {
+      await resource.restore(pending.record.id);
+    } catch (err) {
+      // Still in the trash, so there is no row to show the error under
+      takeOut(pending.record);
+      setError(`${recordLabel(pending.record)}: ${failed(err, 'restore')}`);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!toDelete) return;
+    const record = toDelete;
+    const before = rowBelow(record);
+    setToDelete(null);
+
+    commitDelete(); // One delete can be undone at a time
+    takeOut(record);
+    setRowError(record.id, null);
+    if (selectedRows.has(record.id)) toggleRow(record);
+
+    // Active tab moves soft-delete resources to the trash straight away, and
+    // offers Undo once that worked; everything else waits for the snackbar
+    const sent = softDelete && !permanentDelete;
+    if (sent) {
+      try {
+        await resource.remove(record.id);
+      } catch (err) {
+        putBack(record, before);
+        setRowError(record.id, failed(err, 'delete'));
+        return;
+      }
+    }
+
+    const pending = { record, before, permanent: permanentDelete, sent };
+    pendingDelete.current = pending;
+    setUndoable(pending);
+    setUndoOpen(true);
+  };
+
+  // Restored records leave the Trash tab
+  const handleRestore = async (record: TRecord) => {
+    const before = rowBelow(record);
+    takeOut(record);
+    setRowError(record.id, null);
+
+    try {
+      await resource.restore(record.id);
+    } catch (err) {
+      putBack(record, before);
+      setRowError(record.id, failed(err, 'restore'));
+    }
+  };
+
+  // Streams the current search (and tab) from GET {basePath}/export, or only
+  // the given rows; the response's Content-Disposition header turns
+  // navigation into a download
+  const handleExport = (format: 'csv' | 'ndjson', ids?: string[]) => {
+    const params = listSearchParams(listQuery());
+    if (ids) params.set('filter[id][in]', ids.join(','));
+    params.set('format', format);
+    params.set('locale', navigator.language);
+
+    window.location.href = `${resource.basePath}/export?${params}`;
+    setExportAnchor(null);
+  };
+
+  // ==================== Selection ====================
+  const clearSelection = () => {
+    setSelectedRows(new Map());
+    setAllMatching(false);
+  };
+
+  const isSelected = (record: TRecord) => allMatching || selectedRows.has(record.id);
+  const pageSelected = records.filter(isSelected).length;
+  const wholePageSelected = records.length > 0 && pageSelected === records.length;
+
+  // Unticking one row of an all-matching selection leaves the rest of this page
+  const toggleRow = (record: TRecord) => {
+    const next = new Map(allMatching ? records.map((row) => [row.id, row] as const) : selectedRows);
+    if (isSelected(record)) next.delete(record.id);
+    else next.set(record.id, record);
+    setSelectedRows(next);
+    setAllMatching(false);
+  };
+
+  // Ticks or unticks this page; rows picked on other pages stay as they are
+  const togglePage = () => {
+    const next = new Map(allMatching ? [] : selectedRows);
+    for (const record of records) {
+      if (wholePageSelected) next.delete(record.id);
+      else next.set(record.id, record);
+    }
+    setSelectedRows(next);
+    setAllMatching(false);
+  };
+
+  // Every id the list's query matches, a page of 100 at a time
+  const matchingIds = async () => {
+    const ids: string[] = [];
+    for (let next = 1, pages = 1; next <= pages; next++) {
+      const result = await resource.list({
+        ...listQuery(),
+        page: next,
+        limit: 100,
+        cursor: undefined,
+      });
+      ids.push(...result.data.map((record) => record.id));
+      pages = result.pagination.pages;
+    }
+    return ids;
+  };
+
+  // Failed rows stay selected, to retry or to look at
+  const handleBulkComplete = (failedIds: string[]) => {
+    setSelectedRows(
+      new Map(
+        failedIds
+          .map((id) => [id, selectedRows.get(id) ?? records.find((row) => row.id === id)])
+          .filter((entry): entry is [string, TRecord] => entry[1] !== undefined)
+      )
+    );
+    setAllMatching(false);
+    loadRecords();
+  };
+
+  const selection: BulkSelection<TRecord> = {
+    records: allMatching ? [] : [...selectedRows.values()],
+    allMatching,
+    count: allMatching ? totalItems : selectedRows.size,
+  };
+
+  const countLabel = (count: number) =>
+    `${count} ${count === 1 ? names.singular.toLowerCase() : pluralLower}`;
+
+  const builtInActions: EntityBulkAction<TRecord>[] = [
+    {
+      id: 'delete',
+      label: permanentDelete ? 'Delete permanently' : 'Delete',
+      icon: permanentDelete ? <DeleteForeverIcon /> : <DeleteIcon />,
+      color: 'error',
+      confirm: (count) =>
+        permanentDelete || !softDelete
+          ? `Permanently delete ${countLabel(count)}? This action cannot be undone.`
+          : `Move ${countLabel(count)} to the trash? You can restore them from the Trash tab.`,
+      operation: (id) => ({ op: 'delete', id, permanent: permanentDelete }),
+      done: 'deleted',
+    },
+    ...(exportable
+      ? [
+          {
+            id: 'export',
+            label: 'Export',
+            icon: <ExportIcon />,
+            run: (chosen: BulkSelection<TRecord>) =>
+              handleExport(
+                'csv',
+                chosen.allMatching ? undefined : chosen.records.map((row) => row.id)
+              ),
+          },
+        ]
+      : []),
+  ];
+  const actions = [...builtInActions, ...bulkActions].filter(
+    (action) => !action.views || action.views.includes(view)
+  );
+
+  // ==================== Loading State ====================
+  if (loading && records.length === 0 && !error) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ my: 4 }}>
+          <Typography data-testid={`${many}-loading`}>Loading {pluralLower}...</Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  const visibleColumns = columns.filter(
+    (column) =>
+      shownColumns.includes(columnKey(column)) && (!column.views || column.views.includes(view))
+  );
+
+  // ==================== Render ====================
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ my: 4 }}>
+        {/* Header */}
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+          <Typography variant="h1" component="h1" data-testid={`${many}-page-title`}>
+            {names.plural}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            {ImportDialog && (
+              <Button
+                variant="outlined"
+                startIcon={<ImportIcon />}
+                onClick={() => setImportOpen(true)}
+                data-testid={`import-${many}-button`}
+              >
+                Import
+              </Button>
+            )}
+            {exportable && (
+              <Button
+                variant="outlined"
+                startIcon={<ExportIcon />}
+                onClick={(e) => setExportAnchor(e.currentTarget)}
+                disabled={totalItems === 0}
+                data-testid={`export-${many}-button`}
+              >
+                Export
+              </Button>
+            )}
+            {EntityDialog && (
+              <Button
+                variant="contained"
+                startIcon={<AddIcon />}
+                onClick={() => openDialog(null)}
+                data-testid={`create-${one}-button`}
+              >
+                Create {names.singular}
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {/* Export format */}
+        {exportable && (
+          <Menu
+            anchorEl={exportAnchor}
+            open={!!exportAnchor}
+            onClose={() => setExportAnchor(null)}
+            data-testid={`export-${many}-menu`}
+          >
+            <MenuItem onClick={() => handleExport('csv')} data-testid={`export-${many}-csv`}>
+              CSV (spreadsheet)
+            </MenuItem>
+            <MenuItem onClick={() => handleExport('ndjson')} data-testid={`export-${many}-ndjson`}>
+              NDJSON
+            </MenuItem>
+          </Menu>
+        )}
+
+        {/* Active / Trash */}
+        {softDelete && (
+          <Tabs value={view} onChange={handleViewChange} sx={{ mb: 3 }}>
+            <Tab label="Active" value="active" data-testid={`${many}-tab-active`} />
+            <Tab label="Trash" value="trash" data-testid={`${many}-tab-trash`} />
+          </Tabs>
+        )}
+
+        {/* Error Alert */}
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }} data-testid={`${many}-error`}>
+            {error}
+          </Alert>
+        )}
+
+        {/* Search */}
+        <TextField
+          fullWidth
+          placeholder={`Search ${pluralLower}...`}
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          sx={{ mb: 2 }}
+          data-testid={`${many}-search-field`}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        {/* Filters, Columns & Saved Views */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Box sx={{ flexGrow: 1 }}>
+            {filters && <FilterBar filters={filters} value={filter} onChange={setFilter} />}
+          </Box>
+          <Button
+            size="small"
+            startIcon={<ColumnsIcon />}
+            onClick={(e) => setColumnsAnchor(e.currentTarget)}
+            data-testid={`${many}-columns-button`}
+          >
+            Columns
+          </Button>
+          {savedViews && (
+            <SavedViewsMenu
+              client={savedViews}
+              resource={many}
+              current={{ sort, filter, columns: chosenColumns }}
+              onApply={(state) => listState.setQuery(state)}
+            />
+          )}
+        </Box>
+
+        <Menu
+          anchorEl={columnsAnchor}
+          open={!!columnsAnchor}
+          onClose={() => setColumnsAnchor(null)}
+          data-testid={`${many}-columns-menu`}
+        >
+          {columns.map((column) => {
+            const key = columnKey(column);
+            const shown = shownColumns.includes(key);
+            return (
+              <MenuItem
+                key={key}
+                onClick={() => toggleColumn(key)}
+                // Keep at least one column
+                disabled={shown && shownColumns.length === 1}
+                data-testid={`column-toggle-${key}`}
+              >
+                <Checkbox size="small" checked={shown} sx={{ p: 0, mr: 1 }} />
+                <ListItemText primary={column.header} />
+              </MenuItem>
+            );
+          })}
+        </Menu>
+
+        {/* Bulk Actions */}
+        {selectable && (
+          <BulkActionToolbar
+            resource={resource}
+            selection={selection}
+            actions={actions}
+            testIdPrefix={many}
+            canSelectAllMatching={wholePageSelected && totalItems > records.length}
+            totalItems={totalItems}
+            matchingIds={matchingIds}
+            recordLabel={recordLabel}
+            onSelectAllMatching={() => setAllMatching(true)}
+            onClear={clearSelection}
+            onComplete={handleBulkComplete}
+          />
+        )}
+
+        {/* Table */}
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                {selectable && (
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={wholePageSelected}
+                      indeterminate={pageSelected > 0 && !wholePageSelected}
+                      onChange={togglePage}
+                      disabled={records.length === 0}
+                      inputProps={{ 'aria-label': `select all ${pluralLower} on this page` }}
+                      data-testid={`${many}-select-all`}
+                    />
+                  </TableCell>
+                )}
+                {visibleColumns.map((column) => (
+                  <TableCell
+                    key={columnKey(column)}
+                    align={column.align}
+                    sx={{ width: column.width }}
+                    sortDirection={
+                      !isComputed(column) && sortField === column.field ? sortDirection : false
+                    }
+                  >
+                    {!isComputed(column) && column.sortable ? (
+                      <TableSortLabel
+                        active={sortField === column.field}
+                        direction={sortField === column.field ? sortDirection : 'asc'}
+                        onClick={() => handleSort(column.field)}
+                        data-testid={`${many}-sort-${column.field}`}
+                      >
+                        {column.header}
+                      </TableSortLabel>
+                    ) : (
+                      column.header
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {records.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={visibleColumns.length + (selectable ? 2 : 1)} align="center">
+                    <Typography
+                      variant="body2"
+                      color="text.secondary"
+                      sx={{ py: 4 }}
+                      data-testid={`${many}-empty`}
+                    >
+                      {search
+                        ? `No ${pluralLower} found matching your search.`
+                        : Object.keys(filter).length > 0
+                          ? `No ${pluralLower} match these filters.`
+                          : view === 'trash'
+                            ? 'Trash is empty.'
+                            : `No ${pluralLower} yet.${EntityDialog ? ' Create your first one!' : ''}`}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                records.map((record) => (
+                  <Fragment key={record.id}>
+                    <TableRow
+                      hover
+                      selected={selectable && isSelected(record)}
+                      data-testid={`${one}-row-${record.id}`}
+                    >
+                      {selectable && (
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={isSelected(record)}
+                            onChange={() => toggleRow(record)}
+                            inputProps={{ 'aria-label': `select ${recordLabel(record)}` }}
+                            data-testid={`select-${one}-${record.id}`}
+                          />
+                        </TableCell>
+                      )}
+                      {visibleColumns.map((column) => (
+                        <TableCell key={columnKey(column)} align={column.align}>
+                          {renderCell(column, record)}
+                        </TableCell>
+                      ))}
+                      <TableCell align="right">
+                        {HistoryDrawer && (
+                          <IconButton
+                            size="small"
+                            onClick={() => setHistoryRecord(record)}
+                            aria-label="history"
+                            data-testid={`history-${one}-${record.id}`}
+                          >
+                            <HistoryIcon />
+                          </IconButton>
+                        )}
+                        {view === 'trash' ? (
+                          <>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleRestore(record)}
+                              aria-label="restore"
+                              data-testid={`restore-${one}-${record.id}`}
+                            >
+                              <RestoreIcon />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              onClick={() => setToDelete(record)}
+                              aria-label="delete permanently"
+                              color="error"
+                              data-testid={`permanent-delete-${one}-${record.id}`}
+                            >
+                              <DeleteForeverIcon />
+                            </IconButton>
+                          </>
+                        ) : (
+                          <>
+                            {EntityDialog && (
+                              <IconButton
+                                size="small"
+                                onClick={() => openDialog(record)}
+                                aria-label="edit"
+                                data-testid={`edit-${one}-${record.id}`}
+                              >
+                                <EditIcon />
+                              </IconButton>
+                            )}
+                            <IconButton
+                              size="small"
+                              onClick={() => setToDelete(record)}
+                              aria-label="delete"
+                              color="error"
+                              data-testid={`delete-${one}-${record.id}`}
+                            >
+                              <DeleteIcon />
+                            </IconButton>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {rowErrors[record.id] && (
+                      <TableRow data-testid={`${one}-row-error-${record.id}`}>
+                        <TableCell
+                          colSpan={visibleColumns.length + (selectable ? 2 : 1)}
+                          sx={{ py: 1 }}
+                        >
+                          <Alert severity="error" onClose={() => setRowError(record.id, null)}>
+                            {rowErrors[record.id]}
+                          </Alert>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {/* Pagination */}
+        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box>
+            <Typography variant="body2" color="text.secondary" data-testid="pagination-info">
+              Showing {records.length === 0 ? 0 : (page - 1) * limit + 1} to{' '}
+              {Math.min(page * limit, totalItems)} of {totalItems} items
+            </Typography>
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            {/* Items per page selector */}
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>Items per page</InputLabel>
+              <Select
+                value={limit}
+                label="Items per page"
+                onChange={(e) => setLimit(Number(e.target.value))} // Back to page 1
+                data-testid="page-size-select"
+              >
+                {pageSizes.map((size) => (
+                  <MenuItem key={size} value={size}>
+                    {size}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            {/* Page selector */}
+            <Pagination
+              count={totalPages}
+              page={page}
+              onChange={(_, value) => setPage(value)}
+              color="primary"
+              showFirstButton
+              showLastButton
+            />
+          </Box>
+        </Box>
+
+        {/* Create/Edit Dialog */}
+        {EntityDialog && (
+          <EntityDialog
+            open={dialogOpen}
+            onClose={() => setDialogOpen(false)}
+            onSuccess={handleSaved}
+            onSaving={handleSaving}
+            onSaveError={handleSaveError}
+            entity={selected}
+          />
+        )}
+
+        {/* History Drawer */}
+        {HistoryDrawer && (
+          <HistoryDrawer
+            open={!!historyRecord}
+            onClose={() => setHistoryRecord(null)}
+            entity={historyRecord}
+          />
+        )}
+
+        {/* Import Dialog */}
+        {ImportDialog && (
+          <ImportDialog
+            open={importOpen}
+            onClose={() => setImportOpen(false)}
+            onSuccess={loadRecords}
+          />
+        )}
+
+        {/* Delete Confirmation Dialog */}
+        <Dialog
+          open={!!toDelete}
+          onClose={() => setToDelete(null)}
+          data-testid={`delete-${one}-dialog`}
+        >
+          <DialogTitle data-testid={`delete-${one}-dialog-title`}>
+            Delete {names.singular}
+          </DialogTitle>
+          <DialogContent>
+            <DialogContentText>
+              {toDelete &&
+                (permanentDelete || !softDelete
+                  ? `Permanently delete "${recordLabel(toDelete)}"? This action cannot be undone.`
+                  : `Move "${recordLabel(toDelete)}" to the trash? You can restore it from the Trash tab.`)}
+            </DialogContentText>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setToDelete(null)} data-testid="delete-dialog-cancel">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDeleteConfirm}
+              color="error"
+              variant="contained"
+              data-testid="delete-dialog-confirm"
+            >
+              {permanentDelete ? 'Delete permanently' : 'Delete'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Undo Delete (keyed, so each delete gets the full time) */}
+        <Snackbar
+          key={undoable?.record.id}
+          open={undoOpen}
+          autoHideDuration={UNDO_TIMEOUT}
+          onClose={(_, reason) => {
+            if (reason !== 'clickaway') commitDelete();
+          }}
+          message={
+            undoable &&
+            (undoable.sent
+              ? `Moved "${recordLabel(undoable.record)}" to the trash`
+              : `Deleted "${recordLabel(undoable.record)}"`)
+          }
+          action={
+            <Button color="inherit" size="small" onClick={handleUndo} data-testid="undo-delete">
+              Undo
+            </Button>
+          }
+          data-testid={`${one}-undo-snackbar`}
+        />
+      </Box>
+    </Container>
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * FilterBar
+ *
+ * Copy this file to src/components/FilterBar.tsx.
+ *
+ * A row of filter chips above a list. Each filter is declared once with its
+ * type and turns into the list route's own `filter[field][op]` parameters, so
+ * the server filters (and paginates) the whole result, not the current page:
+ *
+ *   select     { status: { eq: 'active' } }, or { in: 'active,pending' } with `multiple`
+ *   dateRange  { createdAt: { gte: '2026-01-01', lt: '2026-02-01' } } (the To day is included)
+ *   boolean    { archived: { eq: 'true' } }
+ *
+ * The resource must allow those operators (createCrudHandlers `filterable`):
+ *
+ *   filterable: { status: ['eq', 'in'], createdAt: ['gte', 'lt'], archived: ['eq'] }
+ *
+ * USAGE (EntityListPage does this when given `filters`):
+ *
+ *   <FilterBar
+ *     filters={[
+ *       { type: 'select', field: 'status', label: 'Status', options: statusOptions, multiple: true },
+ *       { type: 'dateRange', field: 'createdAt', label: 'Created' },
+ *     ]}
+ *     value={filter}          // from useListQueryState()
+ *     onChange={setFilter}
+ *   />
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Menu,
+  MenuItem,
+  Popover,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { FilterList as FilterIcon } from '@mui/icons-material';
+
+import type { ListFilter } from '@/hooks/useListQueryState';
+
+// ==================== Types ====================
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface FilterBase<TRecord> {
+  field: keyof TRecord & string;
+  label: string;
+}
+
+/** One value (`eq`), or any of several (`in`) with `multiple` */
+export interface SelectFilter<TRecord> extends FilterBase<TRecord> {
+  type: 'select';
+  options: FilterOption[];
+  multiple?: boolean;
+}
+
+/** From/To dates, both optional (`gte` / `lt` the day after To) */
+export interface DateRangeFilter<TRecord> extends FilterBase<TRecord> {
+  type: 'dateRange';
+}
+
+/** Yes or No (`eq` 'true' / 'false') */
+export interface BooleanFilter<TRecord> extends FilterBase<TRecord> {
+  type: 'boolean';
+  /** Default: Yes / No */
+  labels?: { true: string; false: string };
+}
+
+export type FilterDefinition<TRecord> =
+  SelectFilter<TRecord> | DateRangeFilter<TRecord> | BooleanFilter<TRecord>;
+
+export interface FilterBarProps<TRecord> {
+  filters: FilterDefinition<TRecord>[];
+  /** The list's filter; fields without a definition are kept as they are */
+  value: ListFilter;
+  onChange: (filter: ListFilter) => void;
+}
+
+type Condition = ListFilter[string];
+
+/** What the editor holds while a filter is being changed */
+interface Draft {
+  values: string[];
+  from: string;
+  to: string;
+}
+
+const EMPTY_DRAFT: Draft = { values: [], from: '', to: '' };
+
+// ==================== Conversion ====================
+
+/** Shift a yyyy-mm-dd date by whole days */
+function addDays(date: string, days: number) {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+function toCondition<TRecord>(
+  definition: FilterDefinition<TRecord>,
+  draft: Draft
+): Condition | null {
+  switch (definition.type) {
+    case 'select':
+      if (draft.values.length === 0) return null;
+      return definition.multiple ? { in: draft.values.join(',') } : { eq: draft.values[0] };
+    case 'dateRange':
+      if (!draft.from && !draft.to) return null;
+      // `lt` the next day, so a timestamp on the To day still matches
+      return {
+        ...(draft.from && { gte: draft.from }),
+        ...(draft.to && { lt: addDays(draft.to, 1) }),
+      };
+    case 'boolean':
+      return draft.values[0] ? { eq: draft.values[0] } : null;
+  }
+}
+
+function toDraft<TRecord>(
+  definition: FilterDefinition<TRecord>,
+  condition: Condition | undefined
+): Draft {
+  if (!condition) return EMPTY_DRAFT;
+  if (definition.type === 'dateRange') {
+    const to = condition.lt ? addDays(condition.lt, -1) : (condition.lte ?? '');
+    return { ...EMPTY_DRAFT, from: condition.gte ?? condition.gt ?? '', to };
+  }
+  const values = condition.in?.split(',') ?? (condition.eq ? [condition.eq] : []);
+  return { ...EMPTY_DRAFT, values };
+}
+
+function chipLabel<TRecord>(definition: FilterDefinition<TRecord>, condition: Condition) {
+  const draft = toDraft(definition, condition);
+  switch (definition.type) {
+    case 'select': {
+      const labels = draft.values.map(
+        (value) => definition.options.find((option) => option.value === value)?.label ?? value
+      );
+      return `${definition.label}: ${labels.join(', ')}`;
+    }
+    case 'dateRange':
+      if (!draft.to) return `${definition.label}: from ${draft.from}`;
+      if (!draft.from) return `${definition.label}: until ${draft.to}`;
+      return `${definition.label}: ${draft.from} – ${draft.to}`;
+    case 'boolean': {
+      const labels = definition.labels ?? { true: 'Yes', false: 'No' };
+      return `${definition.label}: ${draft.values[0] === 'true' ? labels.true : labels.false}`;
+    }
+  }
+}
+
+// ==================== Component ====================
+
+export function FilterBar<TRecord>({ filters, value, onChange }: FilterBarProps<TRecord>) {
+  const [addAnchor, setAddAnchor] = useState<HTMLElement | null>(null);
+  const [editorAnchor, setEditorAnchor] = useState<HTMLElement | null>(null);
+  const [editing, setEditing] = useState<FilterDefinition<TRecord> | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  const active = filters.filter((definition) => value[definition.field]);
+  const available = filters.filter((definition) => !value[definition.field]);
+
+  const openEditor = (definition: FilterDefinition<TRecord>, anchor: HTMLElement) => {
+    setEditing(definition);
+    setDraft(toDraft(definition, value[definition.field]));
+    setEditorAnchor(anchor);
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setEditorAnchor(null);
+  };
+
+  const setCondition = (field: string, condition: Condition | null) => {
+    const { [field]: _removed, ...rest } = value;
+    onChange(condition ? { ...rest, [field]: condition } : rest);
+  };
+
+  const handleApply = () => {
+    if (editing) setCondition(editing.field, toCondition(editing, draft));
+    closeEditor();
+  };
+
+  return (
+    <Box
+      sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center' }}
+      data-testid="filter-bar"
+    >
+      {active.map((definition) => (
+        <Chip
+          key={definition.field}
+          label={chipLabel(definition, value[definition.field])}
+          onClick={(e) => openEditor(definition, e.currentTarget)}
+          onDelete={() => setCondition(definition.field, null)}
+          data-testid={`filter-chip-${definition.field}`}
+        />
+      ))}
+
+      {available.length > 0 && (
+        <Button
+          size="small"
+          startIcon={<FilterIcon />}
+          onClick={(e) => setAddAnchor(e.currentTarget)}
+          data-testid="add-filter-button"
+        >
+          Add filter
+        </Button>
+      )}
+
+      <Menu
+        anchorEl={addAnchor}
+        open={!!addAnchor}
+        onClose={() => setAddAnchor(null)}
+        data-testid="add-filter-menu"
+      >
+        {available.map((definition) => (
+          <MenuItem
+            key={definition.field}
+            onClick={() => {
+              // Open the editor where the menu was, since the menu item goes away
+              if (addAnchor) openEditor(definition, addAnchor);
+              setAddAnchor(null);
+            }}
+            data-testid={`add-filter-${definition.field}`}
+          >
+            {definition.label}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {/* Editor for one filter */}
+      <Popover
+        open={!!editing}
+        anchorEl={editorAnchor}
+        onClose={closeEditor}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        {editing && (
+          <Stack spacing={2} sx={{ p: 2, minWidth: 260 }} data-testid="filter-editor">
+            {editing.type === 'select' && (
+              <TextField
+                select
+                label={editing.label}
+                value={editing.multiple ? draft.values : (draft.values[0] ?? '')}
+                onChange={(e) => {
+                  const selected = e.target.value as string | string[];
+                  setDraft({ ...draft, values: Array.isArray(selected) ? selected : [selected] });
+                }}
+                SelectProps={{ multiple: editing.multiple }}
+                data-testid="filter-editor-select"
+              >
+                {editing.options.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+
+            {editing.type === 'dateRange' && (
+              <>
+                <TextField
+                  type="date"
+                  label="From"
+                  value={draft.from}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  data-testid="filter-editor-from"
+                />
+                <TextField
+                  type="date"
+                  label="To"
+                  value={draft.to}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  data-testid="filter-editor-to"
+                />
+              </>
+            )}
+
+            {editing.type === 'boolean' && (
+              <ToggleButtonGroup
+                exclusive
+                value={draft.values[0] ?? null}
+                onChange={(_, selected: string | null) =>
+                  setDraft({ ...draft, values: selected ? [selected] : [] })
+                }
+                aria-label={editing.label}
+              >
+                <ToggleButton value="true" data-testid="filter-editor-true">
+                  {editing.labels?.true ?? 'Yes'}
+                </ToggleButton>
+                <ToggleButton value="false" data-testid="filter-editor-false">
+                  {editing.labels?.false ?? 'No'}
+                </ToggleButton>
+              </ToggleButtonGroup>
+            )}
+
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+              <Button
+                onClick={() => {
+                  setCondition(editing.field, null);
+                  closeEditor();
+                }}
+                data-testid="filter-editor-clear"
+              >
+                Clear
+              </Button>
+              <Button variant="contained" onClick={handleApply} data-testid="filter-editor-apply">
+                Apply
+              </Button>
+            </Box>
+          </Stack>
+        )}
+      </Popover>
+    </Box>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Entity History Drawer Template
+ *
+ * Side drawer listing who changed a record and what they changed, read from
+ * GET /api/entities/[id]/history (createCrudHandlers({ audit: true })).
+ *
+ * USAGE:
+ * 1. Copy this file to your components directory
+ * 2. Replace "Entity" with your entity name
+ * 3. Import your resource client (src/lib/api/entities.ts, see nextjs-api/assets/api-client.ts)
+ * 4. Open it from a row action in the page template
+ *
+ * FEATURES:
+ * - Newest changes first, with "Load more" for long histories
+ * - Field-level before/after values
+ * - Actor and timestamp per change
+ * - Loading, empty and error states
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  List,
+  ListItem,
+  Chip,
+  Divider,
+  Button,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+
+// TODO: Import your resource client
+import { entitiesApi } from '@/lib/api/entities';
+import type { HistoryEntry } from '@/lib/api/client'; // AuditEntry as it arrives over JSON
+
+const PAGE_SIZE = 20;
+
+const ACTION_COLORS = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+  restore: 'warning',
+} as const;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface EntityHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  entity: { id: string; name: string } | null;
+}
+
+export function EntityHistoryDrawer({ open, onClose, entity }: EntityHistoryDrawerProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async (nextPage: number) => {
+    if (!entity) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await entitiesApi.history(entity.id, { page: nextPage, limit: PAGE_SIZE });
+      setEntries((previous) => (nextPage === 1 ? result.data : [...previous, ...result.data]));
+      setHasMore(nextPage < result.pagination.pages);
+      setPage(nextPage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload from the first page whenever the drawer opens for a record
+  useEffect(() => {
+    if (open && entity) {
+      setEntries([]);
+      loadHistory(1);
+    }
+  }, [open, entity?.id]);
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose} data-testid="entity-history-drawer">
+      <Box sx={{ width: { xs: '100vw', sm: 420 }, p: 3 }}>
+        {/* Header */}
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" component="h2" data-testid="entity-history-title">
+            History: {entity?.name}
+          </Typography>
+          <IconButton onClick={onClose} aria-label="close" data-testid="entity-history-close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!loading && !error && entries.length === 0 && (
+          <Typography color="text.secondary" data-testid="entity-history-empty">
+            No changes recorded yet.
+          </Typography>
+        )}
+
+        {/* Entries, newest first */}
+        <List disablePadding>
+          {entries.map((entry, index) => (
+            <Box key={entry.id}>
+              {index > 0 && <Divider />}
+              <ListItem
+                disableGutters
+                sx={{ display: 'block', py: 2 }}
+                data-testid={`entity-history-entry-${entry.id}`}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Chip
+                    label={entry.action}
+                    color={ACTION_COLORS[entry.action]}
+                    size="small"
+                    data-testid="entity-history-action"
+                  />
+                  <Typography variant="body2" data-testid="entity-history-actor">
+                    {entry.actorEmail ?? 'System'}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </Typography>
+                </Box>
+
+                {Object.entries(entry.changes).map(([field, { from, to }]) => (
+                  <Typography
+                    key={field}
+                    variant="body2"
+                    sx={{ wordBreak: 'break-word' }}
+                    data-testid={`entity-history-change-${field}`}
+                  >
+                    <strong>{field}</strong>: {formatValue(from)} → {formatValue(to)}
+                  </Typography>
+                ))}
+              </ListItem>
+            </Box>
+          ))}
+        </List>
+
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {hasMore && !loading && (
+          <Button
+            fullWidth
+            onClick={() => loadHistory(page + 1)}
+            data-testid="entity-history-load-more"
+          >
+            Load more
+          </Button>
+        )}
+      </Box>
+    </Drawer>
+  );
+}
+
+/**
+ * CHECKLIST:
+ * [ ] Replaced "Entity" with actual entity name
+ * [ ] Imported your resource client
+ * [ ] Resource uses createCrudHandlers({ audit: true }) and exports the history route
+ * [ ] Opened from a History row action in the page
+ * [ ] Removed TODO comments
+ */
@@ -0,0 +1,342 @@
+/**
+ * Entity "Load More" Page Template
+ *
+ * Variant of page-template.tsx for large tables that use cursor pagination
+ * (`?cursor=` on the list route). Rows are appended with a "Load more" button
+ * instead of page numbers, and no total count is requested.
+ *
+ * USAGE:
+ * 1. Enable cursor mode on the resource (createCrudHandlers({ cursor: { field: 'createdAt' } }))
+ * 2. Copy this file to your app directory
+ * 3. Replace "Entity"/"Entities" with your entity name
+ * 4. Update the table columns to match your schema
+ * 5. Import your resource client (src/lib/api/entities.ts, see nextjs-api/assets/api-client.ts)
+ *    and dialog component
+ *
+ * FEATURES:
+ * - Server-side search with debouncing (restarts from the first page)
+ * - Cursor-based "Load more" with stable ordering
+ * - Create/Edit/Delete operations
+ * - Loading and empty states
+ * - Error handling
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Container,
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Alert,
+  TextField,
+  InputAdornment,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon,
+} from '@mui/icons-material';
+
+// TODO: Import your resource client and record type (createResourceClient in api-client.ts)
+import { entitiesApi } from '@/lib/api/entities';
+import type { EntityRecord as Entity } from '@/lib/api/entities'; // Typed from the Drizzle table
+
+// TODO: Import your dialog component
+// import { EntityDialog } from '@/components/entities/EntityDialog';
+
+const PAGE_SIZE = 25;
+
+export default function EntitiesPage() {
+  // ==================== Data State ====================
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ==================== Dialog State ====================
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedEntity, setSelectedEntity] = useState<Entity | null>(null);
+
+  // ==================== Delete Dialog State ====================
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [entityToDelete, setEntityToDelete] = useState<Entity | null>(null);
+
+  // ==================== Search State ====================
+  const [searchInput, setSearchInput] = useState(''); // Immediate input value
+  const [searchQuery, setSearchQuery] = useState(''); // Debounced value for API
+
+  // ==================== Load Data ====================
+  /**
+   * Load a page of entities.
+   * @param cursor - '' for the first page, or the previous response's nextCursor
+   */
+  const loadEntities = async (cursor: string) => {
+    const isFirstPage = cursor === '';
+
+    try {
+      if (isFirstPage) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+      setError(null);
+
+      const result = await entitiesApi.list({ cursor, limit: PAGE_SIZE, search: searchQuery });
+      setEntities((prev) => (isFirstPage ? result.data : [...prev, ...result.data]));
+      setNextCursor(result.pagination.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load entities');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  // ==================== Debounce Search ====================
+  // Debounce search input (300ms delay)
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setSearchQuery(searchInput);
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchInput]);
+
+  // ==================== Load First Page on Mount & Search ====================
+  useEffect(() => {
+    loadEntities(''); // Search changes restart from the first page
+  }, [searchQuery]);
+
+  // ==================== CRUD Handlers ====================
+  const handleCreateClick = () => {
+    setSelectedEntity(null);
+    setDialogOpen(true);
+  };
+
+  const handleEditClick = (entity: Entity) => {
+    setSelectedEntity(entity);
+    setDialogOpen(true);
+  };
+
+  const handleDeleteClick = (entity: Entity) => {
+    setEntityToDelete(entity);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!entityToDelete) return;
+
+    try {
+      await entitiesApi.remove(entityToDelete.id);
+
+      // Remove locally so already-loaded pages stay in place
+      setEntities((prev) => prev.filter((e) => e.id !== entityToDelete.id));
+      setDeleteDialogOpen(false);
+      setEntityToDelete(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete entity');
+    }
+  };
+
+  const handleDialogSuccess = async () => {
+    await loadEntities(''); // New rows sort first, so restart from the top
+  };
+
+  // ==================== Loading State ====================
+  if (loading && entities.length === 0) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ my: 4 }}>
+          <Typography>Loading entities...</Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  // ==================== Render ====================
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ my: 4 }}>
+        {/* Header */}
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+          <Typography variant="h1" component="h1" data-testid="entities-page-title">
+            Entities
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateClick}
+            data-testid="create-entity-button"
+          >
+            Create Entity
+          </Button>
+        </Box>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+        )}
+
+        {/* Search */}
+        <TextField
+          fullWidth
+          placeholder="Search entities..."
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          sx={{ mb: 3 }}
+          data-testid="entities-search-field"
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        {/* Table */}
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Created</TableCell>
+                <TableCell align="right">Actions</TableCell>
+                {/* TODO: Add your columns */}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entities.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 4 }}>
+                      {searchQuery
+                        ? 'No entities found matching your search.'
+                        : 'No entities yet. Create your first one!'}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entities.map((entity) => (
+                  <TableRow key={entity.id} hover data-testid={`entity-row-${entity.id}`}>
+                    <TableCell>
+                      <Typography variant="body1" fontWeight="medium">
+                        {entity.name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{new Date(entity.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        onClick={() => handleEditClick(entity)}
+                        aria-label="edit"
+                        data-testid={`edit-entity-${entity.id}`}
+                      >
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleDeleteClick(entity)}
+                        aria-label="delete"
+                        color="error"
+                        data-testid={`delete-entity-${entity.id}`}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {/* Load More */}
+        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="body2" color="text.secondary" data-testid="pagination-info">
+            Showing {entities.length} items
+          </Typography>
+
+          {nextCursor && (
+            <Button
+              variant="outlined"
+              onClick={() => loadEntities(nextCursor)}
+              disabled={loadingMore}
+              data-testid="load-more-button"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          )}
+        </Box>
+
+        {/* Create/Edit Dialog */}
+        {/* TODO: Uncomment and use your actual dialog component */}
+        {/* <EntityDialog
+          open={dialogOpen}
+          onClose={() => setDialogOpen(false)}
+          onSuccess={handleDialogSuccess}
+          entity={selectedEntity}
+        /> */}
+
+        {/* Delete Confirmation Dialog */}
+        <Dialog
+          open={deleteDialogOpen}
+          onClose={() => setDeleteDialogOpen(false)}
+          data-testid="delete-entity-dialog"
+        >
+          <DialogTitle data-testid="delete-entity-dialog-title">Delete Entity</DialogTitle>
+          <DialogContent>
+            <DialogContentText>
+              Are you sure you want to delete "{entityToDelete?.name}"? This action cannot be
+              undone.
+            </DialogContentText>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDeleteDialogOpen(false)} data-testid="delete-dialog-cancel">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDeleteConfirm}
+              color="error"
+              variant="contained"
+              data-testid="delete-dialog-confirm"
+            >
+              Delete
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </Container>
+  );
+}
+
+/**
+ * CHECKLIST:
+ * [ ] Enabled cursor pagination on the list route
+ * [ ] Replaced "Entity"/"Entities" with actual entity name
+ * [ ] Updated import statements (resource client, dialog)
+ * [ ] Updated table columns to match schema
+ * [ ] Uncommented dialog component
+ * [ ] Tested "Load more" appends rows without duplicates
+ * [ ] Tested search restarts from the first page
+ * [ ] Removed TODO comments
+ */
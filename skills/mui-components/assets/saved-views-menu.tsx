@@ -0,0 +1,273 @@
+/**
+ * SavedViewsMenu
+ *
+ * Copy this file to src/components/SavedViewsMenu.tsx.
+ *
+ * A "Views" button for a list page: pick one of the user's saved views to
+ * apply its sort, filters and columns, save the current ones under a name, or
+ * delete a view. Views are stored per user on the server (nextjs-api
+ * saved-views.ts), so they follow the user across browsers.
+ *
+ * USAGE (EntityListPage does this when given `savedViews`):
+ *
+ *   <SavedViewsMenu
+ *     client={savedViewsApi}
+ *     resource="entities"
+ *     current={{ sort, filter, columns }}      // from useListQueryState()
+ *     onApply={(state) => setQuery(state)}
+ *   />
+ *
+ * Saving under the name of an existing view updates that view.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import {
+  Bookmarks as ViewsIcon,
+  BookmarkAdd as SaveViewIcon,
+  Close as DeleteIcon,
+} from '@mui/icons-material';
+
+import type { z } from 'zod';
+
+import { ApiError } from '@/lib/api/client';
+import type { ResourceClient } from '@/lib/api/client';
+import type {
+  createSavedViewSchema,
+  SavedViewState,
+  updateSavedViewSchema,
+} from '@/lib/server/saved-views';
+
+// ==================== Types ====================
+
+export interface SavedView {
+  id: string;
+  resource: string;
+  name: string;
+  state: SavedViewState;
+}
+
+/** The saved views client (createResourceClient over the savedViews table) */
+export type SavedViewsClient = ResourceClient<
+  SavedView,
+  z.input<typeof createSavedViewSchema>,
+  z.input<typeof updateSavedViewSchema>
+>;
+
+export interface SavedViewsMenuProps {
+  client: SavedViewsClient;
+  /** The list page's key, e.g. 'entities' */
+  resource: string;
+  /** The list's current sort, filter and columns */
+  current: SavedViewState;
+  onApply: (state: SavedViewState) => void;
+}
+
+/** Compares states regardless of filter order */
+function stateKey(state: SavedViewState) {
+  const filter = Object.entries(state.filter)
+    .map(([field, condition]) => [field, Object.entries(condition).sort()] as const)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([state.sort, filter, state.columns]);
+}
+
+// ==================== Component ====================
+
+export function SavedViewsMenu({ client, resource, current, onApply }: SavedViewsMenuProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // ==================== Save Dialog State ====================
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadViews = async () => {
+    try {
+      const result = await client.list({ filter: { resource }, sort: ['name'], limit: 100 });
+      setViews(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load views');
+    }
+  };
+
+  useEffect(() => {
+    loadViews();
+  }, [resource]);
+
+  const currentKey = stateKey(current);
+  const activeView = views.find((view) => stateKey(view.state) === currentKey);
+
+  // ==================== Handlers ====================
+  const handleApply = (view: SavedView) => {
+    onApply(view.state);
+    setAnchor(null);
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await client.remove(view.id);
+      await loadViews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete view');
+    }
+  };
+
+  const openSave = () => {
+    setName(activeView?.name ?? '');
+    setNameError(null);
+    setSaveOpen(true);
+    setAnchor(null);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setNameError('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const existing = views.find((view) => view.name === trimmed);
+      if (existing) await client.update(existing.id, { state: current });
+      else await client.create({ resource, name: trimmed, state: current });
+
+      setSaveOpen(false);
+      await loadViews();
+    } catch (err) {
+      // Saved from another tab in the meantime
+      if (err instanceof ApiError && err.code === 'DUPLICATE') {
+        setNameError('A view with this name already exists');
+      } else {
+        setNameError(err instanceof Error ? err.message : 'Failed to save view');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ==================== Render ====================
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<ViewsIcon />}
+        onClick={(e) => setAnchor(e.currentTarget)}
+        data-testid="saved-views-button"
+      >
+        {activeView ? activeView.name : 'Views'}
+      </Button>
+
+      <Menu
+        anchorEl={anchor}
+        open={!!anchor}
+        onClose={() => setAnchor(null)}
+        data-testid="saved-views-menu"
+      >
+        {error && (
+          <MenuItem disabled>
+            <ListItemText primary={error} />
+          </MenuItem>
+        )}
+        {!error && views.length === 0 && (
+          <MenuItem disabled data-testid="saved-views-empty">
+            <ListItemText primary="No saved views" />
+          </MenuItem>
+        )}
+        {views.map((view) => (
+          <MenuItem
+            key={view.id}
+            selected={view.id === activeView?.id}
+            onClick={() => handleApply(view)}
+            data-testid={`saved-view-${view.id}`}
+          >
+            <ListItemText primary={view.name} />
+            <IconButton
+              size="small"
+              edge="end"
+              aria-label={`delete view ${view.name}`}
+              onClick={(e) => {
+                e.stopPropagation(); // Don't apply the view being deleted
+                handleDelete(view);
+              }}
+              data-testid={`delete-saved-view-${view.id}`}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={openSave} data-testid="save-view-button">
+          <SaveViewIcon fontSize="small" sx={{ mr: 1 }} />
+          Save current view…
+        </MenuItem>
+      </Menu>
+
+      {/* Save Dialog */}
+      <Dialog
+        open={saveOpen}
+        onClose={() => setSaveOpen(false)}
+        maxWidth="xs"
+        fullWidth
+        data-testid="save-view-dialog"
+      >
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setNameError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+            }}
+            error={!!nameError}
+            helperText={
+              nameError ??
+              (views.some((view) => view.name === name.trim()) ? 'Replaces the saved view' : ' ')
+            }
+            inputProps={{ maxLength: 100 }}
+            data-testid="save-view-name"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)} data-testid="save-view-cancel">
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving}
+            data-testid="save-view-confirm"
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
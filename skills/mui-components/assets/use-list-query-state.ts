@@ -0,0 +1,241 @@
+/**
+ * useListQueryState
+ *
+ * Copy this file to src/hooks/useListQueryState.ts.
+ *
+ * Keeps a list page's search, page, limit, sort, filters and visible columns
+ * in the URL (`/entities?search=acme&page=2&limit=25&sort=-createdAt&filter[status][in]=active,pending`)
+ * instead of useState, so a refresh, a shared link or the back button shows
+ * the same list. The parameter names are the API's, so the state can be
+ * passed straight to the resource client's list().
+ *
+ *   const query = useListQueryState({ defaultLimit: 50 });
+ *   <TextField value={query.searchInput} onChange={(e) => query.setSearchInput(e.target.value)} />
+ *   const result = await entitiesApi.list({ search: query.search, page: query.page, ... });
+ *
+ * - The search box updates at once; the URL (and `search`) follow after the
+ *   debounce, with router.replace so typing doesn't fill the history
+ * - A new search, limit, sort or filter goes back to page 1
+ * - Other changes use router.push, so Back returns to them
+ * - `columns` is for the page only (the API doesn't see it); empty means the
+ *   page's default columns
+ * - Defaults are left out of the URL, and invalid values fall back to them
+ *
+ * The state is read from useSearchParams(), so the server-rendered first load
+ * already shows the URL's page. In a server component, parseListQuery() reads
+ * the same state from the page's `searchParams`, e.g. to fetch the first page:
+ *
+ *   export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+ *     const query = parseListQuery(await searchParams);
+ *     ...
+ *   }
+ *
+ * Client components that call useSearchParams() need a <Suspense> boundary
+ * above them when the route is statically rendered (see page-template.tsx).
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { FilterOperator } from '@/lib/server/list-query';
+
+// ==================== Types ====================
+
+/** Field -> value per operator: { status: { in: 'active,pending' }, createdAt: { gte: '2026-01-01' } } */
+export type ListFilter = Record<string, Partial<Record<FilterOperator, string>>>;
+
+export interface ListQuery {
+  search: string;
+  page: number;
+  limit: number;
+  /** Fields, `-` for descending: ['-createdAt', 'name'] */
+  sort: string[];
+  filter: ListFilter;
+  /** Visible column keys; empty for the page's default */
+  columns: string[];
+}
+
+export interface ListQueryOptions {
+  /** Default: 50 */
+  defaultLimit?: number;
+  /** Limits accepted from the URL. Default: 25, 50, 100 */
+  limits?: number[];
+  /** Default: no sort (the API's default order) */
+  defaultSort?: string[];
+  /** Delay before a search reaches the URL. Default: 300ms */
+  debounceMs?: number;
+}
+
+/** A page's `searchParams` (server) or URLSearchParams (client) */
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+export interface ListQueryState extends ListQuery {
+  /** The search box's value; `search` follows it after the debounce */
+  searchInput: string;
+  setSearchInput: (value: string) => void;
+  setPage: (page: number) => void;
+  setLimit: (limit: number) => void;
+  setSort: (sort: string[]) => void;
+  setFilter: (filter: ListFilter) => void;
+  setColumns: (columns: string[]) => void;
+  /** Several changes in one history entry, e.g. applying a saved view. Back to page 1 unless `page` is given */
+  setQuery: (next: Partial<ListQuery>) => void;
+}
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_LIMITS = [25, 50, 100];
+const DEFAULT_DEBOUNCE_MS = 300;
+
+/** The same field names the list route's ?sort= accepts */
+const SORT_FIELD = /^-?[A-Za-z_][\w.]*$/;
+
+/** list-query.ts's operators; listed here so the client bundle doesn't import the server file */
+const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'isNull'] as const;
+
+/** filter[status][in] or the filter[status] shorthand for [eq] */
+const FILTER_PARAM = /^filter\[([A-Za-z_][\w.]*)\](?:\[(\w+)\])?$/;
+
+const QUERY_KEYS = ['search', 'page', 'limit', 'sort', 'columns'] as const;
+
+// ==================== URL <-> State ====================
+
+function entries(params: SearchParamsInput): [string, string][] {
+  if (params instanceof URLSearchParams) return Array.from(params.entries());
+
+  return Object.entries(params).flatMap(([name, value]): [string, string][] =>
+    value === undefined ? [] : [[name, Array.isArray(value) ? value[0] : value]]
+  );
+}
+
+function read(params: SearchParamsInput, name: string): string | null {
+  return entries(params).find(([key]) => key === name)?.[1] ?? null;
+}
+
+function readFilter(params: SearchParamsInput): ListFilter {
+  const filter: ListFilter = {};
+  for (const [name, value] of entries(params)) {
+    const match = FILTER_PARAM.exec(name);
+    const operator = (match?.[2] ?? 'eq') as FilterOperator;
+    if (!match || !FILTER_OPERATORS.includes(operator)) continue;
+    filter[match[1]] = { ...filter[match[1]], [operator]: value };
+  }
+  return filter;
+}
+
+const list = (value: string | null) => (value ?? '').split(',').filter(Boolean);
+
+/**
+ * The list state in a URL. Works with the client's useSearchParams() and with
+ * a server page's awaited `searchParams`.
+ */
+export function parseListQuery(
+  params: SearchParamsInput,
+  options: ListQueryOptions = {}
+): ListQuery {
+  const defaultLimit = options.defaultLimit ?? DEFAULT_LIMIT;
+  const limits = options.limits ?? DEFAULT_LIMITS;
+
+  const page = Number(read(params, 'page'));
+  const limit = Number(read(params, 'limit'));
+  const sort = list(read(params, 'sort')).filter((field) => SORT_FIELD.test(field));
+
+  return {
+    search: read(params, 'search') ?? '',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    limit: limits.includes(limit) ? limit : defaultLimit,
+    sort: sort.length > 0 ? sort : (options.defaultSort ?? []),
+    filter: readFilter(params),
+    columns: list(read(params, 'columns')),
+  };
+}
+
+/**
+ * Write the list state into `base` (other parameters, e.g. a tab, are kept).
+ * Defaults are removed, so the plain page URL is the default list.
+ */
+export function listQuerySearchParams(
+  query: ListQuery,
+  options: ListQueryOptions = {},
+  base?: URLSearchParams | { toString(): string }
+): URLSearchParams {
+  const params = new URLSearchParams(base?.toString());
+  const defaultSort = (options.defaultSort ?? []).join(',');
+  const values: Record<(typeof QUERY_KEYS)[number], string | null> = {
+    search: query.search.trim() || null,
+    page: query.page > 1 ? String(query.page) : null,
+    limit: query.limit !== (options.defaultLimit ?? DEFAULT_LIMIT) ? String(query.limit) : null,
+    sort: query.sort.join(',') !== defaultSort ? query.sort.join(',') : null,
+    columns: query.columns.join(',') || null,
+  };
+
+  for (const key of QUERY_KEYS) {
+    const value = values[key];
+    if (value === null) params.delete(key);
+    else params.set(key, value);
+  }
+
+  // The filter replaces every filter[...] parameter; empty values are dropped
+  for (const name of Array.from(params.keys())) {
+    if (FILTER_PARAM.test(name)) params.delete(name);
+  }
+  for (const [field, condition] of Object.entries(query.filter)) {
+    for (const [operator, value] of Object.entries(condition)) {
+      if (value) params.set(`filter[${field}][${operator}]`, value);
+    }
+  }
+  return params;
+}
+
+// ==================== Hook ====================
+
+export function useListQueryState(options: ListQueryOptions = {}): ListQueryState {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const query = parseListQuery(searchParams, options);
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  const [searchInput, setSearchInput] = useState(query.search);
+  // The search this hook last wrote, to tell our own URL changes from Back/Forward
+  const written = useRef(query.search);
+
+  const navigate = (next: Partial<ListQuery>, mode: 'push' | 'replace') => {
+    const params = listQuerySearchParams({ ...query, ...next }, options, searchParams);
+    const search = params.toString();
+    router[mode](search ? `${pathname}?${search}` : pathname, { scroll: false });
+  };
+
+  // ==================== Debounced Search -> URL ====================
+  useEffect(() => {
+    if (searchInput.trim() === query.search.trim()) return;
+
+    const timeoutId = setTimeout(() => {
+      written.current = searchInput;
+      navigate({ search: searchInput, page: 1 }, 'replace'); // New search starts at page 1
+    }, debounceMs);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchInput]);
+
+  // ==================== URL -> Search Box ====================
+  // Back/Forward or a link changed the search; don't clobber what's being typed
+  useEffect(() => {
+    if (query.search !== written.current) {
+      written.current = query.search;
+      setSearchInput(query.search);
+    }
+  }, [query.search]);
+
+  return {
+    ...query,
+    searchInput,
+    setSearchInput,
+    setPage: (page) => navigate({ page }, 'push'),
+    setLimit: (limit) => navigate({ limit, page: 1 }, 'push'),
+    setSort: (sort) => navigate({ sort, page: 1 }, 'push'),
+    setFilter: (filter) => navigate({ filter, page: 1 }, 'push'),
+    setColumns: (columns) => navigate({ columns }, 'push'),
+    setQuery: (next) => navigate({ page: 1, ...next }, 'push'),
+  };
+}
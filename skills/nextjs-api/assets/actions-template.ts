@@ -0,0 +1,296 @@
+/**
+ * Server Actions Template
+ *
+ * Copy this file next to the page that uses it, e.g. src/app/entities/actions.ts.
+ * Replace 'entity' with your resource name (users, organisations, etc.)
+ *
+ * Server Actions flavour of route-template.ts for forms in your own app. It
+ * keeps the route conventions: the same Zod schemas, duplicates and missing
+ * references translated by SQLSTATE (translateDbError), the result envelope
+ * (server-actions.ts), permissions, tenant scoping (tenancy.ts), If-Match style
+ * conflict checks and the audit trail. Every write calls revalidatePath() so server-rendered pages
+ * show the change.
+ *
+ * USAGE (see mui-components/assets/action-dialog-template.tsx):
+ *
+ *   const [state, formAction, pending] = useActionState(createEntity, null);
+ *   <form action={formAction}>...</form>
+ *
+ *   // Item actions take the id first; bind it for useActionState
+ *   useActionState(updateEntity.bind(null, entity.id), null);
+ *
+ *   // Or call directly, e.g. from a delete button
+ *   const result = await deleteEntity(entity.id, { ifMatch: etagFor(entity.updatedAt) });
+ *
+ * Actions are only for your own components. Anything called from outside
+ * (mobile apps, integrations) should use the routes, which are documented in
+ * openapi.json and protected by idempotency keys.
+ */
+
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import type { z } from 'zod';
+import { db } from '@/db';
+import { entities } from '@/db/schema'; // Replace with your table
+import { createEntitySchema, updateEntitySchema } from '@/lib/validations/entity'; // Replace
+import { translateDbError } from '@/lib/server/api-errors';
+import { authorize } from '@/lib/server/auth';
+import { recordAudit } from '@/lib/server/audit';
+import { versionMatches } from '@/lib/server/concurrency';
+import { etagFor, ifMatchSatisfied } from '@/lib/etag';
+import { logRequestError } from '@/lib/server/logger';
+import { requireTenant } from '@/lib/server/tenancy';
+import { actionError, actionRequest, parseFormData } from '@/lib/server/actions';
+import type { ActionFailure, ActionResult } from '@/lib/server/actions';
+
+type Entity = typeof entities.$inferSelect;
+
+// TODO: Update to the page(s) that list entities
+const ENTITIES_PATH = '/entities';
+
+/** Hidden form field holding the ETag the form was loaded from */
+const IF_MATCH_FIELD = 'ifMatch';
+
+// TODO: false for tables without a deletedAt column (and drop its uses below)
+/** Delete moves rows to the trash, like createCrudHandlers({ softDelete: true }) */
+const SOFT_DELETE = true;
+
+/** One entity, only when it belongs to the tenant; any other tenant's id is not found */
+const entityInTenant = (id: string, tenantId: string) =>
+  and(eq(entities.id, id), eq(entities.organisationId, tenantId));
+
+/** Same, but not in the trash: what update and a soft delete may touch */
+const liveEntityInTenant = (id: string, tenantId: string) =>
+  and(entityInTenant(id, tenantId), SOFT_DELETE ? isNull(entities.deletedAt) : undefined);
+
+// ========== HELPERS ==========
+
+function validationFailed(request: NextRequest, error: z.ZodError): ActionFailure {
+  return actionError(request, {
+    code: 'VALIDATION_FAILED',
+    message: 'Validation failed',
+    details: error.format(),
+  });
+}
+
+function notFound(request: NextRequest): ActionFailure {
+  return actionError(request, { code: 'NOT_FOUND', message: 'Entity not found' });
+}
+
+/** Same as a 412 from PATCH: the current record comes back in `data` */
+function changedByOthers(request: NextRequest, current: Entity): ActionFailure {
+  return actionError(request, {
+    code: 'PRECONDITION_FAILED',
+    message: 'Entity has been changed by someone else',
+    data: current,
+  });
+}
+
+/** Constraint errors become results; anything else is logged */
+function failure(request: NextRequest, error: unknown, message: string): ActionFailure {
+  const dbError = translateDbError(error, { resourceName: 'Entity', table: entities });
+  if (dbError) return actionError(request, dbError);
+
+  logRequestError(request, message, error);
+  return actionError(request, { code: 'INTERNAL_ERROR', message });
+}
+
+// ========== ACTIONS ==========
+
+/**
+ * Create an entity from a form.
+ * The first argument is the previous state from useActionState (unused).
+ */
+export async function createEntity(
+  _previous: ActionResult<Entity> | null,
+  formData: FormData
+): Promise<ActionResult<Entity>> {
+  const request = await actionRequest();
+  const { error } = await authorize(request, { permission: 'entities:create' });
+  if (error) return actionError(request, error);
+
+  const { tenantId, error: tenantError } = await requireTenant(request);
+  if (tenantError) return actionError(request, tenantError);
+
+  const parsed = parseFormData(formData, createEntitySchema);
+  if (!parsed.success) return validationFailed(request, parsed.error);
+
+  try {
+    const created = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(entities)
+        .values({ ...parsed.data, organisationId: tenantId })
+        .returning();
+      await recordAudit(tx, request, {
+        action: 'create',
+        entityType: 'entity',
+        entityId: row.id,
+        before: null,
+        after: row,
+      });
+      return row;
+    });
+
+    revalidatePath(ENTITIES_PATH);
+    return { success: true, data: created };
+  } catch (error) {
+    return failure(request, error, 'Failed to create entity');
+  }
+}
+
+/**
+ * Update an entity from a form. Send the ETag the form was loaded from in a
+ * hidden `ifMatch` field to reject stale saves; without it the last save wins.
+ */
+export async function updateEntity(
+  id: string,
+  _previous: ActionResult<Entity> | null,
+  formData: FormData
+): Promise<ActionResult<Entity>> {
+  const request = await actionRequest();
+  const { error } = await authorize(request, { permission: 'entities:update' });
+  if (error) return actionError(request, error);
+
+  const { tenantId, error: tenantError } = await requireTenant(request);
+  if (tenantError) return actionError(request, tenantError);
+
+  const parsed = parseFormData(formData, updateEntitySchema, { omit: [IF_MATCH_FIELD] });
+  if (!parsed.success) return validationFailed(request, parsed.error);
+
+  const ifMatch = formData.get(IF_MATCH_FIELD);
+  const sentETag = typeof ifMatch === 'string' ? ifMatch : null;
+
+  try {
+    const [existing] = await db
+      .select()
+      .from(entities)
+      .where(liveEntityInTenant(id, tenantId))
+      .limit(1);
+    if (!existing) return notFound(request);
+
+    // Same check as If-Match on PATCH
+    if (!ifMatchSatisfied(sentETag, etagFor(existing.updatedAt))) {
+      return changedByOthers(request, existing);
+    }
+
+    // Only update if the row hasn't changed since the check above
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(entities)
+        .set({ ...parsed.data, updatedAt: new Date() })
+        .where(
+          and(
+            liveEntityInTenant(id, tenantId),
+            versionMatches(entities.updatedAt, existing.updatedAt)
+          )
+        )
+        .returning();
+
+      if (row) {
+        await recordAudit(tx, request, {
+          action: 'update',
+          entityType: 'entity',
+          entityId: id,
+          before: existing,
+          after: row,
+        });
+      }
+      return row;
+    });
+
+    if (!updated) {
+      const [current] = await db
+        .select()
+        .from(entities)
+        .where(liveEntityInTenant(id, tenantId))
+        .limit(1);
+      return current ? changedByOthers(request, current) : notFound(request);
+    }
+
+    revalidatePath(ENTITIES_PATH);
+    return { success: true, data: updated };
+  } catch (error) {
+    return failure(request, error, 'Failed to update entity');
+  }
+}
+
+/**
+ * Delete an entity. Not a form action: call it with the id. Like DELETE, it
+ * moves the entity to the trash unless `permanent`, and `ifMatch` (the ETag
+ * it was shown with) rejects the delete if someone changed it since.
+ */
+export async function deleteEntity(
+  id: string,
+  { permanent = false, ifMatch = null }: { permanent?: boolean; ifMatch?: string | null } = {}
+): Promise<ActionResult<{ id: string }>> {
+  const request = await actionRequest();
+  const { error } = await authorize(request, { permission: 'entities:delete' });
+  if (error) return actionError(request, error);
+
+  const { tenantId, error: tenantError } = await requireTenant(request);
+  if (tenantError) return actionError(request, tenantError);
+
+  // Trashed entities can only be deleted permanently
+  const hardDelete = !SOFT_DELETE || permanent;
+  const target = hardDelete ? entityInTenant(id, tenantId) : liveEntityInTenant(id, tenantId);
+
+  try {
+    const [existing] = await db.select().from(entities).where(target).limit(1);
+    if (!existing) return notFound(request);
+
+    // Same check as If-Match on DELETE
+    if (!ifMatchSatisfied(ifMatch, etagFor(existing.updatedAt))) {
+      return changedByOthers(request, existing);
+    }
+
+    // Only delete if the row hasn't changed (or gone) since the check above
+    const deleted = await db.transaction(async (tx) => {
+      const unchanged = and(target, versionMatches(entities.updatedAt, existing.updatedAt));
+      const [row] = hardDelete
+        ? await tx.delete(entities).where(unchanged).returning()
+        : await tx
+            .update(entities)
+            .set({ deletedAt: new Date(), updatedAt: new Date() })
+            .where(unchanged)
+            .returning();
+
+      if (row) {
+        await recordAudit(tx, request, {
+          action: 'delete',
+          entityType: 'entity',
+          entityId: id,
+          before: existing,
+          after: hardDelete ? null : row,
+        });
+      }
+      return row;
+    });
+
+    if (!deleted) {
+      const [current] = await db.select().from(entities).where(target).limit(1);
+      return current ? changedByOthers(request, current) : notFound(request);
+    }
+
+    revalidatePath(ENTITIES_PATH);
+    return { success: true, data: { id } };
+  } catch (error) {
+    // Still referenced by other records -> STILL_REFERENCED
+    return failure(request, error, 'Failed to delete entity');
+  }
+}
+
+// ========== CHECKLIST ==========
+/*
+1. Replace 'entity'/'Entity' and the table, schemas and ENTITIES_PATH
+2. Copy server-actions.ts to src/lib/server/actions.ts
+3. Permissions: same names as the routes ('entities:create', ...) in ROLE_PERMISSIONS
+   Multi-tenant: requireTenant() after authorize(); single-tenant apps drop it and entityInTenant
+4. FormData values are strings: use z.coerce in the schema for numbers, booleans, dates
+5. Give every form input a `name` matching the schema field
+6. Edit forms send the ETag they were loaded from as a hidden `ifMatch` field; deletes pass it as `ifMatch`
+7. Revalidate every path that shows the data (list, detail, dashboard counts)
+8. Remove TODO comments
+*/
@@ -0,0 +1,349 @@
+/**
+ * Typed API Client
+ *
+ * Copy this file to src/lib/api/client.ts.
+ *
+ * Builds the client for a resource served by createCrudHandlers (or routes
+ * written from route-template.ts). It is typed from the same Drizzle table and
+ * Zod schemas the routes use, so a column or schema change shows up as a type
+ * error in the components instead of drifting from a hand-written client:
+ *
+ *   // src/lib/api/entities.ts
+ *   import type { entities } from '@/db/schema';
+ *   import type { createEntitySchema, updateEntitySchema } from '@/lib/validations/entity';
+ *   import { createResourceClient } from '@/lib/api/client';
+ *   import type { ResourceRecord } from '@/lib/api/client';
+ *
+ *   export const entitiesApi = createResourceClient<
+ *     typeof entities,
+ *     typeof createEntitySchema,
+ *     typeof updateEntitySchema
+ *   >('/api/entities');
+ *
+ *   export type EntityRecord = ResourceRecord<typeof entities>;
+ *
+ *   const { data, pagination } = await entitiesApi.list({ page: 1, limit: 50, search: 'acme' });
+ *   await entitiesApi.update(id, { name: 'Acme Ltd' }, { ifMatch: etagFor(entity.updatedAt) });
+ *
+ * Type-only imports keep the table out of the client bundle. Records are typed
+ * as they arrive over JSON, so Date columns are ISO strings. Failed requests
+ * throw ApiError with the error envelope's fields (status, error, code,
+ * details, requestId).
+ */
+
+import type { InferSelectModel, Table } from 'drizzle-orm';
+import type { z } from 'zod';
+import type { BulkMode, BulkResponseData } from '@/lib/bulk';
+import type { ApiErrorCode } from '@/lib/server/api-errors';
+import type { AuditEntry } from '@/lib/server/audit';
+import type { PaginationMetadata } from '@/lib/server/crud-handlers';
+import type { CursorPaginationMetadata } from '@/lib/server/cursor-pagination';
+import type { FilterOperator } from '@/lib/server/list-query';
+
+// ========== TYPES ==========
+
+/** A value as it arrives from JSON: Dates become ISO strings */
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer TItem)[]
+    ? Serialized<TItem>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+/** A row of the table as the API returns it */
+export type ResourceRecord<TTable extends Table> = Serialized<InferSelectModel<TTable>>;
+
+/** One change from GET /api/{resources}/[id]/history */
+export type HistoryEntry = Serialized<AuditEntry>;
+
+type FilterValue = string | number | boolean | (string | number)[];
+
+/** A value for `eq`, or values per operator */
+type FilterCondition = FilterValue | Partial<Record<FilterOperator, FilterValue>>;
+
+export interface ListParams<TRecord> {
+  page?: number;
+  limit?: number;
+  search?: string;
+  /** Sortable fields, `-` for descending: ['-createdAt', 'name'] */
+  sort?: `${'' | '-'}${keyof TRecord & string}`[];
+  /** { status: 'active' } or { status: { in: ['active', 'pending'] }, deletedAt: { isNull: false } } */
+  filter?: Partial<Record<keyof TRecord & string, FilterCondition>>;
+  /** Sparse fieldset; narrow the result type with Fieldset<> */
+  fields?: (keyof TRecord & string)[];
+  include?: string[];
+  includeDeleted?: boolean;
+  /** Keyset pagination: '' for the first page, then nextCursor / prevCursor */
+  cursor?: string;
+  /** Ask for `total` with cursor pagination */
+  count?: boolean;
+}
+
+export interface ListResult<TRecord, TPagination> {
+  data: TRecord[];
+  pagination: TPagination;
+}
+
+/** One operation of a bulk request, typed with the resource's create/update input */
+export type BulkOperationInput<TCreate, TUpdate> =
+  | { op: 'create'; data: TCreate }
+  | { op: 'update'; id: string; data: TUpdate; ifMatch?: string }
+  | { op: 'delete'; id: string; permanent?: boolean; ifMatch?: string };
+
+export interface ResourceClient<TRecord, TCreate, TUpdate> {
+  /** The collection route, e.g. '/api/entities' */
+  readonly basePath: string;
+  /** GET /api/{resources}: one page of records */
+  list(
+    params?: ListParams<TRecord> & { cursor?: undefined }
+  ): Promise<ListResult<TRecord, PaginationMetadata>>;
+  list(
+    params: ListParams<TRecord> & { cursor: string }
+  ): Promise<ListResult<TRecord, CursorPaginationMetadata>>;
+  /** GET /api/{resources}/[id] */
+  get(id: string, params?: Pick<ListParams<TRecord>, 'fields' | 'include'>): Promise<TRecord>;
+  /** POST /api/{resources}. Send the same idempotencyKey when retrying */
+  create(data: TCreate, options?: { idempotencyKey?: string }): Promise<TRecord>;
+  /** PATCH /api/{resources}/[id]. ifMatch turns a concurrent change into a 412 */
+  update(id: string, data: TUpdate, options?: { ifMatch?: string }): Promise<TRecord>;
+  /**
+   * DELETE /api/{resources}/[id]. Soft-delete resources move it to the trash unless permanent.
+   * keepalive lets the request finish after the page is closed or reloaded
+   */
+  remove(
+    id: string,
+    options?: { permanent?: boolean; ifMatch?: string; keepalive?: boolean }
+  ): Promise<void>;
+  /** POST /api/{resources}/[id]/restore (softDelete only) */
+  restore(id: string): Promise<TRecord>;
+  /** GET /api/{resources}/[id]/history (audit only), newest first */
+  history(
+    id: string,
+    params?: { page?: number; limit?: number }
+  ): Promise<ListResult<HistoryEntry, PaginationMetadata>>;
+  /**
+   * POST /api/{resources}/bulk, at most 100 operations. In partial mode failed
+   * items come back in `results` (207) instead of throwing; an atomic batch
+   * that fails throws ApiError with the results in `details`.
+   */
+  bulk(
+    operations: BulkOperationInput<TCreate, TUpdate>[],
+    options?: { mode?: BulkMode }
+  ): Promise<BulkResponseData<TRecord>>;
+}
+
+export interface ResourceClientOptions {
+  /** Replaces the global fetch, e.g. in unit tests */
+  fetch?: typeof fetch;
+}
+
+// ========== ERRORS ==========
+
+/**
+ * A failed request, with the fields of the error envelope (api-errors.ts).
+ *
+ * @example
+ * try {
+ *   await entitiesApi.create({ name });
+ * } catch (err) {
+ *   if (err instanceof ApiError && err.code === 'DUPLICATE') setNameError(err.error);
+ *   else throw err;
+ * }
+ */
+export class ApiError extends Error {
+  /** HTTP status; 0 when the request never reached the server */
+  readonly status: number;
+  /** Human-readable message (same as `message`) */
+  readonly error: string;
+  /** Stable error code; undefined when the response wasn't an error envelope */
+  readonly code: ApiErrorCode | undefined;
+  /** Field a DUPLICATE or REFERENCE_NOT_FOUND error is about */
+  readonly field: string | undefined;
+  /** Zod `error.format()` output for VALIDATION_FAILED, per-item results for bulk */
+  readonly details: unknown;
+  /** Current record for PRECONDITION_FAILED */
+  readonly data: unknown;
+  /** Quote this when reporting the failure; it finds the server's log lines */
+  readonly requestId: string | null;
+
+  constructor(
+    status: number,
+    body: {
+      error: string;
+      code?: ApiErrorCode;
+      field?: string;
+      details?: unknown;
+      data?: unknown;
+      requestId?: string | null;
+    }
+  ) {
+    super(body.error);
+    this.name = 'ApiError';
+    this.status = status;
+    this.error = body.error;
+    this.code = body.code;
+    this.field = body.field;
+    this.details = body.details;
+    this.data = body.data;
+    this.requestId = body.requestId ?? null;
+  }
+}
+
+// ========== QUERY STRING ==========
+
+/**
+ * The list query string, e.g. for the export route or a shareable URL.
+ *
+ * @example
+ * listSearchParams({ search: 'acme', filter: { status: { in: ['active', 'pending'] } } }).toString();
+ * // 'search=acme&filter%5Bstatus%5D%5Bin%5D=active%2Cpending'
+ */
+export function listSearchParams<TRecord>(params: ListParams<TRecord> = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  const set = (key: string, value: string | number | boolean | undefined) => {
+    if (value !== undefined && value !== '') searchParams.set(key, String(value));
+  };
+  const join = (value: FilterValue) => (Array.isArray(value) ? value.join(',') : String(value));
+
+  set('page', params.page);
+  set('limit', params.limit);
+  set('search', params.search?.trim());
+  set('sort', params.sort?.join(','));
+  set('fields', params.fields?.join(','));
+  set('include', params.include?.join(','));
+  if (params.includeDeleted) set('includeDeleted', true);
+  if (params.count) set('count', true);
+  // An empty cursor asks for the first page, so it is sent as-is
+  if (params.cursor !== undefined) searchParams.set('cursor', params.cursor);
+
+  const filters = Object.entries(params.filter ?? {}) as [string, FilterCondition | undefined][];
+  for (const [field, condition] of filters) {
+    if (condition === undefined) continue;
+    if (typeof condition === 'object' && !Array.isArray(condition)) {
+      for (const [operator, value] of Object.entries(condition)) {
+        if (value !== undefined) searchParams.set(`filter[${field}][${operator}]`, join(value));
+      }
+    } else {
+      searchParams.set(`filter[${field}]`, join(condition));
+    }
+  }
+
+  return searchParams;
+}
+
+// ========== CLIENT ==========
+
+/** Success envelope: { success: true, data, pagination? } */
+interface SuccessBody<T> {
+  success: true;
+  data: T;
+  pagination?: unknown;
+}
+
+/**
+ * Client for the routes under `basePath`, typed from the resource's table and
+ * create/update schemas (see the file header).
+ */
+export function createResourceClient<
+  TTable extends Table,
+  TCreateSchema extends z.ZodTypeAny,
+  TUpdateSchema extends z.ZodTypeAny,
+>(
+  basePath: string,
+  options: ResourceClientOptions = {}
+): ResourceClient<ResourceRecord<TTable>, z.input<TCreateSchema>, z.input<TUpdateSchema>> {
+  type TRecord = ResourceRecord<TTable>;
+
+  async function send<T>(
+    method: string,
+    path: string,
+    init: { body?: unknown; headers?: Record<string, string>; keepalive?: boolean } = {}
+  ): Promise<SuccessBody<T>> {
+    const doFetch = options.fetch ?? fetch;
+
+    let response: Response;
+    try {
+      response = await doFetch(`${basePath}${path}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+          ...init.headers,
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        keepalive: init.keepalive,
+      });
+    } catch {
+      throw new ApiError(0, { error: 'Network error: the server could not be reached' });
+    }
+
+    // Proxies and crashes can answer with HTML; only trust a JSON envelope
+    const body = await response.json().catch(() => null);
+    // 207 Multi-Status (partial bulk) has `success: false` but per-item results in `data`
+    const multiStatus = response.status === 207 && body?.data !== undefined;
+    if (!multiStatus && (!response.ok || !body?.success)) {
+      const requestId = body?.requestId ?? response.headers.get('x-request-id');
+      throw new ApiError(
+        response.status,
+        typeof body?.error === 'string'
+          ? { ...body, requestId }
+          : { error: `Request failed with status ${response.status}`, requestId }
+      );
+    }
+    return body as SuccessBody<T>;
+  }
+
+  const query = (searchParams: URLSearchParams) => {
+    const value = searchParams.toString();
+    return value ? `?${value}` : '';
+  };
+  const item = (id: string) => `/${encodeURIComponent(id)}`;
+
+  async function list(params: ListParams<TRecord> = {}) {
+    const body = await send<TRecord[]>('GET', query(listSearchParams(params)));
+    return { data: body.data, pagination: body.pagination };
+  }
+
+  return {
+    basePath,
+
+    list: list as ResourceClient<TRecord, unknown, unknown>['list'],
+
+    async get(id, params = {}) {
+      return (await send<TRecord>('GET', `${item(id)}${query(listSearchParams(params))}`)).data;
+    },
+
+    async create(data, { idempotencyKey } = {}) {
+      const headers = idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined;
+      return (await send<TRecord>('POST', '', { body: data, headers })).data;
+    },
+
+    async update(id, data, { ifMatch } = {}) {
+      const headers = ifMatch ? { 'If-Match': ifMatch } : undefined;
+      return (await send<TRecord>('PATCH', item(id), { body: data, headers })).data;
+    },
+
+    async remove(id, { permanent, ifMatch, keepalive } = {}) {
+      const headers = ifMatch ? { 'If-Match': ifMatch } : undefined;
+      const path = `${item(id)}${permanent ? '?permanent=true' : ''}`;
+      await send('DELETE', path, { headers, keepalive });
+    },
+
+    async restore(id) {
+      return (await send<TRecord>('POST', `${item(id)}/restore`)).data;
+    },
+
+    async history(id, params = {}) {
+      const searchParams = listSearchParams({ page: params.page, limit: params.limit });
+      const body = await send<HistoryEntry[]>('GET', `${item(id)}/history${query(searchParams)}`);
+      return { data: body.data, pagination: body.pagination as PaginationMetadata };
+    },
+
+    async bulk(operations, { mode } = {}) {
+      return (
+        await send<BulkResponseData<TRecord>>('POST', '/bulk', { body: { mode, operations } })
+      ).data;
+    },
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * API Error Catalogue & Database Error Translator
+ *
+ * Copy this file to src/lib/server/api-errors.ts.
+ *
+ * Every error response carries a stable `code` from API_ERRORS so clients can
+ * branch on it instead of parsing messages. Postgres errors are translated by
+ * SQLSTATE code (not message text), which also works when Drizzle wraps the
+ * driver error in `cause`.
+ *
+ * Two response formats:
+ * - Default envelope:  { success: false, error, code, details?, requestId }
+ * - RFC 7807:          application/problem+json, when the request sends
+ *                      `Accept: application/problem+json`
+ *
+ * Both carry the request id (logger.ts), also sent as the x-request-id header,
+ * so a reported error can be found in the logs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTableColumns } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { getRequestId, REQUEST_ID_HEADER } from '@/lib/server/logger';
+
+// ========== CATALOGUE ==========
+
+export const API_ERRORS = {
+  INVALID_JSON: { status: 400, title: 'Invalid JSON' },
+  VALIDATION_FAILED: { status: 400, title: 'Validation failed' },
+  INVALID_QUERY: { status: 400, title: 'Invalid query parameters' },
+  INVALID_FILE: { status: 400, title: 'Invalid file' },
+  REFERENCE_NOT_FOUND: { status: 400, title: 'Referenced record not found' },
+  REQUIRED_VALUE_MISSING: { status: 400, title: 'Required value missing' },
+  CONSTRAINT_VIOLATION: { status: 400, title: 'Constraint violation' },
+  UNAUTHORIZED: { status: 401, title: 'Authentication required' },
+  FORBIDDEN: { status: 403, title: 'Permission denied' },
+  NOT_FOUND: { status: 404, title: 'Not found' },
+  DUPLICATE: { status: 409, title: 'Duplicate entry' },
+  STILL_REFERENCED: { status: 409, title: 'Record is still referenced' },
+  SERIALIZATION_FAILURE: { status: 409, title: 'Concurrent update conflict' },
+  IDEMPOTENCY_IN_PROGRESS: { status: 409, title: 'Request already in progress' },
+  PRECONDITION_FAILED: { status: 412, title: 'Record has changed' },
+  PAYLOAD_TOO_LARGE: { status: 413, title: 'Payload too large' },
+  IDEMPOTENCY_KEY_REUSED: { status: 422, title: 'Idempotency key reused' },
+  NOT_APPLIED: { status: 424, title: 'Not applied' }, // Bulk item rolled back or skipped
+  RATE_LIMITED: { status: 429, title: 'Too many requests' },
+  INTERNAL_ERROR: { status: 500, title: 'Internal server error' },
+} as const satisfies Record<string, { status: number; title: string }>;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+export interface ApiError {
+  code: ApiErrorCode;
+  /** Human-readable message, returned as `error` (envelope) or `detail` (problem) */
+  message: string;
+  /** API field name the error relates to, when known */
+  field?: string;
+  /** Structured details, e.g. Zod `error.format()` output */
+  details?: unknown;
+  /** Current state of the record, e.g. for 412 conflicts */
+  data?: unknown;
+}
+
+/** Base for RFC 7807 `type` URIs. Point this at your error documentation. */
+export const PROBLEM_TYPE_BASE = '/problems/';
+
+// ========== RESPONSES ==========
+
+function wantsProblemJson(request: NextRequest) {
+  return request.headers.get('accept')?.includes('application/problem+json') ?? false;
+}
+
+/**
+ * Build an error response in the format the client asked for.
+ *
+ * @example
+ * return apiError(request, { code: 'NOT_FOUND', message: 'User not found' });
+ */
+export function apiError(
+  request: NextRequest,
+  error: ApiError,
+  init: { headers?: Record<string, string> } = {}
+): NextResponse {
+  const { status, title } = API_ERRORS[error.code];
+  const requestId = getRequestId(request);
+  const headers = { ...init.headers, [REQUEST_ID_HEADER]: requestId };
+
+  if (wantsProblemJson(request)) {
+    return NextResponse.json(
+      {
+        type: `${PROBLEM_TYPE_BASE}${error.code.toLowerCase().replace(/_/g, '-')}`,
+        title,
+        status,
+        detail: error.message,
+        instance: request.nextUrl.pathname,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details !== undefined && { errors: error.details }),
+        ...(error.data !== undefined && { data: error.data }),
+        requestId,
+      },
+      { status, headers: { ...headers, 'Content-Type': 'application/problem+json' } }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.field && { field: error.field }),
+      ...(error.details !== undefined && { details: error.details }),
+      ...(error.data !== undefined && { data: error.data }),
+      requestId,
+    },
+    { status, headers }
+  );
+}
+
+// ========== DATABASE ERRORS ==========
+
+/** SQLSTATE codes we translate. Anything else stays a 500. */
+const SQLSTATE_CODES: Record<string, ApiErrorCode> = {
+  '23505': 'DUPLICATE', // unique_violation
+  '23503': 'REFERENCE_NOT_FOUND', // foreign_key_violation (see STILL_REFERENCED below)
+  '23502': 'REQUIRED_VALUE_MISSING', // not_null_violation
+  '23514': 'CONSTRAINT_VIOLATION', // check_violation
+  '40001': 'SERIALIZATION_FAILURE', // serialization_failure
+};
+
+/** Fields common to postgres-js (snake_case) and node-postgres (camelCase) errors */
+interface PostgresError {
+  code: string;
+  detail?: string;
+  column?: string;
+  column_name?: string;
+  constraint?: string;
+  constraint_name?: string;
+}
+
+/** Find the driver error, following Drizzle's `cause` wrapping */
+function findPostgresError(error: unknown, depth = 0): PostgresError | null {
+  if (!error || typeof error !== 'object' || depth > 5) return null;
+
+  const candidate = error as { code?: unknown; cause?: unknown };
+  if (typeof candidate.code === 'string' && candidate.code in SQLSTATE_CODES) {
+    return candidate as PostgresError;
+  }
+  return findPostgresError(candidate.cause, depth + 1);
+}
+
+/** "Key (email)=(a@b.com) already exists." -> ['email'] */
+function columnsFromDetail(detail: string | undefined) {
+  const match = detail?.match(/Key \(([^)]+)\)=/);
+  return match ? match[1].split(',').map((column) => column.trim()) : [];
+}
+
+export interface TranslateDbErrorOptions {
+  /** Singular display name, e.g. 'User' -> 'User with this email already exists' */
+  resourceName?: string;
+  /** Maps database column names (organisation_id) back to API fields (organisationId) */
+  table?: PgTable;
+}
+
+/**
+ * Translate a Postgres constraint error into an ApiError.
+ * Returns null for errors that aren't recognised, which callers treat as a 500.
+ *
+ * @example
+ * } catch (error) {
+ *   const dbError = translateDbError(error, { resourceName: 'User', table: users });
+ *   if (dbError) return apiError(request, dbError);
+ *
+ *   logRequestError(request, 'Failed to create user', error);
+ *   return apiError(request, { code: 'INTERNAL_ERROR', message: 'Failed to create user' });
+ * }
+ */
+export function translateDbError(
+  error: unknown,
+  options: TranslateDbErrorOptions = {}
+): ApiError | null {
+  const pgError = findPostgresError(error);
+  if (!pgError) return null;
+
+  const resourceName = options.resourceName ?? 'Record';
+  const columnToField = new Map(
+    options.table
+      ? Object.entries(getTableColumns(options.table)).map(([key, column]) => [column.name, key])
+      : []
+  );
+
+  const columns = pgError.column_name ?? pgError.column;
+  const dbColumns = columns ? [columns] : columnsFromDetail(pgError.detail);
+  const field = dbColumns.length
+    ? dbColumns.map((column) => columnToField.get(column) ?? column).join(', ')
+    : undefined;
+
+  const constraint = pgError.constraint_name ?? pgError.constraint;
+
+  switch (SQLSTATE_CODES[pgError.code]) {
+    case 'DUPLICATE':
+      return {
+        code: 'DUPLICATE',
+        message: `${resourceName} with this ${field ?? 'identifier'} already exists`,
+        field,
+      };
+
+    case 'REFERENCE_NOT_FOUND':
+      // The same SQLSTATE covers deleting a row that others still point at
+      if (pgError.detail?.includes('is still referenced')) {
+        return {
+          code: 'STILL_REFERENCED',
+          message: `${resourceName} is still referenced by other records`,
+        };
+      }
+      return {
+        code: 'REFERENCE_NOT_FOUND',
+        message: `Referenced ${field ?? 'record'} does not exist`,
+        field,
+      };
+
+    case 'REQUIRED_VALUE_MISSING':
+      return {
+        code: 'REQUIRED_VALUE_MISSING',
+        message: `${field ?? 'A required value'} is required`,
+        field,
+      };
+
+    case 'CONSTRAINT_VIOLATION':
+      return {
+        code: 'CONSTRAINT_VIOLATION',
+        message: constraint ? `Value violates constraint "${constraint}"` : 'Value is not allowed',
+        field,
+      };
+
+    case 'SERIALIZATION_FAILURE':
+      return {
+        code: 'SERIALIZATION_FAILURE',
+        message: 'The record was changed by another request, please retry',
+      };
+
+    default:
+      return null;
+  }
+}
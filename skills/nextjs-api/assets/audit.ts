@@ -0,0 +1,179 @@
+/**
+ * Audit Trail
+ *
+ * Copy this file to src/lib/server/audit.ts and add the auditLog table below
+ * to src/db/schema.ts.
+ *
+ * Records who changed what: one row per create, update, delete or restore,
+ * holding only the fields that changed:
+ *
+ *   { "name": { "from": "Acme", "to": "Acme Ltd" } }
+ *
+ * Write the entry with the same executor as the change (a transaction), so a
+ * change never commits without its audit row. createCrudHandlers does this
+ * when `audit: true`, and serves GET /api/{resources}/[id]/history.
+ *
+ * Schema (src/db/schema.ts):
+ *
+ *   export const auditLog = pgTable(
+ *     'audit_log',
+ *     {
+ *       id: uuid('id').primaryKey().defaultRandom(),
+ *       actorId: varchar('actor_id', { length: 255 }), // null for system changes
+ *       actorEmail: varchar('actor_email', { length: 255 }),
+ *       action: varchar('action', { length: 20 }).notNull(),
+ *       entityType: varchar('entity_type', { length: 100 }).notNull(),
+ *       entityId: varchar('entity_id', { length: 255 }).notNull(),
+ *       changes: jsonb('changes').notNull(),
+ *       requestId: varchar('request_id', { length: 255 }),
+ *       createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+ *     },
+ *     (table) => [index('audit_log_entity_idx').on(table.entityType, table.entityId, table.createdAt)]
+ *   );
+ *
+ * Audit rows are append-only: never update or delete them from application code.
+ */
+
+import type { NextRequest } from 'next/server';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { auditLog } from '@/db/schema';
+import { getAuthUser } from '@/lib/server/auth';
+import { getRequestId } from '@/lib/server/logger';
+
+// ========== TYPES ==========
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+/** Field -> old and new value. Values are JSON-serialised (dates become ISO strings) */
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  changes: AuditChanges;
+  requestId: string | null;
+  createdAt: Date;
+}
+
+export interface AuditInput {
+  action: AuditAction;
+  /** e.g. 'entity', 'organisation' */
+  entityType: string;
+  entityId: string;
+  /** Record before the change; null for create */
+  before: object | null;
+  /** Record after the change; null for a permanent delete */
+  after: object | null;
+  /** Fields left out of the diff, besides updatedAt and version */
+  ignoreFields?: string[];
+}
+
+/** `db` or a transaction */
+export type AuditExecutor = Pick<typeof db, 'insert'>;
+
+/** Bookkeeping columns that change on every write and would only add noise */
+const DEFAULT_IGNORED_FIELDS = ['updatedAt', 'version'];
+
+// ========== DIFF ==========
+
+const toJson = (value: unknown): unknown =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+/**
+ * Fields whose values differ between two versions of a record.
+ *
+ * @example
+ * diffRecords({ name: 'Acme', size: 5 }, { name: 'Acme Ltd', size: 5 });
+ * // { name: { from: 'Acme', to: 'Acme Ltd' } }
+ */
+export function diffRecords(
+  before: object | null,
+  after: object | null,
+  ignoreFields: string[] = []
+): AuditChanges {
+  const ignored = [...DEFAULT_IGNORED_FIELDS, ...ignoreFields];
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (ignored.includes(field)) continue;
+
+    const oldValue = toJson(from[field]);
+    const newValue = toJson(to[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { from: oldValue, to: newValue };
+    }
+  }
+  return changes;
+}
+
+// ========== WRITE ==========
+
+/**
+ * Record a change made by this request. Skips updates that changed nothing.
+ *
+ * @example
+ * const updated = await db.transaction(async (tx) => {
+ *   const [row] = await tx.update(users).set(data).where(eq(users.id, id)).returning();
+ *   await recordAudit(tx, request, {
+ *     action: 'update',
+ *     entityType: 'user',
+ *     entityId: id,
+ *     before: existing,
+ *     after: row,
+ *   });
+ *   return row;
+ * });
+ */
+export async function recordAudit(
+  executor: AuditExecutor,
+  request: NextRequest,
+  input: AuditInput
+): Promise<void> {
+  const changes = diffRecords(input.before, input.after, input.ignoreFields);
+  if (input.action === 'update' && Object.keys(changes).length === 0) return;
+
+  const user = getAuthUser(request);
+  await executor.insert(auditLog).values({
+    actorId: user?.id ?? null,
+    actorEmail: user?.email ?? null,
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    changes,
+    requestId: getRequestId(request), // Matches the request's log lines
+  });
+}
+
+// ========== READ ==========
+
+/** Entries for one record, newest first */
+export async function getAuditHistory(
+  entityType: string,
+  entityId: string,
+  { limit, offset }: { limit: number; offset: number }
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const where = and(eq(auditLog.entityType, entityType), eq(auditLog.entityId, entityId));
+
+  const [entries, countResult] = await Promise.all([
+    db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(auditLog)
+      .where(where),
+  ]);
+
+  return { entries: entries as AuditEntry[], total: Number(countResult[0].count) };
+}
@@ -0,0 +1,55 @@
+/**
+ * Stub Session Provider (development & E2E only)
+ *
+ * Copy this file to src/lib/server/auth-stub.ts.
+ *
+ * Lets Playwright (or a developer) act as any role without a real identity
+ * provider. Enabled only when AUTH_STUB=true and NODE_ENV is not production.
+ *
+ * The role comes from the `x-stub-role` header or the `stub-session` cookie:
+ *
+ *   curl -H 'x-stub-role: viewer' http://localhost:3000/api/entities
+ *   document.cookie = 'stub-session=editor'
+ *
+ * Multi-tenant apps (tenancy.ts) pick the user's organisation id with the
+ * `x-stub-organisation` header or `stub-organisation` cookie. The organisation
+ * must exist in the database:
+ *
+ *   curl -H 'x-stub-role: editor' -H 'x-stub-organisation: 00000000-...' ...
+ */
+
+import type { NextRequest } from 'next/server';
+import { isRole, permissionsForRole } from '@/lib/server/auth';
+import type { SessionResolver } from '@/lib/server/auth';
+
+export const STUB_ROLE_HEADER = 'x-stub-role';
+export const STUB_SESSION_COOKIE = 'stub-session';
+export const STUB_ORGANISATION_HEADER = 'x-stub-organisation';
+export const STUB_ORGANISATION_COOKIE = 'stub-organisation';
+
+/** Organisation ids are UUIDs; anything else would fail in the query as a 500 */
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function stubAuthEnabled(): boolean {
+  return process.env.AUTH_STUB === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+/** One fixed user per role, e.g. { id: 'stub-editor', email: 'editor@example.test' } */
+export const stubSessionResolver: SessionResolver = async (request: NextRequest) => {
+  const role =
+    request.headers.get(STUB_ROLE_HEADER) ?? request.cookies.get(STUB_SESSION_COOKIE)?.value;
+  if (!role || !isRole(role)) return null;
+
+  const organisationId =
+    request.headers.get(STUB_ORGANISATION_HEADER) ??
+    request.cookies.get(STUB_ORGANISATION_COOKIE)?.value;
+
+  return {
+    id: `stub-${role}`,
+    email: `${role}@example.test`,
+    name: `Stub ${role}`,
+    role,
+    permissions: permissionsForRole(role),
+    organisationId: organisationId && UUID.test(organisationId) ? organisationId : null,
+  };
+};
@@ -0,0 +1,212 @@
+/**
+ * Authentication & Permission Guard
+ *
+ * Copy this file to src/lib/server/auth.ts.
+ *
+ * Wrap route handlers with withAuth() instead of pasting session checks into
+ * each one. The wrapper resolves the session, checks permissions and passes
+ * the user to the handler:
+ *
+ *   export const PATCH = withAuth(
+ *     async (request, { params, user }) => { ... },
+ *     { permission: 'entities:update' }
+ *   );
+ *
+ * Responses use the standard envelope:
+ * - 401 UNAUTHORIZED when there is no session
+ * - 403 FORBIDDEN when the user lacks a permission
+ *
+ * The session resolver is the only provider-specific part. Replace
+ * appSessionResolver with your auth library; the stub provider (auth-stub.ts)
+ * takes over when AUTH_STUB=true so Playwright can log in as any role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/server/api-errors';
+import type { ApiError } from '@/lib/server/api-errors';
+import { logRequestError } from '@/lib/server/logger';
+import { stubAuthEnabled, stubSessionResolver } from '@/lib/server/auth-stub';
+import type { CrudHandlers } from '@/lib/server/crud-handlers';
+
+// ========== TYPES ==========
+
+/** `resource:action`, e.g. 'entities:update'. `*` and 'entities:*' are wildcards */
+export type Permission = `${string}:${string}` | '*';
+
+// TODO: Replace with your roles
+export const ROLE_PERMISSIONS = {
+  admin: ['*'],
+  editor: ['entities:read', 'entities:create', 'entities:update', 'entities:delete', 'views:*'],
+  viewer: ['entities:read', 'views:*'], // Saved views are per user (saved-views.ts)
+} as const satisfies Record<string, readonly Permission[]>;
+
+export type Role = keyof typeof ROLE_PERMISSIONS;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: Role;
+  permissions: readonly Permission[];
+  /** The user's tenant in multi-tenant apps (tenancy.ts) */
+  organisationId?: string | null;
+}
+
+/** Turns a request into a user, or null when there is no valid session */
+export type SessionResolver = (request: NextRequest) => Promise<AuthUser | null>;
+
+export interface WithAuthOptions {
+  /** Required permission(s). Omit to only require a signed-in user */
+  permission?: Permission | Permission[];
+}
+
+export type AuthorizeResult = { user: AuthUser; error?: never } | { user?: never; error: ApiError };
+
+/** Handler that receives the resolved user alongside the route context */
+export type AuthenticatedHandler<TContext> = (
+  request: NextRequest,
+  context: TContext & { user: AuthUser }
+) => Promise<NextResponse>;
+
+// ========== SESSION RESOLUTION ==========
+
+export function isRole(value: string): value is Role {
+  return Object.hasOwn(ROLE_PERMISSIONS, value);
+}
+
+export function permissionsForRole(role: Role): readonly Permission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+/**
+ * TODO: Resolve the session with your auth library.
+ *
+ * @example
+ * // Auth.js
+ * const session = await auth();
+ * if (!session?.user) return null;
+ * const role = isRole(session.user.role) ? session.user.role : 'viewer';
+ * return {
+ *   id: session.user.id,
+ *   email: session.user.email,
+ *   role,
+ *   permissions: permissionsForRole(role),
+ *   organisationId: session.user.organisationId, // Multi-tenant apps only
+ * };
+ */
+const appSessionResolver: SessionResolver = async () => null;
+
+/** Used by withAuth() and proxy.ts, so both see the same user */
+export async function resolveSession(request: NextRequest): Promise<AuthUser | null> {
+  const resolver = stubAuthEnabled() ? stubSessionResolver : appSessionResolver;
+  return resolver(request);
+}
+
+// ========== PERMISSIONS ==========
+
+export function hasPermission(user: AuthUser, permission: Permission): boolean {
+  const [resource] = permission.split(':');
+  return user.permissions.some(
+    (granted) => granted === '*' || granted === permission || granted === `${resource}:*`
+  );
+}
+
+// Users resolved by authorize() (and so withAuth()), so hooks can read them from the request
+const authenticatedUsers = new WeakMap<NextRequest, AuthUser>();
+
+/**
+ * The user authorize() resolved for this request, or null outside withAuth().
+ * Useful in createCrudHandlers hooks, which only receive the request.
+ */
+export function getAuthUser(request: NextRequest): AuthUser | null {
+  return authenticatedUsers.get(request) ?? null;
+}
+
+/**
+ * Resolve the session and check permissions: the user, or the error withAuth()
+ * responds with. For code that isn't a route handler, e.g. Server Actions.
+ *
+ * @example
+ * const { user, error } = await authorize(request, { permission: 'entities:create' });
+ * if (error) return actionError(request, error);
+ */
+export async function authorize(
+  request: NextRequest,
+  options: WithAuthOptions = {}
+): Promise<AuthorizeResult> {
+  let user: AuthUser | null;
+  try {
+    user = await resolveSession(request);
+  } catch (error) {
+    logRequestError(request, 'Failed to resolve session', error);
+    return { error: { code: 'INTERNAL_ERROR', message: 'Failed to resolve session' } };
+  }
+
+  if (!user) {
+    return { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } };
+  }
+
+  const required = options.permission ? [options.permission].flat() : [];
+  const missing = required.filter((permission) => !hasPermission(user, permission));
+  if (missing.length > 0) {
+    return { error: { code: 'FORBIDDEN', message: `Missing permission: ${missing.join(', ')}` } };
+  }
+
+  authenticatedUsers.set(request, user);
+  return { user };
+}
+
+// ========== WRAPPERS ==========
+
+/**
+ * Require a session (and optionally permissions) before running a handler.
+ *
+ * @example
+ * export const DELETE = withAuth(
+ *   async (request, { params, user }) => { ... },
+ *   { permission: 'entities:delete' }
+ * );
+ */
+export function withAuth<TContext extends object = object>(
+  handler: AuthenticatedHandler<TContext>,
+  options: WithAuthOptions = {}
+): (request: NextRequest, context?: TContext) => Promise<NextResponse> {
+  return async (request, context) => {
+    const { user, error } = await authorize(request, options);
+    if (error) return apiError(request, error);
+
+    return handler(request, { ...(context as TContext), user });
+  };
+}
+
+/**
+ * Guard every handler from createCrudHandlers with `{resource}:{action}`
+ * permissions: read, create, update, delete. Restore needs update; bulk needs
+ * all three write permissions; history and export need read, import needs create.
+ *
+ * @example
+ * export const entityHandlers = withCrudAuth(createCrudHandlers({ ... }), 'entities');
+ */
+export function withCrudAuth(handlers: CrudHandlers, resource: string): CrudHandlers {
+  const can = (...actions: string[]): WithAuthOptions => ({
+    permission: actions.map((action): Permission => `${resource}:${action}`),
+  });
+
+  return {
+    collection: {
+      GET: withAuth(handlers.collection.GET, can('read')),
+      POST: withAuth(handlers.collection.POST, can('create')),
+    },
+    item: {
+      GET: withAuth(handlers.item.GET, can('read')),
+      PATCH: withAuth(handlers.item.PATCH, can('update')),
+      DELETE: withAuth(handlers.item.DELETE, can('delete')),
+    },
+    restore: { POST: withAuth(handlers.restore.POST, can('update')) },
+    bulk: { POST: withAuth(handlers.bulk.POST, can('create', 'update', 'delete')) },
+    history: { GET: withAuth(handlers.history.GET, can('read')) },
+    export: { GET: withAuth(handlers.export.GET, can('read')) },
+    import: { POST: withAuth(handlers.import.POST, can('create')) },
+    resource: handlers.resource,
+  };
+}
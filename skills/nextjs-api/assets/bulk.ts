@@ -0,0 +1,82 @@
+/**
+ * Bulk Operations
+ *
+ * Copy this file to src/lib/bulk.ts.
+ *
+ * Request and result types for POST /api/{resources}/bulk. Shared by the route
+ * handler (createCrudHandlers) and client code, so it has no server-only imports.
+ *
+ *   POST /api/entities/bulk
+ *   {
+ *     "mode": "atomic",
+ *     "operations": [
+ *       { "op": "create", "data": { "name": "New" } },
+ *       { "op": "update", "id": "123", "data": { "name": "Renamed" }, "ifMatch": "\"7\"" },
+ *       { "op": "delete", "id": "456" }
+ *     ]
+ *   }
+ *
+ * Modes:
+ * - atomic (default): everything commits in one transaction, or nothing does
+ * - partial: each operation runs in its own savepoint, so failures don't undo the rest
+ *
+ * Updates and deletes take an optional `ifMatch` (the ETag from GET), checked
+ * like the If-Match header: a stale one fails that operation with 412 and the
+ * current record in `data`. Trashed records can't be updated or trashed again.
+ */
+
+import { z } from 'zod';
+import type { ApiErrorCode } from '@/lib/server/api-errors';
+
+/** Same ceiling as the list routes' page size */
+export const MAX_BULK_OPERATIONS = 100;
+
+/** ETag the client last saw, as sent in If-Match */
+const ifMatchSchema = z.string().min(1).optional();
+
+/** `data` is validated per item with the resource's create/update schema */
+export const bulkOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), data: z.unknown() }),
+  z.object({
+    op: z.literal('update'),
+    id: z.string().min(1),
+    data: z.unknown(),
+    ifMatch: ifMatchSchema,
+  }),
+  z.object({
+    op: z.literal('delete'),
+    id: z.string().min(1),
+    permanent: z.boolean().optional(), // softDelete resources only
+    ifMatch: ifMatchSchema,
+  }),
+]);
+
+export const bulkRequestSchema = z.object({
+  mode: z.enum(['atomic', 'partial']).default('atomic'),
+  operations: z.array(bulkOperationSchema).min(1).max(MAX_BULK_OPERATIONS),
+});
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+export type BulkMode = z.infer<typeof bulkRequestSchema>['mode'];
+export type BulkRequest = z.input<typeof bulkRequestSchema>;
+
+/** Outcome of one operation, shaped like the single-item route's response */
+export interface BulkItemResult<T = unknown> {
+  index: number;
+  op: BulkOperation['op'];
+  id?: string;
+  success: boolean;
+  status: number; // Status the single-item route would have returned
+  data?: T;
+  error?: string;
+  code?: ApiErrorCode;
+  field?: string;
+  details?: unknown;
+}
+
+export interface BulkResponseData<T = unknown> {
+  mode: BulkMode;
+  results: BulkItemResult<T>[];
+  succeeded: number;
+  failed: number;
+}
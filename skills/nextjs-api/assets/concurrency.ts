@@ -0,0 +1,67 @@
+/**
+ * Optimistic Concurrency Helpers (server)
+ *
+ * Copy this file to src/lib/server/concurrency.ts.
+ *
+ * Item routes emit an ETag on GET and honour If-Match on PATCH/DELETE:
+ *
+ *   GET    /api/entities/[id]                 -> ETag: "1767225600000"
+ *   PATCH  /api/entities/[id]  If-Match: ...  -> 200, or 412 with the current record
+ *
+ * The check is repeated inside the UPDATE/DELETE WHERE clause, so two requests
+ * that pass the If-Match check at the same moment can't both win.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { apiError } from '@/lib/server/api-errors';
+import { etagFor, ifMatchSatisfied } from '@/lib/etag';
+import type { VersionValue } from '@/lib/etag';
+
+/**
+ * WHERE condition that only matches the row if it is still at `version`.
+ * Timestamps are compared at millisecond precision, because that is all a
+ * JavaScript Date (and therefore the ETag) keeps.
+ */
+export function versionMatches(column: AnyPgColumn, version: VersionValue): SQL {
+  if (column.dataType === 'date') {
+    return sql`date_trunc('milliseconds', ${column}) = ${sql.param(version, column)}`;
+  }
+  return eq(column, version);
+}
+
+/** 412 response carrying the current record and its ETag */
+export function preconditionFailed(
+  request: NextRequest,
+  resourceName: string,
+  current: unknown,
+  currentETag: string
+): NextResponse {
+  return apiError(
+    request,
+    {
+      code: 'PRECONDITION_FAILED',
+      message: `${resourceName} has been changed by someone else`,
+      data: current,
+    },
+    { headers: { ETag: currentETag } }
+  );
+}
+
+/**
+ * Compare the request's If-Match header with the record's current version.
+ * Returns a 412 response when stale, or null when the request may proceed.
+ */
+export function checkIfMatch(
+  request: NextRequest,
+  resourceName: string,
+  current: unknown,
+  version: VersionValue
+): NextResponse | null {
+  const currentETag = etagFor(version);
+  if (ifMatchSatisfied(request.headers.get('if-match'), currentETag)) return null;
+
+  return preconditionFailed(request, resourceName, current, currentETag);
+}
@@ -0,0 +1,1665 @@
+/**
+ * CRUD Handler Factory
+ *
+ * Reusable alternative to route-template.ts. Copy this file once to
+ * src/lib/server/crud-handlers.ts, then build each resource from configuration
+ * instead of copying and renaming the whole template.
+ *
+ * Handlers keep the template's behaviour: the { success, data, pagination }
+ * envelope, page/limit clamping (max 100), and 400/404/409/500 responses.
+ * Errors carry a stable `code` from api-errors.ts. Item routes emit ETags and
+ * honour If-Match when the table has a `version` or `updatedAt` column.
+ * With `softDelete`, DELETE moves rows to the trash instead of removing them.
+ * `bulk` runs many create/update/delete operations in one transaction.
+ * With `audit`, every write is recorded in audit_log with a field-level diff.
+ * `export` streams the list as CSV or NDJSON; `import` loads a CSV upload.
+ * GET routes accept `?fields=` and `?include=` for allowlisted fields and relations.
+ * With `tenant`, every query is scoped to the request's organisation (tenancy.ts).
+ * With `owner`, every query is scoped to the signed-in user (e.g. saved views).
+ *
+ * USAGE:
+ *
+ * // src/lib/server/resources/entities.ts
+ * export const entityHandlers = createCrudHandlers({
+ *   table: entities,
+ *   createSchema: createEntitySchema,
+ *   updateSchema: updateEntitySchema,
+ *   searchFields: [entities.name, entities.email],
+ *   resourceName: 'Entity',
+ * });
+ *
+ * // src/app/api/entities/route.ts
+ * export const { GET, POST } = entityHandlers.collection;
+ *
+ * // src/app/api/entities/[id]/route.ts
+ * export const { GET, PATCH, DELETE } = entityHandlers.item;
+ *
+ * // src/app/api/entities/[id]/restore/route.ts (softDelete only)
+ * export const { POST } = entityHandlers.restore;
+ *
+ * // src/app/api/entities/bulk/route.ts
+ * export const { POST } = entityHandlers.bulk;
+ *
+ * // src/app/api/entities/[id]/history/route.ts (audit only)
+ * export const { GET } = entityHandlers.history;
+ *
+ * // src/app/api/entities/export/route.ts (export only)
+ * export const { GET } = entityHandlers.export;
+ *
+ * // src/app/api/entities/import/route.ts (import only)
+ * export const { POST } = entityHandlers.import;
+ *
+ * `entityHandlers.resource` describes the routes for the OpenAPI generator.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { and, asc, desc, eq, getTableColumns, gt, isNull, sql } from 'drizzle-orm';
+import type { InferInsertModel, InferSelectModel, SQL } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import type { z } from 'zod';
+import {
+  buildCursorPage,
+  keysetCondition,
+  keysetOrderBy,
+  parseCursorParams,
+} from '@/lib/server/cursor-pagination';
+import type { CursorPaginationMetadata, SortOrder } from '@/lib/server/cursor-pagination';
+import { parseListQuery } from '@/lib/server/list-query';
+import { API_ERRORS, apiError, translateDbError } from '@/lib/server/api-errors';
+import type { ApiErrorCode } from '@/lib/server/api-errors';
+import { checkIfMatch, preconditionFailed, versionMatches } from '@/lib/server/concurrency';
+import { etagFor, ifMatchSatisfied } from '@/lib/etag';
+import type { VersionValue } from '@/lib/etag';
+import { withIdempotency } from '@/lib/server/idempotency';
+import { getAuditHistory, recordAudit } from '@/lib/server/audit';
+import { getRequestId, logRequestError } from '@/lib/server/logger';
+import type { AuditAction } from '@/lib/server/audit';
+import {
+  createExportStream,
+  exportResponse,
+  isExportFormat,
+  resolveLocale,
+  translateHeaders,
+} from '@/lib/server/export';
+import { bulkRequestSchema } from '@/lib/bulk';
+import type { BulkItemResult, BulkOperation, BulkResponseData } from '@/lib/bulk';
+import { parseCsv } from '@/lib/csv';
+import { mapColumns, MAX_IMPORT_BYTES, MAX_IMPORT_ROWS } from '@/lib/import';
+import type { ImportReport, ImportRowError } from '@/lib/import';
+import type {
+  AppliedFilter,
+  AppliedSort,
+  FilterOperator,
+  ListQueryAllowlist,
+} from '@/lib/server/list-query';
+import {
+  attachIncludes,
+  parseFieldSelection,
+  projectRow,
+  selectColumns,
+} from '@/lib/server/fieldsets';
+import type { FieldSelection, FieldsetAllowlist, RelationalQuery } from '@/lib/server/fieldsets';
+import { buildSearch } from '@/lib/server/search';
+import type { SearchOptions } from '@/lib/server/search';
+import { DEFAULT_TENANT_FIELD, requireTenant } from '@/lib/server/tenancy';
+import { getAuthUser, resolveSession } from '@/lib/server/auth';
+
+// ========== TYPES ==========
+
+export interface PaginationMetadata {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+  sort?: AppliedSort[]; // Echo of ?sort=
+  filters?: AppliedFilter[]; // Echo of ?filter[...]
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: ApiErrorCode; // Stable error code, see api-errors.ts
+  details?: unknown; // For validation errors
+  pagination?: PaginationMetadata | (CursorPaginationMetadata & { filters?: AppliedFilter[] }); // For list endpoints
+}
+
+/** Any Drizzle table with an `id` primary key column */
+export type CrudTable = PgTable & { id: AnyPgColumn };
+
+export interface RouteContext {
+  request: NextRequest;
+}
+
+export interface ItemRouteContext extends RouteContext {
+  id: string;
+}
+
+export interface DeleteRouteContext extends ItemRouteContext {
+  /** True for a hard delete (`?permanent=true` or no softDelete), false when moving to trash */
+  permanent: boolean;
+}
+
+export type ItemRouteParams = { params: Promise<{ id: string }> };
+
+/** `db` or a transaction, so the same queries can run inside bulk operations */
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+
+/** The request's tenant and/or owner: the condition added to every query and the stamp for writes */
+interface RowScope {
+  where: SQL | undefined;
+  stamp: <T extends object>(values: T) => T;
+}
+
+/**
+ * Per-operation hooks.
+ *
+ * `before*` hooks may return modified input, or a NextResponse to stop the
+ * operation and send that response instead (e.g. a 403 or a business-rule 400).
+ * `after*` hooks run after the database write and cannot change the response.
+ */
+export interface CrudHooks<TRecord, TCreate, TUpdate> {
+  beforeCreate?: (data: TCreate, ctx: RouteContext) => Promise<TCreate | NextResponse>;
+  afterCreate?: (record: TRecord, ctx: RouteContext) => Promise<void>;
+  beforeUpdate?: (
+    data: TUpdate,
+    ctx: ItemRouteContext & { existing: TRecord }
+  ) => Promise<TUpdate | NextResponse>;
+  afterUpdate?: (record: TRecord, ctx: ItemRouteContext & { previous: TRecord }) => Promise<void>;
+  beforeDelete?: (existing: TRecord, ctx: DeleteRouteContext) => Promise<NextResponse | void>;
+  afterDelete?: (deleted: TRecord, ctx: DeleteRouteContext) => Promise<void>;
+  beforeRestore?: (existing: TRecord, ctx: ItemRouteContext) => Promise<NextResponse | void>;
+  afterRestore?: (restored: TRecord, ctx: ItemRouteContext) => Promise<void>;
+}
+
+export interface CrudConfig<
+  TTable extends CrudTable,
+  TCreateSchema extends z.ZodTypeAny,
+  TUpdateSchema extends z.ZodTypeAny,
+> {
+  table: TTable;
+  createSchema: TCreateSchema;
+  updateSchema: TUpdateSchema;
+  /** Columns searched when `?search=` is present */
+  searchFields?: AnyPgColumn[];
+  /**
+   * How searchFields are matched (search.ts): escaped `ilike` (default),
+   * `trigram` or `fulltext`. Ranked strategies order results by relevance
+   * unless `?sort=` is given. Each strategy needs its index; see search.ts.
+   */
+  search?: SearchOptions;
+  /** Singular display name used in messages, e.g. 'Entity' -> 'Entity not found' */
+  resourceName: string;
+  /** Plural used in list messages. Defaults to lowercase resourceName + 's' */
+  resourcePlural?: string;
+  /**
+   * Enables `?cursor=` keyset pagination on the list route, paging on
+   * (field, id). Offset pagination stays the default.
+   */
+  cursor?: { field: keyof InferSelectModel<TTable> & string; order?: SortOrder };
+  /**
+   * Column used for ETags and If-Match checks. Defaults to `version` when the
+   * table has one, otherwise `updatedAt`. An integer `version` is incremented on update.
+   */
+  versionField?: keyof InferSelectModel<TTable> & string;
+  /**
+   * DELETE sets `deletedAt` instead of removing the row, and reads skip deleted
+   * rows unless `?includeDeleted=true`. Requires a nullable `deletedAt` column.
+   */
+  softDelete?: boolean;
+  /**
+   * Scope every query to the request's tenant (tenancy.ts). Reads, counts,
+   * updates and deletes add `eq(table[field], tenantId)` and inserts stamp it,
+   * so another tenant's rows are 404. `field` defaults to organisationId.
+   */
+  tenant?: boolean | { field?: keyof InferSelectModel<TTable> & string };
+  /**
+   * Scope every query to the signed-in user, for rows that belong to one
+   * person (saved views, drafts). Works like `tenant`: another user's rows are
+   * 404 and inserts stamp the user's id. `field` defaults to userId.
+   */
+  owner?: boolean | { field?: keyof InferSelectModel<TTable> & string };
+  /**
+   * Honour the Idempotency-Key header on create and bulk, replaying the first
+   * response for repeated keys. Requires the idempotency_keys table.
+   */
+  idempotent?: boolean;
+  /**
+   * Record every create, update, delete and restore in audit_log (audit.ts),
+   * including bulk operations, and serve GET /api/{resources}/[id]/history.
+   * `entityType` defaults to the lowercase resourceName.
+   */
+  audit?: boolean | { entityType?: string; ignoreFields?: string[] };
+  /**
+   * Enables GET /api/{resources}/export (export.ts). `columns` maps each
+   * exportable field to the translation key of its CSV header, looked up in
+   * `namespace` (default: resourcePlural).
+   */
+  export?: {
+    columns: Partial<Record<keyof InferSelectModel<TTable> & string, string>>;
+    namespace?: string;
+  };
+  /**
+   * Enables POST /api/{resources}/import (import.ts) for these fields. Rows are
+   * validated with `schema` (default: createSchema). Every CSV cell is a
+   * string, so use z.coerce for numbers, booleans and dates.
+   */
+  import?: {
+    fields: (keyof InferInsertModel<TTable> & string)[];
+    schema?: z.ZodTypeAny;
+  };
+  /** Fields allowed in `?sort=` */
+  sortable?: (keyof InferSelectModel<TTable> & string)[];
+  /** Fields and operators allowed in `?filter[field][op]=` */
+  filterable?: Partial<Record<keyof InferSelectModel<TTable> & string, FilterOperator[]>>;
+  /** Fields allowed in `?fields=` on GET routes; id is always returned */
+  selectable?: (keyof InferSelectModel<TTable> & string)[];
+  /**
+   * Relations allowed in `?include=` on GET routes (fieldsets.ts). `query` is
+   * the table's key in db.query; `relations` maps each relation defined with
+   * relations() to the fields of the related rows it may return.
+   */
+  includable?: { query: keyof typeof db.query & string; relations: Record<string, string[]> };
+  hooks?: CrudHooks<InferSelectModel<TTable>, z.infer<TCreateSchema>, z.infer<TUpdateSchema>>;
+}
+
+/** What a resource accepts and returns, read by the OpenAPI generator (openapi.ts) */
+export interface CrudResource {
+  resourceName: string;
+  resourcePlural: string;
+  table: CrudTable;
+  createSchema: z.ZodTypeAny;
+  updateSchema: z.ZodTypeAny;
+  searchable: boolean;
+  sortable: string[];
+  filterable: Record<string, FilterOperator[]>;
+  /** Fields allowed in `?fields=`; empty when sparse fieldsets are off */
+  selectable: string[];
+  /** Relation -> fields, for `?include=` */
+  includable: Record<string, string[]>;
+  cursor?: { field: string; order: SortOrder };
+  /** Item routes emit ETags and honour If-Match */
+  versioned: boolean;
+  softDelete: boolean;
+  idempotent: boolean;
+  /** Writes are audited and the history route is available */
+  audited: boolean;
+  /** Fields the export route can output; empty when export is off */
+  exportColumns: string[];
+  /** Fields the import route can set; empty when import is off */
+  importFields: string[];
+  /** Read and write routes throttled by withCrudRateLimit (rate-limit.ts) */
+  rateLimited: { read: boolean; write: boolean };
+}
+
+export interface CrudHandlers {
+  collection: {
+    GET: (request: NextRequest) => Promise<NextResponse>;
+    POST: (request: NextRequest) => Promise<NextResponse>;
+  };
+  item: {
+    GET: (request: NextRequest, route: ItemRouteParams) => Promise<NextResponse>;
+    PATCH: (request: NextRequest, route: ItemRouteParams) => Promise<NextResponse>;
+    DELETE: (request: NextRequest, route: ItemRouteParams) => Promise<NextResponse>;
+  };
+  restore: {
+    POST: (request: NextRequest, route: ItemRouteParams) => Promise<NextResponse>;
+  };
+  bulk: {
+    POST: (request: NextRequest) => Promise<NextResponse>;
+  };
+  history: {
+    GET: (request: NextRequest, route: ItemRouteParams) => Promise<NextResponse>;
+  };
+  export: {
+    GET: (request: NextRequest) => Promise<NextResponse>;
+  };
+  import: {
+    POST: (request: NextRequest) => Promise<NextResponse>;
+  };
+  resource: CrudResource;
+}
+
+// ========== HELPERS ==========
+
+/**
+ * Read page/limit from the query string.
+ * Default: page=1, limit=50. Max limit: 100 items per page.
+ */
+export function parsePagination(searchParams: URLSearchParams) {
+  const page = parseInt(searchParams.get('page') || '1') || 1;
+  const limit = parseInt(searchParams.get('limit') || '50') || 50;
+
+  const safePage = Math.max(1, page);
+  const safeLimit = Math.min(Math.max(1, limit), 100);
+  const offset = (safePage - 1) * safeLimit;
+
+  return { page: safePage, limit: safeLimit, offset };
+}
+
+/** Search condition across the search fields; escaped `ilike` unless options pick a strategy */
+export function buildSearchCondition(
+  fields: AnyPgColumn[] | undefined,
+  search: string | undefined,
+  options?: SearchOptions
+): SQL | undefined {
+  return buildSearch(fields, search, options).where;
+}
+
+async function parseJsonBody(request: NextRequest) {
+  try {
+    return { ok: true as const, body: await request.json() };
+  } catch {
+    return {
+      ok: false as const,
+      response: apiError(request, {
+        code: 'INVALID_JSON',
+        message: 'Invalid JSON in request body',
+      }),
+    };
+  }
+}
+
+function validationError(request: NextRequest, error: z.ZodError) {
+  return apiError(request, {
+    code: 'VALIDATION_FAILED',
+    message: 'Validation failed',
+    details: error.format(),
+  });
+}
+
+/** Thrown inside a bulk or import transaction to roll it back */
+class BulkRollback extends Error {}
+
+/** index/op/id shared by every result for an operation */
+function bulkItemBase(operation: BulkOperation, index: number) {
+  return { index, op: operation.op, ...('id' in operation && { id: operation.id }) };
+}
+
+/** Result for an operation that was rolled back or never ran */
+function notApplied(operation: BulkOperation, index: number): BulkItemResult {
+  return {
+    ...bulkItemBase(operation, index),
+    success: false,
+    status: API_ERRORS.NOT_APPLIED.status,
+    code: 'NOT_APPLIED',
+    error: 'Not applied because another operation failed',
+  };
+}
+
+// ========== FACTORY ==========
+
+export function createCrudHandlers<
+  TTable extends CrudTable,
+  TCreateSchema extends z.ZodTypeAny,
+  TUpdateSchema extends z.ZodTypeAny,
+>(config: CrudConfig<TTable, TCreateSchema, TUpdateSchema>): CrudHandlers {
+  type TRecord = InferSelectModel<TTable>;
+
+  const { table, createSchema, updateSchema, searchFields, resourceName, hooks = {} } = config;
+  const singular = resourceName.toLowerCase();
+  const plural = config.resourcePlural ?? `${singular}s`;
+  const columns = getTableColumns(table);
+  const hasUpdatedAt = 'updatedAt' in columns;
+
+  const versionField =
+    config.versionField ??
+    ('version' in columns ? 'version' : hasUpdatedAt ? 'updatedAt' : undefined);
+  const versionColumn = versionField ? columns[versionField] : undefined;
+  const versionOf = (record: TRecord) =>
+    (record as Record<string, unknown>)[versionField ?? ''] as VersionValue;
+  const etagHeaders = (record: TRecord): Record<string, string> =>
+    versionField ? { ETag: etagFor(versionOf(record)) } : {};
+
+  const deletedAtColumn = config.softDelete ? columns.deletedAt : undefined;
+  if (config.softDelete && !deletedAtColumn) {
+    throw new Error(`${resourceName}: softDelete requires a deletedAt column`);
+  }
+
+  const tenantConfig = config.tenant === true ? {} : config.tenant || undefined;
+  const tenantField = tenantConfig ? (tenantConfig.field ?? DEFAULT_TENANT_FIELD) : undefined;
+  const tenantColumn = tenantField ? columns[tenantField] : undefined;
+  if (tenantField && !tenantColumn) {
+    throw new Error(`${resourceName}: tenant requires a ${tenantField} column`);
+  }
+
+  const ownerConfig = config.owner === true ? {} : config.owner || undefined;
+  const ownerField = ownerConfig ? (ownerConfig.field ?? 'userId') : undefined;
+  const ownerColumn = ownerField ? columns[ownerField] : undefined;
+  if (ownerField && !ownerColumn) {
+    throw new Error(`${resourceName}: owner requires a ${ownerField} column`);
+  }
+
+  const unscoped: RowScope = { where: undefined, stamp: (values) => values };
+
+  /** Scope for the request's tenant and owner, or the 401/403 to send when it has none */
+  async function rowScope(
+    request: NextRequest
+  ): Promise<{ ok: true; scope: RowScope } | { ok: false; response: NextResponse }> {
+    const stamps: Record<string, string> = {};
+    const conditions: SQL[] = [];
+
+    if (tenantField && tenantColumn) {
+      const { tenantId, error } = await requireTenant(request);
+      if (error) return { ok: false, response: apiError(request, error) };
+      stamps[tenantField] = tenantId;
+      conditions.push(eq(tenantColumn, tenantId));
+    }
+
+    if (ownerField && ownerColumn) {
+      const user = getAuthUser(request) ?? (await resolveSession(request));
+      if (!user) {
+        const error = { code: 'UNAUTHORIZED', message: 'Authentication required' } as const;
+        return { ok: false, response: apiError(request, error) };
+      }
+      stamps[ownerField] = user.id;
+      conditions.push(eq(ownerColumn, user.id));
+    }
+
+    if (conditions.length === 0) return { ok: true, scope: unscoped };
+
+    return {
+      ok: true,
+      scope: {
+        where: and(...conditions),
+        // Also applied to updates, so a row can't be moved to another tenant or user
+        stamp: (values) => ({ ...values, ...stamps }),
+      },
+    };
+  }
+
+  /** Excludes trashed rows unless the request asks for them */
+  const notDeleted = (includeDeleted: boolean) =>
+    deletedAtColumn && !includeDeleted ? isNull(deletedAtColumn) : undefined;
+  const wantsDeleted = (request: NextRequest) =>
+    request.nextUrl.searchParams.get('includeDeleted') === 'true';
+
+  const listQueryAllowlist: ListQueryAllowlist = {
+    sortable: Object.fromEntries((config.sortable ?? []).map((field) => [field, columns[field]])),
+    filterable: Object.fromEntries(
+      Object.entries(config.filterable ?? {}).map(([field, operators]) => [
+        field,
+        { column: columns[field], operators: operators as FilterOperator[] },
+      ])
+    ),
+  };
+  // Trash view: ?includeDeleted=true&filter[deletedAt][isNull]=false
+  if (deletedAtColumn && !listQueryAllowlist.filterable?.deletedAt) {
+    listQueryAllowlist.filterable = {
+      ...listQueryAllowlist.filterable,
+      deletedAt: { column: deletedAtColumn, operators: ['isNull'] },
+    };
+  }
+
+  const fieldsetAllowlist: FieldsetAllowlist = {
+    selectable: config.selectable ?? [],
+    includable: config.includable?.relations ?? {},
+  };
+  const relationalQuery = config.includable
+    ? (db.query as unknown as Record<string, RelationalQuery>)[config.includable.query]
+    : undefined;
+
+  // `from()` can't resolve its conditional parameter type for a generic table;
+  // the same table as a plain PgTable passes, and rows are cast to TRecord
+  const sourceTable: PgTable = table;
+
+  const auditConfig = config.audit === true ? {} : config.audit || undefined;
+  const entityType = auditConfig?.entityType ?? singular;
+
+  /** Add an audit_log row through the same executor as the write */
+  async function audit(
+    executor: DbExecutor,
+    request: NextRequest,
+    action: AuditAction,
+    id: string,
+    before: TRecord | null,
+    after: TRecord | null
+  ) {
+    if (!auditConfig) return;
+    await recordAudit(executor, request, {
+      action,
+      entityType,
+      entityId: id,
+      before,
+      after,
+      ignoreFields: auditConfig.ignoreFields,
+    });
+  }
+
+  /** Run a write and its audit entry in one transaction, so neither commits alone */
+  const audited = <T>(write: (executor: DbExecutor) => Promise<T>): Promise<T> =>
+    auditConfig ? db.transaction(write) : write(db);
+
+  /** db.select() narrowed to ?fields=, plus the fields the route itself needs */
+  const selectFields = (fields: string[] | undefined, required: string[] = []) => {
+    const selected = selectColumns(table, fields, required);
+    return selected ? db.select(selected) : db.select();
+  };
+
+  /** Apply ?fields= and ?include= to rows read by a GET route */
+  const shapeRows = async (rows: Record<string, unknown>[], selection: FieldSelection) => {
+    const projected = rows.map((row) => projectRow(row, selection.fields));
+    if (!relationalQuery) return projected;
+    return attachIncludes(
+      relationalQuery,
+      table.id,
+      projected,
+      selection.include,
+      fieldsetAllowlist.includable ?? {}
+    );
+  };
+
+  const invalidQuery = (request: NextRequest, error: z.ZodError) =>
+    apiError(request, {
+      code: 'INVALID_QUERY',
+      message: 'Invalid query parameters',
+      details: error.format(),
+    });
+
+  const notFound = (request: NextRequest) =>
+    apiError(request, { code: 'NOT_FOUND', message: `${resourceName} not found` });
+
+  /** Known database errors become 4xx responses; anything else is logged as a 500 */
+  const failure = (request: NextRequest, error: unknown, message: string) => {
+    const dbError = translateDbError(error, { resourceName, table });
+    if (dbError) return apiError(request, dbError);
+
+    logRequestError(request, message, error);
+    return apiError(request, { code: 'INTERNAL_ERROR', message });
+  };
+
+  async function findById(
+    id: string,
+    scope: RowScope,
+    includeDeleted = false,
+    executor: DbExecutor = db
+  ): Promise<TRecord | undefined> {
+    const items = await executor
+      .select()
+      .from(sourceTable)
+      .where(and(eq(table.id, id), scope.where, notDeleted(includeDeleted)))
+      .limit(1);
+    return items[0] as TRecord | undefined;
+  }
+
+  /**
+   * WHERE for a write. When the client sent If-Match, the row must still be at
+   * the version we checked, so a concurrent write in between can't be overwritten.
+   */
+  function writeCondition(request: NextRequest, id: string, existing: TRecord, scope: RowScope) {
+    if (!versionColumn || !request.headers.has('if-match'))
+      return and(eq(table.id, id), scope.where);
+    return and(eq(table.id, id), scope.where, versionMatches(versionColumn, versionOf(existing)));
+  }
+
+  /** The conditional write matched nothing: report 404 or 412 with the latest record */
+  async function lostRace(
+    request: NextRequest,
+    id: string,
+    scope: RowScope,
+    includeDeleted = false
+  ) {
+    const current = await findById(id, scope, includeDeleted);
+    if (!current) return notFound(request);
+    return preconditionFailed(request, resourceName, current, etagFor(versionOf(current)));
+  }
+
+  /** SET values for an update: touches updatedAt and bumps an integer version */
+  function updateValues(data: Record<string, unknown>) {
+    return {
+      ...data,
+      ...(hasUpdatedAt && { updatedAt: new Date() }),
+      ...(versionField === 'version' && { version: sql`${versionColumn} + 1` }),
+    };
+  }
+
+  /** 412 when the request's If-Match doesn't match the record, otherwise null */
+  function staleCheck(request: NextRequest, existing: TRecord) {
+    return versionField ? checkIfMatch(request, resourceName, existing, versionOf(existing)) : null;
+  }
+
+  /**
+   * GET /api/{resources}
+   * List with pagination, search, sorting and filtering
+   */
+  async function list(request: NextRequest) {
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit, offset } = parsePagination(searchParams);
+    const search = searchParams.get('search') || undefined;
+    const cursorParams = config.cursor ? parseCursorParams(searchParams) : null;
+
+    if (cursorParams?.invalid) {
+      return apiError(request, { code: 'INVALID_QUERY', message: 'Invalid cursor' });
+    }
+
+    const listQuery = parseListQuery(searchParams, listQueryAllowlist);
+    if (!listQuery.success) return invalidQuery(request, listQuery.error);
+    const { orderBy, applied } = listQuery.data;
+
+    const selection = parseFieldSelection(searchParams, fieldsetAllowlist);
+    if (!selection.success) return invalidQuery(request, selection.error);
+    const { fields } = selection.data;
+
+    // Cursor pages are ordered by the cursor key, so a custom sort would break them
+    if (cursorParams && applied.sort.length > 0) {
+      return apiError(request, {
+        code: 'INVALID_QUERY',
+        message: 'Sorting is not supported with cursor pagination',
+      });
+    }
+
+    try {
+      const { where: searchWhere, rank } = buildSearch(searchFields, search, config.search);
+      const searchCondition = and(
+        scope.where,
+        searchWhere,
+        listQuery.data.where,
+        notDeleted(wantsDeleted(request))
+      );
+
+      if (cursorParams && config.cursor) {
+        const { field, order = 'desc' } = config.cursor;
+        const keyset = { column: columns[field], idColumn: table.id, order };
+        const { cursor, includeCount } = cursorParams;
+
+        const where = cursor
+          ? and(searchCondition, keysetCondition(keyset, cursor))
+          : searchCondition;
+
+        // Fetch one extra row to know whether another page exists
+        // The cursor field is selected even when ?fields= leaves it out
+        const [rows, countResult] = await Promise.all([
+          selectFields(fields, [field])
+            .from(sourceTable)
+            .where(where)
+            .orderBy(...keysetOrderBy(keyset, cursor?.direction ?? 'next'))
+            .limit(limit + 1),
+          includeCount
+            ? db
+                .select({ count: sql<number>`count(*)` })
+                .from(sourceTable)
+                .where(searchCondition)
+            : undefined,
+        ]);
+
+        const { items, nextCursor, prevCursor } = buildCursorPage(
+          rows as Record<string, unknown>[],
+          limit,
+          cursor,
+          (row) => ({ value: row[field], id: String(row.id) })
+        );
+
+        const pagination: CursorPaginationMetadata & { filters: AppliedFilter[] } = {
+          limit,
+          nextCursor,
+          prevCursor,
+          filters: applied.filters,
+        };
+        if (countResult) pagination.total = Number(countResult[0].count);
+
+        const data = await shapeRows(items, selection.data);
+        return NextResponse.json({ success: true, data, pagination });
+      }
+
+      const [items, countResult] = await Promise.all([
+        selectFields(fields)
+          .from(sourceTable)
+          .where(searchCondition)
+          // Without ?sort=, ranked search puts the most relevant rows first;
+          // id keeps page boundaries stable
+          .orderBy(...(orderBy.length > 0 ? orderBy : rank ? [desc(rank)] : []), asc(table.id))
+          .limit(limit)
+          .offset(offset),
+        db
+          .select({ count: sql<number>`count(*)` })
+          .from(sourceTable)
+          .where(searchCondition),
+      ]);
+
+      const total = Number(countResult[0].count);
+      const pages = Math.ceil(total / limit);
+
+      return NextResponse.json({
+        success: true,
+        data: await shapeRows(items as Record<string, unknown>[], selection.data),
+        pagination: { page, limit, total, pages, sort: applied.sort, filters: applied.filters },
+      });
+    } catch (error) {
+      return failure(request, error, `Failed to fetch ${plural}`);
+    }
+  }
+
+  /**
+   * POST /api/{resources}
+   * Create a new record
+   */
+  async function create(request: NextRequest) {
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const parsed = await parseJsonBody(request);
+    if (!parsed.ok) return parsed.response;
+
+    const validationResult = createSchema.safeParse(parsed.body);
+    if (!validationResult.success) return validationError(request, validationResult.error);
+
+    const ctx: RouteContext = { request };
+
+    try {
+      let data: z.infer<TCreateSchema> = validationResult.data;
+      if (hooks.beforeCreate) {
+        const result = await hooks.beforeCreate(data, ctx);
+        if (result instanceof NextResponse) return result;
+        data = result;
+      }
+
+      const created = await audited(async (executor) => {
+        const [row] = (await executor
+          .insert(table)
+          .values(scope.stamp(data))
+          .returning()) as TRecord[];
+        await audit(executor, request, 'create', String(row.id), null, row);
+        return row;
+      });
+
+      await hooks.afterCreate?.(created, ctx);
+
+      return NextResponse.json(
+        { success: true, data: created },
+        { status: 201, headers: etagHeaders(created) }
+      );
+    } catch (error) {
+      return failure(request, error, `Failed to create ${singular}`);
+    }
+  }
+
+  /**
+   * GET /api/{resources}/[id]
+   * Get a single record by ID
+   */
+  async function getOne(request: NextRequest, { params }: ItemRouteParams) {
+    const { id } = await params; // MUST await in Next.js 16
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const selection = parseFieldSelection(request.nextUrl.searchParams, fieldsetAllowlist);
+    if (!selection.success) return invalidQuery(request, selection.error);
+
+    try {
+      const record = await findById(id, scope, wantsDeleted(request));
+      if (!record) return notFound(request);
+
+      // The whole row is read (the ETag needs its version), then narrowed to ?fields=
+      const [data] = await shapeRows([record as Record<string, unknown>], selection.data);
+      return NextResponse.json({ success: true, data }, { headers: etagHeaders(record) });
+    } catch (error) {
+      return failure(request, error, `Failed to fetch ${singular}`);
+    }
+  }
+
+  /**
+   * PATCH /api/{resources}/[id]
+   * Update a record
+   */
+  async function update(request: NextRequest, { params }: ItemRouteParams) {
+    const { id } = await params;
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const parsed = await parseJsonBody(request);
+    if (!parsed.ok) return parsed.response;
+
+    const validationResult = updateSchema.safeParse(parsed.body);
+    if (!validationResult.success) return validationError(request, validationResult.error);
+
+    try {
+      const existing = await findById(id, scope);
+      if (!existing) return notFound(request);
+
+      const stale = staleCheck(request, existing);
+      if (stale) return stale;
+
+      let data: z.infer<TUpdateSchema> = validationResult.data;
+      if (hooks.beforeUpdate) {
+        const result = await hooks.beforeUpdate(data, { request, id, existing });
+        if (result instanceof NextResponse) return result;
+        data = result;
+      }
+
+      const updated = await audited(async (executor) => {
+        const [row] = (await executor
+          .update(table)
+          .set(updateValues(scope.stamp(data)))
+          .where(writeCondition(request, id, existing, scope))
+          .returning()) as TRecord[];
+        if (row) await audit(executor, request, 'update', id, existing, row);
+        return row;
+      });
+
+      if (!updated) return lostRace(request, id, scope);
+
+      await hooks.afterUpdate?.(updated, { request, id, previous: existing });
+
+      return NextResponse.json({ success: true, data: updated }, { headers: etagHeaders(updated) });
+    } catch (error) {
+      return failure(request, error, `Failed to update ${singular}`);
+    }
+  }
+
+  /**
+   * DELETE /api/{resources}/[id]
+   * Delete a record. With softDelete, moves it to the trash unless ?permanent=true
+   */
+  async function remove(request: NextRequest, { params }: ItemRouteParams) {
+    const { id } = await params;
+    const permanent = !deletedAtColumn || request.nextUrl.searchParams.get('permanent') === 'true';
+    const ctx: DeleteRouteContext = { request, id, permanent };
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    try {
+      // Permanent deletes also apply to rows already in the trash
+      const existing = await findById(id, scope, permanent);
+      if (!existing) return notFound(request);
+
+      const stale = staleCheck(request, existing);
+      if (stale) return stale;
+
+      const result = await hooks.beforeDelete?.(existing, ctx);
+      if (result instanceof NextResponse) return result;
+
+      if (!permanent) {
+        const trashed = await audited(async (executor) => {
+          const [row] = (await executor
+            .update(table)
+            .set(updateValues({ deletedAt: new Date() }))
+            .where(writeCondition(request, id, existing, scope))
+            .returning()) as TRecord[];
+          if (row) await audit(executor, request, 'delete', id, existing, row);
+          return row;
+        });
+        if (!trashed) return lostRace(request, id, scope);
+
+        await hooks.afterDelete?.(trashed, ctx);
+
+        return NextResponse.json({
+          success: true,
+          data: trashed,
+          message: `${resourceName} moved to trash`,
+        });
+      }
+
+      const deleted = await audited(async (executor) => {
+        const rows = await executor
+          .delete(table)
+          .where(writeCondition(request, id, existing, scope))
+          .returning();
+        if (rows.length > 0) await audit(executor, request, 'delete', id, existing, null);
+        return rows;
+      });
+      if (deleted.length === 0) return lostRace(request, id, scope, true);
+
+      await hooks.afterDelete?.(existing, ctx);
+
+      return NextResponse.json({
+        success: true,
+        message: `${resourceName} deleted successfully`,
+      });
+    } catch (error) {
+      return failure(request, error, `Failed to delete ${singular}`);
+    }
+  }
+
+  /**
+   * POST /api/{resources}/[id]/restore
+   * Move a soft-deleted record out of the trash. Restoring a live record is a no-op.
+   */
+  async function restore(request: NextRequest, { params }: ItemRouteParams) {
+    const { id } = await params;
+    const ctx: ItemRouteContext = { request, id };
+
+    if (!deletedAtColumn) return notFound(request);
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    try {
+      const existing = await findById(id, scope, true);
+      if (!existing) return notFound(request);
+
+      if ((existing as Record<string, unknown>).deletedAt === null) {
+        return NextResponse.json(
+          { success: true, data: existing },
+          { headers: etagHeaders(existing) }
+        );
+      }
+
+      const stale = staleCheck(request, existing);
+      if (stale) return stale;
+
+      const result = await hooks.beforeRestore?.(existing, ctx);
+      if (result instanceof NextResponse) return result;
+
+      const restored = await audited(async (executor) => {
+        const [row] = (await executor
+          .update(table)
+          .set(updateValues({ deletedAt: null }))
+          .where(writeCondition(request, id, existing, scope))
+          .returning()) as TRecord[];
+        if (row) await audit(executor, request, 'restore', id, existing, row);
+        return row;
+      });
+      if (!restored) return lostRace(request, id, scope, true);
+
+      await hooks.afterRestore?.(restored, ctx);
+
+      return NextResponse.json(
+        { success: true, data: restored },
+        { headers: etagHeaders(restored) }
+      );
+    } catch (error) {
+      return failure(request, error, `Failed to restore ${singular}`);
+    }
+  }
+
+  /**
+   * Run one bulk operation. Database errors are thrown so the caller can roll
+   * back; not-found and hook rejections come back as failed results.
+   * `after` holds the after* hook, to run once the transaction has committed.
+   */
+  async function applyOperation(
+    executor: DbExecutor,
+    request: NextRequest,
+    scope: RowScope,
+    operation: BulkOperation,
+    data: unknown,
+    index: number
+  ): Promise<{ result: BulkItemResult; after?: () => Promise<void> }> {
+    const base = bulkItemBase(operation, index);
+
+    // A before* hook's NextResponse becomes this item's result
+    const rejected = async (response: NextResponse) => ({
+      result: { ...base, ...(await response.json()), success: false, status: response.status },
+    });
+    const notFoundResult = {
+      result: {
+        ...base,
+        success: false,
+        status: 404,
+        code: 'NOT_FOUND' as const,
+        error: `${resourceName} not found`,
+      },
+    };
+
+    if (operation.op === 'create') {
+      const ctx: RouteContext = { request };
+      let values = data as z.infer<TCreateSchema>;
+      if (hooks.beforeCreate) {
+        const result = await hooks.beforeCreate(values, ctx);
+        if (result instanceof NextResponse) return rejected(result);
+        values = result;
+      }
+
+      const [created] = (await executor
+        .insert(table)
+        .values(scope.stamp(values))
+        .returning()) as TRecord[];
+      await audit(executor, request, 'create', String(created.id), null, created);
+      return {
+        result: { ...base, id: String(created.id), success: true, status: 201, data: created },
+        after: async () => hooks.afterCreate?.(created, ctx),
+      };
+    }
+
+    const { id, ifMatch } = operation;
+
+    // Same If-Match check as the item routes, per operation: the ETag is
+    // compared up front and its version repeated in the write's WHERE
+    const isStale = (existing: TRecord) =>
+      !!versionField && !ifMatchSatisfied(ifMatch ?? null, etagFor(versionOf(existing)));
+    const staleResult = (current: TRecord) => ({
+      result: {
+        ...base,
+        success: false,
+        status: 412,
+        code: 'PRECONDITION_FAILED' as const,
+        error: `${resourceName} has been changed by someone else`,
+        data: current,
+      },
+    });
+    const unchanged = (existing: TRecord, includeDeleted: boolean) =>
+      and(
+        eq(table.id, id),
+        scope.where,
+        notDeleted(includeDeleted),
+        versionColumn && ifMatch ? versionMatches(versionColumn, versionOf(existing)) : undefined
+      );
+    // The write matched nothing: changed (412) or gone (404) since the read
+    const lostRaceResult = async (includeDeleted: boolean) => {
+      const current = await findById(id, scope, includeDeleted, executor);
+      return current ? staleResult(current) : notFoundResult;
+    };
+
+    if (operation.op === 'update') {
+      const existing = await findById(id, scope, false, executor);
+      if (!existing) return notFoundResult;
+      if (isStale(existing)) return staleResult(existing);
+
+      let values = data as z.infer<TUpdateSchema>;
+      if (hooks.beforeUpdate) {
+        const result = await hooks.beforeUpdate(values, { request, id, existing });
+        if (result instanceof NextResponse) return rejected(result);
+        values = result;
+      }
+
+      const [updated] = (await executor
+        .update(table)
+        .set(updateValues(scope.stamp(values)))
+        .where(unchanged(existing, false))
+        .returning()) as TRecord[];
+      if (!updated) return lostRaceResult(false);
+      await audit(executor, request, 'update', id, existing, updated);
+      return {
+        result: { ...base, success: true, status: 200, data: updated },
+        after: async () => hooks.afterUpdate?.(updated, { request, id, previous: existing }),
+      };
+    }
+
+    const permanent = !deletedAtColumn || operation.permanent === true;
+    const ctx: DeleteRouteContext = { request, id, permanent };
+
+    const existing = await findById(id, scope, permanent, executor);
+    if (!existing) return notFoundResult;
+    if (isStale(existing)) return staleResult(existing);
+
+    const result = await hooks.beforeDelete?.(existing, ctx);
+    if (result instanceof NextResponse) return rejected(result);
+
+    if (!permanent) {
+      const [trashed] = (await executor
+        .update(table)
+        .set(updateValues({ deletedAt: new Date() }))
+        .where(unchanged(existing, false))
+        .returning()) as TRecord[];
+      if (!trashed) return lostRaceResult(false);
+      await audit(executor, request, 'delete', id, existing, trashed);
+      return {
+        result: { ...base, success: true, status: 200, data: trashed },
+        after: async () => hooks.afterDelete?.(trashed, ctx),
+      };
+    }
+
+    const deleted = await executor.delete(table).where(unchanged(existing, true)).returning();
+    if (deleted.length === 0) return lostRaceResult(true);
+    await audit(executor, request, 'delete', id, existing, null);
+    return {
+      result: { ...base, success: true, status: 200 },
+      after: async () => hooks.afterDelete?.(existing, ctx),
+    };
+  }
+
+  /** Database error thrown by one bulk operation, as that operation's result */
+  function bulkFailure(
+    request: NextRequest,
+    operation: BulkOperation,
+    index: number,
+    error: unknown
+  ): BulkItemResult {
+    const base = bulkItemBase(operation, index);
+    const dbError = translateDbError(error, { resourceName, table });
+    if (!dbError) logRequestError(request, `Bulk ${operation.op} failed for ${singular}`, error);
+
+    const { code, message, field } = dbError ?? {
+      code: 'INTERNAL_ERROR' as const,
+      message: `Failed to ${operation.op} ${singular}`,
+    };
+    return {
+      ...base,
+      success: false,
+      status: API_ERRORS[code].status,
+      code,
+      error: message,
+      ...(field && { field }),
+    };
+  }
+
+  /**
+   * POST /api/{resources}/bulk
+   * Create, update and delete many records in one transaction
+   */
+  async function bulk(request: NextRequest) {
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const parsed = await parseJsonBody(request);
+    if (!parsed.ok) return parsed.response;
+
+    const envelope = bulkRequestSchema.safeParse(parsed.body);
+    if (!envelope.success) return validationError(request, envelope.error);
+    const { mode, operations } = envelope.data;
+
+    // Validate every item against the create/update schema before touching the database
+    const validated = operations.map((operation, index) => {
+      if (operation.op === 'delete') return { operation, index, data: undefined };
+
+      const schema = operation.op === 'create' ? createSchema : updateSchema;
+      const validationResult = schema.safeParse(operation.data);
+      if (validationResult.success) return { operation, index, data: validationResult.data };
+
+      const invalid: BulkItemResult = {
+        ...bulkItemBase(operation, index),
+        success: false,
+        status: API_ERRORS.VALIDATION_FAILED.status,
+        code: 'VALIDATION_FAILED',
+        error: 'Validation failed',
+        details: validationResult.error.format(),
+      };
+      return { operation, index, data: undefined, invalid };
+    });
+
+    if (mode === 'atomic' && validated.some((item) => item.invalid)) {
+      return apiError(request, {
+        code: 'VALIDATION_FAILED',
+        message: 'Validation failed',
+        details: validated.map((item) => item.invalid ?? notApplied(item.operation, item.index)),
+      });
+    }
+
+    const results: BulkItemResult[] = [];
+    const afterCommit: (() => Promise<void>)[] = [];
+
+    try {
+      await db.transaction(async (tx) => {
+        for (const { operation, index, data, invalid } of validated) {
+          if (invalid) {
+            results.push(invalid);
+            continue;
+          }
+
+          let outcome: Awaited<ReturnType<typeof applyOperation>>;
+          try {
+            // Partial mode: a savepoint per item, so one failure only undoes that item
+            outcome =
+              mode === 'partial'
+                ? await tx.transaction((savepoint) =>
+                    applyOperation(savepoint, request, scope, operation, data, index)
+                  )
+                : await applyOperation(tx, request, scope, operation, data, index);
+          } catch (error) {
+            outcome = { result: bulkFailure(request, operation, index, error) };
+          }
+
+          results.push(outcome.result);
+          if (outcome.after) afterCommit.push(outcome.after);
+          if (mode === 'atomic' && !outcome.result.success) throw new BulkRollback();
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof BulkRollback)) {
+        return failure(request, error, `Failed to run bulk ${singular} operations`);
+      }
+
+      // Everything before the failure was rolled back; everything after never ran
+      const failed = results[results.length - 1];
+      const reported = validated.map(({ operation, index }) =>
+        index === failed.index ? failed : notApplied(operation, index)
+      );
+      return apiError(request, {
+        code: failed.code ?? 'INTERNAL_ERROR',
+        message: `Operation ${failed.index} failed: ${failed.error}`,
+        details: reported,
+      });
+    }
+
+    for (const after of afterCommit) await after();
+
+    const succeeded = results.filter((result) => result.success).length;
+    const body: BulkResponseData = { mode, results, succeeded, failed: results.length - succeeded };
+
+    // 207 Multi-Status when a partial batch had failures
+    return NextResponse.json(
+      { success: body.failed === 0, data: body },
+      { status: body.failed === 0 ? 200 : 207 }
+    );
+  }
+
+  /**
+   * GET /api/{resources}/[id]/history
+   * Audit entries for a record, newest first. Still works after a permanent delete.
+   */
+  async function history(request: NextRequest, { params }: ItemRouteParams) {
+    const { id } = await params;
+    if (!auditConfig) return notFound(request);
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const { page, limit, offset } = parsePagination(request.nextUrl.searchParams);
+
+    try {
+      const { entries, total } = await getAuditHistory(entityType, id, { limit, offset });
+      // audit_log has no tenant column, so a scoped resource only shows history
+      // while the tenant still has the row (live or in the trash)
+      if ((scope.where || total === 0) && !(await findById(id, scope, true))) {
+        return notFound(request);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: entries,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      });
+    } catch (error) {
+      return failure(request, error, `Failed to fetch ${singular} history`);
+    }
+  }
+
+  const exportKeys = (config.export?.columns ?? {}) as Record<string, string>;
+  const exportColumns = Object.keys(exportKeys);
+
+  /**
+   * GET /api/{resources}/export
+   * Stream the list as CSV or NDJSON, with the same search and filters.
+   * Rows come out in id order so batches can page by keyset.
+   */
+  async function exportList(request: NextRequest) {
+    if (!config.export) return notFound(request);
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const searchParams = request.nextUrl.searchParams;
+    const search = searchParams.get('search') || undefined;
+
+    const format = searchParams.get('format') ?? 'csv';
+    if (!isExportFormat(format)) {
+      return apiError(request, { code: 'INVALID_QUERY', message: 'format must be csv or ndjson' });
+    }
+
+    const columnsParam = searchParams.get('columns');
+    const selected = columnsParam
+      ? columnsParam.split(',').map((column) => column.trim())
+      : exportColumns;
+    const unknown = selected.filter((column) => !exportColumns.includes(column));
+    if (selected.length === 0 || unknown.length > 0) {
+      return apiError(request, {
+        code: 'INVALID_QUERY',
+        message: `Unknown export columns: ${unknown.join(', ')}. Allowed: ${exportColumns.join(', ')}`,
+      });
+    }
+
+    const listQuery = parseListQuery(searchParams, listQueryAllowlist);
+    if (!listQuery.success) return invalidQuery(request, listQuery.error);
+
+    const where = and(
+      scope.where,
+      buildSearchCondition(searchFields, search, config.search),
+      listQuery.data.where,
+      notDeleted(wantsDeleted(request))
+    );
+
+    const headers =
+      format === 'csv'
+        ? await translateHeaders(
+            resolveLocale(request),
+            config.export.namespace ?? plural,
+            Object.fromEntries(selected.map((column) => [column, exportKeys[column]]))
+          )
+        : {};
+
+    const stream = createExportStream({
+      format,
+      columns: selected,
+      headers,
+      requestId: getRequestId(request),
+      fetchBatch: async (afterId, limit) =>
+        (await db
+          .select()
+          .from(sourceTable)
+          .where(and(where, afterId === null ? undefined : gt(table.id, afterId)))
+          .orderBy(asc(table.id))
+          .limit(limit)) as Record<string, unknown>[],
+    });
+
+    return exportResponse(stream, format, plural);
+  }
+
+  const importFields: string[] = config.import?.fields ?? [];
+
+  /** Read the multipart upload: the CSV file and the optional header -> field mapping */
+  async function readImportUpload(request: NextRequest) {
+    const invalid = (message: string, code: ApiErrorCode = 'INVALID_FILE') => ({
+      ok: false as const,
+      response: apiError(request, { code, message }),
+    });
+
+    // Reject oversized uploads before formData() reads the whole body; the
+    // extra 64 KB covers the multipart boundaries and the mapping field
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_IMPORT_BYTES + 64 * 1024) {
+      return invalid(
+        `File is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`,
+        'PAYLOAD_TOO_LARGE'
+      );
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return invalid('Expected multipart/form-data with a CSV file');
+    }
+
+    const file = form.get('file');
+    if (!(file instanceof File)) return invalid('Missing CSV file in the "file" field');
+    if (file.size > MAX_IMPORT_BYTES) {
+      return invalid(
+        `File is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`,
+        'PAYLOAD_TOO_LARGE'
+      );
+    }
+
+    let mapping: Record<string, string> = {};
+    const mappingField = form.get('mapping');
+    if (typeof mappingField === 'string' && mappingField) {
+      try {
+        mapping = JSON.parse(mappingField);
+      } catch {
+        return invalid('mapping must be a JSON object of header -> field', 'INVALID_JSON');
+      }
+    }
+
+    const stripFormulaGuard = request.nextUrl.searchParams.get('exported') === 'true';
+    const [header, ...rows] = parseCsv(await file.text(), { stripFormulaGuard });
+    const headers = header?.cells ?? [];
+    if (rows.length === 0) return invalid('The file has no data rows');
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return invalid(`Import at most ${MAX_IMPORT_ROWS} rows per file`, 'PAYLOAD_TOO_LARGE');
+    }
+
+    const columns = mapColumns(headers, importFields, mapping);
+    if (!columns.some((column) => column.field)) {
+      return invalid(`No column matches an importable field (${importFields.join(', ')})`);
+    }
+
+    return { ok: true as const, columns, rows };
+  }
+
+  /**
+   * POST /api/{resources}/import
+   * Validate and insert CSV rows, reporting failures row by row.
+   * Every row gets a savepoint, so one bad row never hides the next one's errors.
+   */
+  async function importCsv(request: NextRequest) {
+    if (!config.import) return notFound(request);
+
+    const scoped = await rowScope(request);
+    if (!scoped.ok) return scoped.response;
+    const { scope } = scoped;
+
+    const searchParams = request.nextUrl.searchParams;
+    const dryRun = searchParams.get('dryRun') === 'true';
+    const mode = searchParams.get('mode') ?? 'atomic';
+    if (mode !== 'atomic' && mode !== 'partial') {
+      return apiError(request, {
+        code: 'INVALID_QUERY',
+        message: 'mode must be atomic or partial',
+      });
+    }
+
+    const upload = await readImportUpload(request);
+    if (!upload.ok) return upload.response;
+    const { columns, rows } = upload;
+    const schema = config.import.schema ?? createSchema;
+
+    const errors: ImportRowError[] = [];
+    const afterCommit: (() => Promise<void>)[] = [];
+    let valid = 0;
+    let committed = false;
+
+    try {
+      await db.transaction(async (tx) => {
+        for (const { line: row, cells } of rows) {
+          const values = Object.fromEntries(
+            columns.map(({ header }, column) => [header, cells[column] ?? ''])
+          );
+
+          // Empty cells are left out, so optional fields and defaults apply
+          const input = Object.fromEntries(
+            columns.flatMap(({ field }, column) =>
+              field && cells[column] ? [[field, cells[column]]] : []
+            )
+          );
+          const validationResult = schema.safeParse(input);
+          if (!validationResult.success) {
+            errors.push({
+              row,
+              values,
+              code: 'VALIDATION_FAILED',
+              error: 'Validation failed',
+              details: validationResult.error.format(),
+            });
+            continue;
+          }
+
+          const operation: BulkOperation = { op: 'create', data: validationResult.data };
+          let outcome: Awaited<ReturnType<typeof applyOperation>>;
+          try {
+            outcome = await tx.transaction((savepoint) =>
+              applyOperation(savepoint, request, scope, operation, validationResult.data, row)
+            );
+          } catch (error) {
+            outcome = { result: bulkFailure(request, operation, row, error) };
+          }
+
+          const { result } = outcome;
+          if (result.success) {
+            valid++;
+            if (outcome.after) afterCommit.push(outcome.after);
+          } else {
+            errors.push({
+              row,
+              values,
+              code: result.code,
+              error: result.error ?? `Failed to import ${singular}`,
+              ...(result.field && { field: result.field }),
+              ...(result.details !== undefined && { details: result.details }),
+            });
+          }
+        }
+
+        if (dryRun || (mode === 'atomic' && errors.length > 0)) throw new BulkRollback();
+        committed = true;
+      });
+    } catch (error) {
+      if (!(error instanceof BulkRollback)) {
+        return failure(request, error, `Failed to import ${plural}`);
+      }
+    }
+
+    if (committed) {
+      for (const after of afterCommit) await after();
+    }
+
+    const report: ImportReport = {
+      dryRun,
+      mode,
+      columns,
+      total: rows.length,
+      valid,
+      failed: errors.length,
+      imported: committed ? valid : 0,
+      errors,
+    };
+
+    // 207 Multi-Status when any row failed, as for a partial bulk request
+    return NextResponse.json(
+      { success: errors.length === 0, data: report },
+      { status: errors.length === 0 ? 200 : 207 }
+    );
+  }
+
+  const idempotent = <THandler extends (request: NextRequest) => Promise<NextResponse>>(
+    handler: THandler
+  ) => (config.idempotent ? withIdempotency(handler) : handler);
+
+  return {
+    collection: { GET: list, POST: idempotent(create) },
+    item: { GET: getOne, PATCH: update, DELETE: remove },
+    restore: { POST: restore },
+    bulk: { POST: idempotent(bulk) },
+    history: { GET: history },
+    export: { GET: exportList },
+    import: { POST: importCsv },
+    resource: {
+      resourceName,
+      resourcePlural: plural,
+      table,
+      createSchema,
+      updateSchema,
+      searchable: (searchFields?.length ?? 0) > 0,
+      sortable: Object.keys(listQueryAllowlist.sortable ?? {}),
+      filterable: Object.fromEntries(
+        Object.entries(listQueryAllowlist.filterable ?? {}).map(([field, { operators }]) => [
+          field,
+          operators,
+        ])
+      ),
+      selectable: fieldsetAllowlist.selectable ?? [],
+      includable: fieldsetAllowlist.includable ?? {},
+      ...(config.cursor && {
+        cursor: { field: config.cursor.field, order: config.cursor.order ?? 'desc' },
+      }),
+      versioned: versionField !== undefined,
+      softDelete: deletedAtColumn !== undefined,
+      idempotent: config.idempotent ?? false,
+      audited: auditConfig !== undefined,
+      exportColumns,
+      importFields,
+      rateLimited: { read: false, write: false },
+    },
+  };
+}
+
+// ========== CHECKLIST ==========
+/*
+When adding a resource with the factory:
+
+1. Define the resource once:
+   - src/lib/server/resources/{resources}.ts calls createCrudHandlers()
+   - resourceName is the singular display name ('User', 'Organisation')
+   - Set resourcePlural when lowercase + 's' is wrong ('entities', 'people')
+
+2. Route files are one line each:
+   - Collection: export const { GET, POST } = handlers.collection;
+   - Item: export const { GET, PATCH, DELETE } = handlers.item;
+   - Restore (softDelete only): export const { POST } = handlers.restore;
+   - Bulk: export const { POST } = handlers.bulk; in {resources}/bulk/route.ts
+
+3. Search:
+   - List the columns users search in searchFields
+   - Pick a strategy: search: { strategy: 'ilike' | 'trigram' | 'fulltext' }
+   - Add the indexes that strategy needs (migration snippets in search.ts)
+
+4. Sorting and filtering (optional):
+   - sortable: ['name', 'createdAt'] enables ?sort=-createdAt,name
+   - filterable: { status: ['eq', 'in'] } enables ?filter[status][in]=active,pending
+   - Anything not listed returns 400 'Invalid query parameters'
+   - selectable: ['name', 'createdAt'] enables ?fields=name,createdAt on GET routes
+   - includable: { query: 'entities', relations: { organisation: ['id', 'name'] } }
+     enables ?include=organisation (needs relations() in the drizzle() schema)
+
+5. Concurrency (automatic):
+   - GET item returns an ETag from `version` (preferred) or `updatedAt`
+   - PATCH/DELETE with a stale If-Match return 412 with the current record
+   - Requests without If-Match keep last-write-wins behaviour
+
+6. Soft delete (optional):
+   - Add a nullable deletedAt timestamp column and set softDelete: true
+   - DELETE moves to trash, DELETE ?permanent=true removes the row
+   - Lists and GET item skip deleted rows unless ?includeDeleted=true
+   - Trash view: ?includeDeleted=true&filter[deletedAt][isNull]=false
+   - Make unique indexes partial (WHERE deleted_at IS NULL) so trashed rows don't block reuse
+
+7. Cursor pagination (optional, for large tables):
+   - Set cursor: { field: 'createdAt', order: 'desc' }
+   - Add a composite index on (createdAt, id)
+   - Clients opt in with ?cursor= (empty for the first page)
+
+8. Bulk operations (optional):
+   - Body: { mode?: 'atomic' | 'partial', operations: [{ op, id?, data? }] } (max 100)
+   - Items are validated with createSchema/updateSchema before anything runs
+   - atomic: one failure rolls back the batch and returns its status
+   - partial: per-item savepoints, 207 when some items failed
+   - after* hooks run only for committed items
+
+9. Permissions:
+   - Wrap the handlers: withCrudAuth(createCrudHandlers({ ... }), 'entities') (auth.ts)
+   - Needs entities:read / create / update / delete; bulk needs all three writes
+   - Hooks read the signed-in user with getAuthUser(request)
+   - Wrap that in withCrudLogging(..., '/api/entities') (logger.ts) for access logs
+     and x-request-id; unexpected errors are logged with the request id
+   - Throttle with withCrudRateLimit(withCrudAuth(...), 'entities', { read, write })
+     (rate-limit.ts) inside withCrudLogging; over the limit returns 429 with Retry-After
+
+10. Multi-tenancy (optional):
+    - Give the table a non-null organisationId column and set tenant: true
+      (tenant: { field: 'workspaceId' } for another column)
+    - Reads, counts, updates and deletes add organisationId = tenant; inserts stamp it
+    - Another tenant's ids return 404; users without a tenant get 403
+    - Leave organisationId out of createSchema/updateSchema: it comes from the session
+    - Lead indexes (unique ones too) with organisationId
+    - Per-user rows (saved views, drafts): a non-null userId column and owner: true;
+      other users' rows are 404 and signed-out requests get 401 (see saved-views.ts)
+
+11. Idempotency (optional):
+    - Add the idempotency_keys table (see idempotency.ts) and set idempotent: true
+    - POST create and bulk replay the first response for a repeated Idempotency-Key
+    - Same key with a different body returns 422 IDEMPOTENCY_KEY_REUSED
+
+12. Audit trail (optional):
+    - Add the audit_log table (see audit.ts) and set audit: true
+    - Item routes and bulk operations write the change and its diff in one transaction
+    - History: export const { GET } = handlers.history; in {resources}/[id]/history/route.ts
+
+13. Export (optional):
+    - export: { columns: { name: 'fields.name', email: 'fields.email' } }
+    - Route: export const { GET } = handlers.export; in {resources}/export/route.ts
+    - ?format=csv|ndjson&columns=name,email&locale=de plus the list's search and filters
+    - CSV headers are translated from src/lib/i18n/locales/{locale}/{resources}.json
+
+14. Import (optional):
+    - import: { fields: ['name', 'email'] } (schema defaults to createSchema; use z.coerce)
+    - Route: export const { POST } = handlers.import; in {resources}/import/route.ts
+    - multipart file + optional mapping; ?dryRun=true reports without writing
+    - mode=atomic (default) imports all rows or none; partial skips failed rows
+    - ?exported=true strips the export's formula-guard apostrophes; cells are otherwise kept as written
+
+15. Hooks (optional):
+    - beforeCreate / beforeUpdate can transform input (e.g. generate a slug)
+    - Return a NextResponse from a before* hook to stop the operation
+    - after* hooks run after the write (e.g. send notifications)
+
+16. API docs:
+    - Register the handlers in src/lib/server/resources/index.ts (see openapi.ts)
+    - Regenerate openapi.json: npx tsx scripts/generate-openapi.ts
+
+17. Client and tests:
+    - Same as route-template.ts: createResourceClient in src/lib/api/{resources}.ts, tested with a fake `fetch`
+*/
@@ -0,0 +1,119 @@
+/**
+ * CSV Helpers
+ *
+ * Copy this file to src/lib/csv.ts.
+ *
+ * RFC 4180 parsing and quoting, shared by the export and import routes and by
+ * client code that builds CSV files (e.g. the import dialog's error file), so
+ * it has no server-only imports.
+ */
+
+/** Byte order mark. Excel needs it to open UTF-8 files correctly */
+export const CSV_BOM = '\uFEFF';
+
+function toCellValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Leading characters that make spreadsheet apps treat a cell as a formula */
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV cell (RFC 4180). Strings starting with =, +, - or @ get a
+ * leading apostrophe so spreadsheet apps don't run them as formulas; numbers
+ * such as -5 are written as they are. parseCsv's `stripFormulaGuard` removes
+ * the apostrophe again when re-importing such a file.
+ */
+export function csvCell(value: unknown): string {
+  let text = toCellValue(value);
+  if (typeof value === 'string' && FORMULA_TRIGGER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV line, CRLF-terminated */
+export function csvLine(values: unknown[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+export interface CsvRow {
+  /** Line in the file where the row starts (first line = 1) */
+  line: number;
+  cells: string[];
+}
+
+/** Undo csvCell's formula guard: "'=SUM(A1)" -> "=SUM(A1)" */
+function unguardCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_TRIGGER.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas, quotes
+ * and line breaks, CRLF or LF line endings and a leading byte order mark.
+ * Blank lines are skipped but still counted, so `line` points at the row in
+ * the file even after blank lines or multi-line cells.
+ *
+ * Cells are returned as written. With `stripFormulaGuard`, one leading
+ * apostrophe before =, +, - or @ is removed, undoing csvCell; only use it for
+ * files this app wrote, as it would change genuine values such as '+44.
+ *
+ * @example
+ * parseCsv('name,email\r\n\r\n"Acme, Inc",hello@acme.test\r\n');
+ * // [{ line: 1, cells: ['name', 'email'] }, { line: 3, cells: ['Acme, Inc', 'hello@acme.test'] }]
+ */
+export function parseCsv(
+  text: string,
+  { stripFormulaGuard = false }: { stripFormulaGuard?: boolean } = {}
+): CsvRow[] {
+  const input = text.startsWith(CSV_BOM) ? text.slice(1) : text;
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endCell = () => {
+    row.push(stripFormulaGuard ? unguardCell(cell) : cell);
+    cell = '';
+  };
+
+  const endRow = () => {
+    endCell();
+    if (row.some((value) => value !== '')) rows.push({ line: rowLine, cells: row });
+    row = [];
+    rowLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        // A line break inside a quoted cell still starts a new line in the file
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,161 @@
+/**
+ * Cursor (Keyset) Pagination Helpers
+ *
+ * Copy this file to src/lib/server/cursor-pagination.ts.
+ *
+ * Offset pagination (`?page=`) re-counts the table on every request and skips or
+ * repeats rows when data changes between pages. Cursor mode pages on a stable
+ * sort key instead: `(sortColumn, id)` compared as a row value, so the query
+ * stays on the composite index however deep the user scrolls.
+ *
+ * Request:  GET /api/entities?cursor=&limit=50        (first page)
+ *           GET /api/entities?cursor=<nextCursor>     (following pages)
+ *           GET /api/entities?cursor=<c>&count=true   (also return total)
+ *
+ * Response: { success, data, pagination: { limit, nextCursor, prevCursor, total? } }
+ *
+ * IMPORTANT: The sort value must survive a JSON round trip exactly. JavaScript
+ * Dates only keep milliseconds, so declare cursor timestamp columns with
+ * `timestamp('created_at', { precision: 3 })` or page on an integer column.
+ */
+
+import { asc, desc, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// ========== TYPES ==========
+
+export type CursorDirection = 'next' | 'prev';
+export type SortOrder = 'asc' | 'desc';
+
+export interface CursorPayload {
+  value: string | number;
+  id: string;
+  direction: CursorDirection;
+}
+
+export interface CursorPaginationMetadata {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number; // Only when ?count=true
+}
+
+export interface KeysetOptions {
+  /** Stable sort column, e.g. entities.createdAt */
+  column: AnyPgColumn;
+  /** Unique tie-breaker, normally the primary key */
+  idColumn: AnyPgColumn;
+  order: SortOrder;
+}
+
+// ========== CURSOR ENCODING ==========
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/** Returns null for anything that isn't a cursor this module produced */
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      (typeof payload.value === 'string' || typeof payload.value === 'number') &&
+      typeof payload.id === 'string' &&
+      (payload.direction === 'next' || payload.direction === 'prev')
+    ) {
+      return payload as CursorPayload;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function toCursorValue(value: unknown): string | number {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return value;
+  return String(value);
+}
+
+// ========== QUERY BUILDING ==========
+
+/**
+ * Read cursor mode from the query string.
+ * Returns null when the request uses offset pagination (no `cursor` param).
+ * An empty `?cursor=` requests the first page in cursor mode.
+ */
+export function parseCursorParams(searchParams: URLSearchParams) {
+  if (!searchParams.has('cursor')) return null;
+
+  const raw = searchParams.get('cursor') || '';
+  const cursor = raw ? decodeCursor(raw) : null;
+
+  return {
+    cursor,
+    invalid: raw !== '' && cursor === null,
+    includeCount: searchParams.get('count') === 'true',
+  };
+}
+
+/**
+ * WHERE condition for rows after (direction 'next') or before ('prev') the cursor.
+ * Uses a row comparison so Postgres can walk a composite (column, id) index.
+ */
+export function keysetCondition(options: KeysetOptions, cursor: CursorPayload): SQL {
+  const { column, idColumn, order } = options;
+  const forward = cursor.direction === 'next';
+  const greater = (order === 'asc') === forward;
+
+  return greater
+    ? sql`(${column}, ${idColumn}) > (${cursor.value}, ${cursor.id})`
+    : sql`(${column}, ${idColumn}) < (${cursor.value}, ${cursor.id})`;
+}
+
+/**
+ * ORDER BY for a page. Backwards pages are fetched in reverse order and
+ * flipped back in buildCursorPage().
+ */
+export function keysetOrderBy(options: KeysetOptions, direction: CursorDirection): SQL[] {
+  const { column, idColumn, order } = options;
+  const ascending = (order === 'asc') === (direction === 'next');
+
+  return ascending ? [asc(column), asc(idColumn)] : [desc(column), desc(idColumn)];
+}
+
+/**
+ * Turn `limit + 1` fetched rows into a page and its cursors.
+ *
+ * @param rows - Result of the query, fetched with limit + 1 to detect more rows
+ * @param cursor - The decoded request cursor (null for the first page)
+ * @param getKey - Reads the sort value and id from a row
+ */
+export function buildCursorPage<T>(
+  rows: T[],
+  limit: number,
+  cursor: CursorPayload | null,
+  getKey: (row: T) => { value: unknown; id: string }
+) {
+  const direction = cursor?.direction ?? 'next';
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const items = direction === 'prev' ? page.reverse() : page;
+
+  const cursorFor = (row: T | undefined, dir: CursorDirection) => {
+    if (!row) return null;
+    const key = getKey(row);
+    return encodeCursor({ value: toCursorValue(key.value), id: key.id, direction: dir });
+  };
+
+  // Going forward: more rows ahead if we over-fetched; rows behind if we had a cursor.
+  // Going backward: the reverse.
+  const hasNext = direction === 'next' ? hasMore : true;
+  const hasPrev = direction === 'next' ? cursor !== null : hasMore;
+
+  return {
+    items,
+    nextCursor: hasNext ? cursorFor(items[items.length - 1], 'next') : null,
+    prevCursor: hasPrev ? cursorFor(items[0], 'prev') : null,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * API Docs Route Template (optional)
+ *
+ * Copy this file to src/app/api/docs/route.ts.
+ *
+ * Serves the OpenAPI spec generated from the registered resources, so it is
+ * always in step with the running code. Point Swagger UI, Redoc or a client
+ * generator at /api/docs.
+ *
+ * The route requires a session. To publish the spec, add '/api/docs' to
+ * PUBLIC_PATHS in src/proxy.ts and drop the withAuth() wrapper.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/server/auth';
+import { generateOpenApiSpec } from '@/lib/server/openapi';
+import { apiResources } from '@/lib/server/resources';
+
+// Built once per server instance; the resources don't change at runtime
+const spec = generateOpenApiSpec({
+  title: 'API', // TODO: Your app name
+  version: '1.0.0',
+  resources: apiResources,
+});
+
+/**
+ * GET /api/docs
+ * OpenAPI 3.1 document
+ */
+export const GET = withAuth(async () => NextResponse.json(spec));
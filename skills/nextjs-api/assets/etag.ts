@@ -0,0 +1,52 @@
+/**
+ * ETag Helpers
+ *
+ * Copy this file to src/lib/etag.ts.
+ *
+ * Shared by route handlers (to emit and check ETags) and client code (to send
+ * If-Match for the version a dialog was opened with). It has no server-only
+ * imports so it can be bundled into client components.
+ *
+ * ETags are derived from the record's version column (`version`) or, failing
+ * that, `updatedAt` in milliseconds. Both survive the JSON round trip, so the
+ * client can compute the same ETag from a record it received in a list.
+ * Integer and string versions are used as-is and compared as opaque strings.
+ */
+
+export type VersionValue = Date | string | number;
+
+/** A Date after JSON serialisation, e.g. 2026-01-01T00:00:00.000Z */
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * ETag for a record version.
+ *
+ * @example
+ * etagFor(entity.updatedAt) // '"1767225600000"'
+ * etagFor(entity.version)   // '"7"'
+ * etagFor('a1b2c3')         // '"a1b2c3"'
+ */
+export function etagFor(version: VersionValue): string {
+  if (version instanceof Date) return `"${version.getTime()}"`;
+  if (typeof version === 'number') return `"${version}"`;
+
+  // Timestamps arrive as ISO strings after JSON serialisation. Any other string
+  // is an opaque version: Date.parse would read "7" as the year 2007
+  if (ISO_TIMESTAMP.test(version)) return `"${Date.parse(version)}"`;
+  return `"${version}"`;
+}
+
+/**
+ * Check an If-Match header against the current ETag.
+ * A missing header is allowed, so clients that don't send one keep the
+ * last-write-wins behaviour.
+ */
+export function ifMatchSatisfied(ifMatch: string | null, currentETag: string): boolean {
+  if (!ifMatch) return true;
+  if (ifMatch.trim() === '*') return true;
+
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .includes(currentETag);
+}
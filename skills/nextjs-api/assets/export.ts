@@ -0,0 +1,209 @@
+/**
+ * Streaming CSV / NDJSON Export
+ *
+ * Copy this file to src/lib/server/export.ts.
+ *
+ * Streams list results to the client in batches, so an export of a million
+ * rows holds one batch in memory at a time. createCrudHandlers serves it as
+ * GET /api/{resources}/export when `export` is configured:
+ *
+ *   GET /api/entities/export?format=csv&search=acme&columns=name,email&locale=de
+ *
+ * - format:  csv (default) or ndjson
+ * - columns: comma-separated subset of the exportable columns, in output order
+ * - locale:  language of the CSV header row; defaults to Accept-Language
+ * - search and filter[...] work as on the list route
+ *
+ * Header labels come from the app's translation files
+ * (src/lib/i18n/locales/{locale}/{namespace}.json), falling back to English
+ * and then to the field name.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CSV_BOM, csvLine } from '@/lib/csv';
+import { logger } from '@/lib/server/logger';
+
+// ========== TYPES ==========
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/** Rows fetched per query. Keep it small enough that a batch fits comfortably in memory */
+export const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Returns the rows after `afterId` (all rows when null), ordered by id.
+ * Keyset paging keeps each batch query fast however deep the export gets.
+ */
+export type ExportBatchFetcher = (
+  afterId: string | null,
+  limit: number
+) => Promise<Record<string, unknown>[]>;
+
+export interface ExportStreamOptions {
+  format: ExportFormat;
+  /** Fields to output, in order */
+  columns: string[];
+  /** Field -> header label (CSV only) */
+  headers: Record<string, string>;
+  fetchBatch: ExportBatchFetcher;
+  batchSize?: number;
+  /** Logged if a batch fails, since the response has already been sent */
+  requestId?: string;
+}
+
+const DEFAULT_LOCALE = 'en';
+
+// TODO: Match the languages in src/lib/i18n/config.ts
+const SUPPORTED_LOCALES = ['en'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// ========== FORMATTING ==========
+
+function formatRow(row: Record<string, unknown>, columns: string[], format: ExportFormat) {
+  if (format === 'ndjson') {
+    return `${JSON.stringify(Object.fromEntries(columns.map((column) => [column, row[column] ?? null])))}\n`;
+  }
+  return csvLine(columns.map((column) => row[column]));
+}
+
+// ========== LOCALE ==========
+
+/** `?locale=` first, then the best Accept-Language match, then English */
+export function resolveLocale(request: NextRequest, supported = SUPPORTED_LOCALES): string {
+  const requested = [
+    request.nextUrl.searchParams.get('locale'),
+    ...(request.headers.get('accept-language') ?? '')
+      .split(',')
+      .map((part) => part.split(';')[0].trim()),
+  ];
+
+  for (const candidate of requested) {
+    if (!candidate) continue;
+    const language = candidate.toLowerCase().split('-')[0];
+    if (supported.includes(candidate)) return candidate;
+    if (supported.includes(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+async function loadMessages(locale: string, namespace: string) {
+  try {
+    return (await import(`@/lib/i18n/locales/${locale}/${namespace}.json`)).default as Record<
+      string,
+      unknown
+    >;
+  } catch {
+    return null;
+  }
+}
+
+function lookup(messages: Record<string, unknown> | null, key: string): string | undefined {
+  const value = key
+    .split('.')
+    .reduce<unknown>(
+      (node, part) =>
+        node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined,
+      messages
+    );
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Translate header labels for the export.
+ *
+ * @example
+ * await translateHeaders('de', 'entities', { name: 'fields.name', email: 'fields.email' });
+ * // { name: 'Name', email: 'E-Mail' }
+ */
+export async function translateHeaders(
+  locale: string,
+  namespace: string,
+  keys: Record<string, string>
+): Promise<Record<string, string>> {
+  const messages = await loadMessages(locale, namespace);
+  const fallback = locale === DEFAULT_LOCALE ? null : await loadMessages(DEFAULT_LOCALE, namespace);
+
+  return Object.fromEntries(
+    Object.entries(keys).map(([field, key]) => [
+      field,
+      lookup(messages, key) ?? lookup(fallback, key) ?? field,
+    ])
+  );
+}
+
+// ========== STREAM ==========
+
+/**
+ * Stream rows as CSV or NDJSON. Batches are fetched on demand, so a slow
+ * client slows the queries down instead of filling memory.
+ */
+export function createExportStream(options: ExportStreamOptions): ReadableStream<Uint8Array> {
+  const {
+    format,
+    columns,
+    headers,
+    fetchBatch,
+    batchSize = EXPORT_BATCH_SIZE,
+    requestId,
+  } = options;
+  const encoder = new TextEncoder();
+  let afterId: string | null = null;
+  let done = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        const header = csvLine(columns.map((column) => headers[column] ?? column));
+        controller.enqueue(encoder.encode(CSV_BOM + header));
+      }
+    },
+
+    async pull(controller) {
+      if (done) return;
+
+      try {
+        const rows = await fetchBatch(afterId, batchSize);
+        if (rows.length > 0) {
+          controller.enqueue(
+            encoder.encode(rows.map((row) => formatRow(row, columns, format)).join(''))
+          );
+          afterId = String(rows[rows.length - 1].id);
+        }
+        if (rows.length < batchSize) {
+          done = true;
+          controller.close();
+        }
+      } catch (error) {
+        // Headers are already sent, so the client sees a truncated download
+        logger.error('Export failed', { requestId, error });
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/** Streaming response with download headers, e.g. entities-2026-03-01.csv */
+export function exportResponse(
+  stream: ReadableStream<Uint8Array>,
+  format: ExportFormat,
+  name: string
+): NextResponse {
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${name}-${date}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Sparse Fieldsets & Relation Expansion
+ *
+ * Copy this file to src/lib/server/fieldsets.ts.
+ *
+ * Lets GET routes return fewer columns and embed related rows, against a
+ * per-resource allowlist:
+ *
+ *   ?fields=id,name,createdAt        only these columns (id is always returned)
+ *   ?include=organisation,members    related rows from Drizzle relations()
+ *
+ * Unknown fields and relations are rejected with a ZodError, like ?sort= and
+ * ?filter[...] in list-query.ts. Relations are loaded in one extra query per
+ * request with the relational query API (db.query), never one per row, so the
+ * table and its relations() must be in the schema passed to drizzle():
+ *
+ *   // src/db/schema.ts
+ *   export const entitiesRelations = relations(entities, ({ one, many }) => ({
+ *     organisation: one(organisations, {
+ *       fields: [entities.organisationId],
+ *       references: [organisations.id],
+ *     }),
+ *     members: many(users),
+ *   }));
+ *
+ * Clients narrow their response types with Fieldset<> to match the request.
+ */
+
+import { z } from 'zod';
+import { getTableColumns, inArray } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+
+// ========== TYPES ==========
+
+export interface FieldsetAllowlist {
+  /** Fields that may appear in ?fields= */
+  selectable?: string[];
+  /** Relation name -> fields of the related rows that ?include= may return */
+  includable?: Record<string, string[]>;
+}
+
+export interface FieldSelection {
+  /** Requested fields, or undefined for every column */
+  fields: string[] | undefined;
+  include: string[];
+}
+
+export type FieldSelectionResult =
+  { success: true; data: FieldSelection } | { success: false; error: z.ZodError };
+
+/**
+ * The record as returned for a request: the selected fields (plus id) and the
+ * included relations. `TRelations` maps relation names to their returned shape.
+ *
+ * @example
+ * interface EntityRelations {
+ *   organisation: Pick<Organisation, 'id' | 'name'> | null;
+ *   members: Pick<User, 'id' | 'name'>[];
+ * }
+ *
+ * // GET /api/entities?fields=name,createdAt&include=organisation
+ * type EntityRow = Fieldset<Entity, 'name' | 'createdAt', EntityRelations, 'organisation'>;
+ * // { id: string; name: string; createdAt: Date; organisation: { id; name } | null }
+ */
+export type Fieldset<
+  TRecord,
+  TField extends keyof TRecord = keyof TRecord,
+  TRelations = Record<never, never>,
+  TInclude extends keyof TRelations = never,
+> = Pick<TRecord, TField | Extract<'id', keyof TRecord>> & Pick<TRelations, TInclude>;
+
+/** The part of a db.query table builder used to load relations */
+export interface RelationalQuery {
+  findMany(config: {
+    where: SQL;
+    columns: Record<string, true>;
+    with: Record<string, { columns: Record<string, true> }>;
+  }): Promise<Record<string, unknown>[]>;
+}
+
+// ========== PARSER ==========
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+/**
+ * Parse ?fields= and ?include= against the allowlist.
+ *
+ * @example
+ * const selection = parseFieldSelection(request.nextUrl.searchParams, {
+ *   selectable: ['name', 'email', 'createdAt'],
+ *   includable: { organisation: ['id', 'name'] },
+ * });
+ * if (!selection.success) {
+ *   return apiError(request, {
+ *     code: 'INVALID_QUERY',
+ *     message: 'Invalid query parameters',
+ *     details: selection.error.format(),
+ *   });
+ * }
+ */
+export function parseFieldSelection(
+  searchParams: URLSearchParams,
+  allowlist: FieldsetAllowlist
+): FieldSelectionResult {
+  const issues: z.ZodIssue[] = [];
+  const addIssue = (path: string[], message: string) =>
+    issues.push({ code: z.ZodIssueCode.custom, path, message });
+
+  const selectable = allowlist.selectable ?? [];
+  const includable = allowlist.includable ?? {};
+
+  const fieldsParam = searchParams.get('fields');
+  let fields: string[] | undefined;
+  if (fieldsParam !== null) {
+    fields = [];
+    for (const field of splitList(fieldsParam)) {
+      if (field === 'id' || selectable.includes(field)) fields.push(field);
+      else addIssue(['fields'], `Cannot select "${field}"`);
+    }
+    if (fields.length === 0 && issues.length === 0) addIssue(['fields'], 'No fields selected');
+  }
+
+  const include: string[] = [];
+  for (const relation of splitList(searchParams.get('include') ?? '')) {
+    if (Object.hasOwn(includable, relation)) include.push(relation);
+    else addIssue(['include'], `Cannot include "${relation}"`);
+  }
+
+  if (issues.length > 0) {
+    return { success: false, error: new z.ZodError(issues) };
+  }
+  return { success: true, data: { fields, include: [...new Set(include)] } };
+}
+
+// ========== SELECTING ==========
+
+/**
+ * Columns for db.select(): the requested fields plus any the route needs
+ * itself (id, a cursor or version field). Undefined means every column.
+ */
+export function selectColumns(
+  table: PgTable,
+  fields: string[] | undefined,
+  required: string[] = []
+): Record<string, AnyPgColumn> | undefined {
+  if (!fields) return undefined;
+
+  const columns = getTableColumns(table) as Record<string, AnyPgColumn>;
+  return Object.fromEntries(
+    [...new Set(['id', ...fields, ...required])].map((field) => [field, columns[field]])
+  );
+}
+
+/** Drop fields that were only selected for the route's own use */
+export function projectRow<TRow extends Record<string, unknown>>(
+  row: TRow,
+  fields: string[] | undefined
+): Partial<TRow> {
+  if (!fields) return row;
+  return Object.fromEntries(
+    Object.entries(row).filter(([field]) => field === 'id' || fields.includes(field))
+  ) as Partial<TRow>;
+}
+
+// ========== INCLUDES ==========
+
+const columnFlags = (fields: string[]) =>
+  Object.fromEntries(fields.map((field) => [field, true as const]));
+
+/**
+ * Attach the included relations to each row, keyed by relation name.
+ * Missing to-one relations become null; to-many relations an array.
+ *
+ * @example
+ * const items = await attachIncludes(db.query.entities, entities.id, rows, ['organisation'], {
+ *   organisation: ['id', 'name'],
+ * });
+ */
+export async function attachIncludes<TRow extends Record<string, unknown>>(
+  query: RelationalQuery,
+  idColumn: AnyPgColumn,
+  rows: TRow[],
+  include: string[],
+  includable: Record<string, string[]>
+): Promise<TRow[]> {
+  if (include.length === 0 || rows.length === 0) return rows;
+
+  const related = await query.findMany({
+    where: inArray(
+      idColumn,
+      rows.map((row) => row.id)
+    ),
+    columns: { id: true },
+    with: Object.fromEntries(
+      include.map((relation) => [relation, { columns: columnFlags(includable[relation]) }])
+    ),
+  });
+  const byId = new Map(related.map((row) => [row.id, row]));
+
+  return rows.map((row) => ({
+    ...row,
+    ...Object.fromEntries(
+      include.map((relation) => [relation, byId.get(row.id)?.[relation] ?? null])
+    ),
+  }));
+}
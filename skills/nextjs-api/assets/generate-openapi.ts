@@ -0,0 +1,46 @@
+/**
+ * OpenAPI Generator Script
+ *
+ * Copy this file to scripts/generate-openapi.ts.
+ *
+ *   npx tsx scripts/generate-openapi.ts          write openapi.json
+ *   npx tsx scripts/generate-openapi.ts --check  exit 1 when openapi.json is out of date
+ *
+ * Run --check in CI (or the pre-commit hook) so a schema change can't ship
+ * without the spec that partner teams read.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { generateOpenApiSpec } from '@/lib/server/openapi';
+import { apiResources } from '@/lib/server/resources';
+
+const OUTPUT_PATH = 'openapi.json';
+
+async function main() {
+  const spec = generateOpenApiSpec({
+    title: 'API', // TODO: Your app name
+    version: '1.0.0',
+    resources: apiResources,
+  });
+  const generated = `${JSON.stringify(spec, null, 2)}\n`;
+
+  if (process.argv.includes('--check')) {
+    const committed = await readFile(OUTPUT_PATH, 'utf8').catch(() => null);
+    if (committed !== generated) {
+      console.error(
+        `${OUTPUT_PATH} is out of date. Run: npx tsx scripts/generate-openapi.ts and commit the result`
+      );
+      process.exit(1);
+    }
+    console.log(`${OUTPUT_PATH} is up to date`);
+    return;
+  }
+
+  await writeFile(OUTPUT_PATH, generated);
+  console.log(`Wrote ${OUTPUT_PATH} (${Object.keys(spec.paths).length} paths)`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+/**
+ * Idempotency-Key Support
+ *
+ * Copy this file to src/lib/server/idempotency.ts and add the idempotencyKeys
+ * table below to src/db/schema.ts.
+ *
+ * Clients send a unique key with a POST. Retries and double-clicks with the
+ * same key get the first response back instead of creating a second row:
+ *
+ *   POST /api/entities  Idempotency-Key: 5f0c...  -> 201 (stored)
+ *   POST /api/entities  Idempotency-Key: 5f0c...  -> 201 (replayed, Idempotent-Replayed: true)
+ *   Same key, different body                      -> 422 IDEMPOTENCY_KEY_REUSED
+ *   Same key while the first is still running    -> 409 IDEMPOTENCY_IN_PROGRESS
+ *
+ * Only 2xx responses are stored, with their ETag, Location and x-request-id
+ * headers. Errors release the key, so a client can fix the request and retry
+ * with the same key. If storing the response fails, the response is still
+ * sent and the key released. Requests without the header pass straight
+ * through.
+ *
+ * Schema (src/db/schema.ts):
+ *
+ *   export const idempotencyKeys = pgTable(
+ *     'idempotency_keys',
+ *     {
+ *       scope: varchar('scope', { length: 512 }).notNull(), // method, path and user
+ *       key: varchar('key', { length: 255 }).notNull(),
+ *       requestHash: varchar('request_hash', { length: 64 }).notNull(),
+ *       status: integer('status'), // null while the first request is running
+ *       responseBody: jsonb('response_body'),
+ *       responseHeaders: jsonb('response_headers').$type<Record<string, string>>(),
+ *       createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+ *     },
+ *     (table) => [primaryKey({ columns: [table.scope, table.key] })]
+ *   );
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { and, eq, lt } from 'drizzle-orm';
+import { db } from '@/db';
+import { idempotencyKeys } from '@/db/schema';
+import { apiError } from '@/lib/server/api-errors';
+import { getAuthUser } from '@/lib/server/auth';
+import { getRequestId, logRequestError, REQUEST_ID_HEADER } from '@/lib/server/logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+/** Response headers replayed along with the body */
+const REPLAYED_HEADERS = ['ETag', 'Location'];
+
+/** Keys are forgotten after 24 hours and may then be reused */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface WithIdempotencyOptions {
+  /** How long a stored response is replayed. Default: 24 hours */
+  ttlMs?: number;
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Keys are per route, per user and per tenant, so two users can't collide on a
+ * key and a user in several organisations never gets another one's replay
+ */
+function scopeFor(request: NextRequest) {
+  const user = getAuthUser(request);
+  const tenant = user?.organisationId ? `@${user.organisationId}` : '';
+  return `${request.method} ${request.nextUrl.pathname}${user ? ` ${user.id}${tenant}` : ''}`;
+}
+
+/** Insert the key. Returns false when another request already holds it */
+async function claim(scope: string, key: string, requestHash: string, ttlMs: number) {
+  // An expired claim no longer counts
+  await db
+    .delete(idempotencyKeys)
+    .where(
+      and(
+        eq(idempotencyKeys.scope, scope),
+        eq(idempotencyKeys.key, key),
+        lt(idempotencyKeys.createdAt, new Date(Date.now() - ttlMs))
+      )
+    );
+
+  const inserted = await db
+    .insert(idempotencyKeys)
+    .values({ scope, key, requestHash })
+    .onConflictDoNothing()
+    .returning({ key: idempotencyKeys.key });
+  return inserted.length > 0;
+}
+
+/**
+ * Honour the Idempotency-Key header on a POST handler.
+ * Put it inside withAuth() so keys are scoped to the signed-in user.
+ *
+ * @example
+ * export const POST = withAuth(withIdempotency(createEntity), { permission: 'entities:create' });
+ */
+export function withIdempotency<TContext extends object = object>(
+  handler: (request: NextRequest, context: TContext) => Promise<NextResponse>,
+  options: WithIdempotencyOptions = {}
+): (request: NextRequest, context?: TContext) => Promise<NextResponse> {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+
+  return async (request, context) => {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (key === null) return handler(request, context as TContext);
+
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return apiError(request, {
+        code: 'VALIDATION_FAILED',
+        message: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`,
+      });
+    }
+
+    const scope = scopeFor(request);
+    const matchesKey = and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key));
+
+    try {
+      const requestHash = await sha256(await request.clone().text());
+
+      if (!(await claim(scope, key, requestHash, ttlMs))) {
+        const [stored] = await db.select().from(idempotencyKeys).where(matchesKey).limit(1);
+
+        if (stored && stored.requestHash !== requestHash) {
+          return apiError(request, {
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: `${IDEMPOTENCY_KEY_HEADER} was already used with a different request body`,
+          });
+        }
+
+        // Still running (or released a moment ago): the client should retry shortly
+        if (!stored || stored.status === null) {
+          return apiError(
+            request,
+            {
+              code: 'IDEMPOTENCY_IN_PROGRESS',
+              message: 'A request with this key is already in progress',
+            },
+            { headers: { 'Retry-After': '1' } }
+          );
+        }
+
+        return NextResponse.json(stored.responseBody, {
+          status: stored.status,
+          headers: { ...stored.responseHeaders, 'Idempotent-Replayed': 'true' },
+        });
+      }
+    } catch (error) {
+      logRequestError(request, 'Failed to check idempotency key', error);
+      return apiError(request, {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to check idempotency key',
+      });
+    }
+
+    // A failure here only loses the key, never the handler's result
+    const release = () =>
+      db
+        .delete(idempotencyKeys)
+        .where(matchesKey)
+        .catch((error) => logRequestError(request, 'Failed to release idempotency key', error));
+
+    let response: NextResponse;
+    try {
+      response = await handler(request, context as TContext);
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    if (!response.ok) {
+      // Errors aren't replayed, so the client can correct the request and retry
+      await release();
+      return response;
+    }
+
+    try {
+      // The replay keeps the first request's id, so it can be found in the logs
+      const responseHeaders: Record<string, string> = {
+        [REQUEST_ID_HEADER]: getRequestId(request),
+      };
+      for (const name of REPLAYED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) responseHeaders[name] = value;
+      }
+
+      await db
+        .update(idempotencyKeys)
+        .set({
+          status: response.status,
+          responseBody: await response.clone().json(),
+          responseHeaders,
+        })
+        .where(matchesKey);
+    } catch (error) {
+      // The write happened: send its response. Releasing the key lets a retry
+      // through instead of answering IDEMPOTENCY_IN_PROGRESS until it expires
+      logRequestError(request, 'Failed to store idempotent response', error);
+      await release();
+    }
+
+    return response;
+  };
+}
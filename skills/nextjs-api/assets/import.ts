@@ -0,0 +1,129 @@
+/**
+ * CSV Import
+ *
+ * Copy this file to src/lib/import.ts.
+ *
+ * Report types and column mapping for POST /api/{resources}/import. Shared by
+ * the route handler (createCrudHandlers) and the import dialog, so it has no
+ * server-only imports.
+ *
+ *   POST /api/entities/import?dryRun=true&mode=atomic
+ *   Content-Type: multipart/form-data
+ *     file:    the CSV (first row is the header)
+ *     mapping: optional JSON, header -> field, e.g. {"Company": "name"}
+ *
+ * Each row is validated with the resource's schema and inserted in its own
+ * savepoint, so database errors (duplicates, missing references) are reported
+ * per row exactly as POST would report them. Rows are numbered by the line
+ * they start on in the file: the header is row 1, and blank lines and
+ * multi-line cells are counted.
+ *
+ * - dryRun=true: run everything, report, then roll back
+ * - mode=atomic (default): import every row or none
+ * - mode=partial: import the valid rows, report the rest
+ */
+
+import type { ApiErrorCode } from '@/lib/server/api-errors';
+import type { BulkMode } from '@/lib/bulk';
+import { CSV_BOM, csvLine } from '@/lib/csv';
+
+/** Rows per file. Every row runs in one transaction, so keep it bounded */
+export const MAX_IMPORT_ROWS = 5000;
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/** How a header in the file was mapped; `field` is null for ignored columns */
+export interface ImportColumn {
+  header: string;
+  field: string | null;
+}
+
+export interface ImportRowError {
+  /** Line in the file where the row starts (header = 1) */
+  row: number;
+  /** The row as uploaded, header -> cell */
+  values: Record<string, string>;
+  code?: ApiErrorCode;
+  error: string;
+  field?: string;
+  /** Zod `error.format()` output for validation failures */
+  details?: unknown;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  mode: BulkMode;
+  columns: ImportColumn[];
+  total: number;
+  /** Rows that passed validation and the database */
+  valid: number;
+  failed: number;
+  /** Rows written. 0 for a dry run or a rolled-back atomic import */
+  imported: number;
+  errors: ImportRowError[];
+}
+
+// ========== MAPPING ==========
+
+/** "E-mail Address" -> "emailaddress" */
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map each header to an importable field: the explicit mapping first, then a
+ * case-insensitive match ignoring spaces and punctuation ("Created At" ->
+ * createdAt). Headers that match nothing are ignored.
+ */
+export function mapColumns(
+  headers: string[],
+  fields: string[],
+  mapping: Record<string, string> = {}
+): ImportColumn[] {
+  const byName = new Map(fields.map((field) => [normalize(field), field]));
+  return headers.map((header) => {
+    const explicit = mapping[header];
+    const field = explicit && fields.includes(explicit) ? explicit : byName.get(normalize(header));
+    return { header, field: field ?? null };
+  });
+}
+
+// ========== ERROR FILE ==========
+
+/** Zod `format()` output -> "name: Required; email: Invalid email" */
+function flattenDetails(details: unknown, path: string[] = []): string[] {
+  if (!details || typeof details !== 'object') return [];
+  const { _errors: messages = [], ...children } = details as Record<string, unknown> & {
+    _errors?: string[];
+  };
+  const label = path.join('.');
+  return [
+    ...messages.map((message) => (label ? `${label}: ${message}` : message)),
+    ...Object.entries(children).flatMap(([key, child]) => flattenDetails(child, [...path, key])),
+  ];
+}
+
+/** One readable line per failed row, e.g. for a table cell */
+export function describeImportError(error: ImportRowError): string {
+  const messages = flattenDetails(error.details);
+  return messages.length > 0 ? messages.join('; ') : error.error;
+}
+
+/**
+ * CSV of the failed rows as uploaded, with Row and Error columns added. Fix
+ * the rows and upload the file again: the extra columns are ignored.
+ */
+export function importErrorFile(report: ImportReport): string {
+  const headers = report.columns.map((column) => column.header);
+  return (
+    CSV_BOM +
+    csvLine(['Row', 'Error', ...headers]) +
+    report.errors
+      .map((error) =>
+        csvLine([
+          error.row,
+          describeImportError(error),
+          ...headers.map((header) => error.values[header]),
+        ])
+      )
+      .join('')
+  );
+}
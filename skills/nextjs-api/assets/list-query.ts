@@ -0,0 +1,212 @@
+/**
+ * List Query Helpers (Sorting & Filtering)
+ *
+ * Copy this file to src/lib/server/list-query.ts.
+ *
+ * Parses sort and filter parameters against a per-resource allowlist and turns
+ * them into Drizzle conditions:
+ *
+ *   ?sort=-createdAt,name                      (- prefix = descending)
+ *   ?filter[status][eq]=active
+ *   ?filter[status]=active                     (shorthand for [eq])
+ *   ?filter[createdAt][gte]=2026-01-01
+ *   ?filter[role][in]=owner,admin
+ *   ?filter[deletedAt][isNull]=true
+ *
+ * Unknown fields and operators are rejected rather than ignored, so a typo
+ * never silently returns unfiltered data. Problems are reported as a ZodError
+ * so the 400 response has the same `details` shape as body validation.
+ */
+
+import { z } from 'zod';
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, ne } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// ========== TYPES ==========
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'isNull';
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'isNull',
+];
+
+export interface ListQueryAllowlist {
+  /** Field name -> column that may appear in ?sort= */
+  sortable?: Record<string, AnyPgColumn>;
+  /** Field name -> column and the operators allowed in ?filter[field][op]= */
+  filterable?: Record<string, { column: AnyPgColumn; operators: FilterOperator[] }>;
+}
+
+export interface AppliedSort {
+  field: string;
+  order: 'asc' | 'desc';
+}
+
+export interface AppliedFilter {
+  field: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface ListQuery {
+  where: SQL | undefined;
+  orderBy: SQL[];
+  /** Echoed back in the pagination metadata */
+  applied: { sort: AppliedSort[]; filters: AppliedFilter[] };
+}
+
+export type ListQueryResult =
+  { success: true; data: ListQuery } | { success: false; error: z.ZodError };
+
+// ========== VALUE COERCION ==========
+
+/**
+ * Convert a query string value to the column's JS type.
+ * Returns undefined when the value can't be converted.
+ */
+function coerceValue(column: AnyPgColumn, raw: string): unknown {
+  switch (column.dataType) {
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+    }
+    case 'date': {
+      const value = new Date(raw);
+      return Number.isNaN(value.getTime()) ? undefined : value;
+    }
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : undefined;
+    default:
+      return raw;
+  }
+}
+
+function buildCondition(column: AnyPgColumn, operator: FilterOperator, raw: string): SQL | string {
+  if (operator === 'isNull') {
+    if (raw !== 'true' && raw !== 'false') return 'Expected true or false';
+    return raw === 'true' ? isNull(column) : isNotNull(column);
+  }
+
+  if (operator === 'in') {
+    const values = raw.split(',').map((part) => coerceValue(column, part.trim()));
+    if (values.length === 0 || values.some((value) => value === undefined)) {
+      return `Invalid value for ${column.dataType} field`;
+    }
+    return inArray(column, values);
+  }
+
+  const value = coerceValue(column, raw);
+  if (value === undefined) return `Invalid value for ${column.dataType} field`;
+
+  const operators = { eq, ne, gt, gte, lt, lte };
+  return operators[operator](column, value);
+}
+
+// ========== PARSER ==========
+
+const FILTER_PARAM = /^filter\[(\w+)\](?:\[(\w+)\])?$/;
+
+/**
+ * Parse ?sort= and ?filter[...] against the allowlist.
+ *
+ * @example
+ * const listQuery = parseListQuery(request.nextUrl.searchParams, {
+ *   sortable: { name: users.name, createdAt: users.createdAt },
+ *   filterable: { role: { column: users.role, operators: ['eq', 'in'] } },
+ * });
+ * if (!listQuery.success) {
+ *   return apiError(request, {
+ *     code: 'INVALID_QUERY',
+ *     message: 'Invalid query parameters',
+ *     details: listQuery.error.format(),
+ *   });
+ * }
+ */
+export function parseListQuery(
+  searchParams: URLSearchParams,
+  allowlist: ListQueryAllowlist
+): ListQueryResult {
+  const issues: z.ZodIssue[] = [];
+  const addIssue = (path: (string | number)[], message: string) =>
+    issues.push({ code: z.ZodIssueCode.custom, path, message });
+
+  // Sorting
+  const sortable = allowlist.sortable ?? {};
+  const sort: AppliedSort[] = [];
+  const orderBy: SQL[] = [];
+
+  const sortParam = searchParams.get('sort');
+  if (sortParam) {
+    for (const part of sortParam.split(',')) {
+      const token = part.trim();
+      const order = token.startsWith('-') ? 'desc' : 'asc';
+      const field = token.replace(/^[-+]/, '');
+      const column = Object.hasOwn(sortable, field) ? sortable[field] : undefined;
+
+      if (!column) {
+        addIssue(['sort'], `Cannot sort by "${field}"`);
+        continue;
+      }
+      sort.push({ field, order });
+      orderBy.push(order === 'desc' ? desc(column) : asc(column));
+    }
+  }
+
+  // Filtering
+  const filterable = allowlist.filterable ?? {};
+  const filters: AppliedFilter[] = [];
+  const conditions: SQL[] = [];
+
+  for (const [key, value] of searchParams.entries()) {
+    // Only filter[...] parameters; `filters` or `filterMode` belong to someone else
+    if (!key.startsWith('filter[')) continue;
+
+    const match = FILTER_PARAM.exec(key);
+    if (!match) {
+      addIssue(['filter'], `Malformed filter parameter "${key}"`);
+      continue;
+    }
+
+    const [, field, operatorParam = 'eq'] = match;
+    const config = Object.hasOwn(filterable, field) ? filterable[field] : undefined;
+    if (!config) {
+      addIssue(['filter', field], `Cannot filter by "${field}"`);
+      continue;
+    }
+
+    const operator = operatorParam as FilterOperator;
+    if (!FILTER_OPERATORS.includes(operator) || !config.operators.includes(operator)) {
+      addIssue(['filter', field], `Operator "${operatorParam}" is not allowed for "${field}"`);
+      continue;
+    }
+
+    const condition = buildCondition(config.column, operator, value);
+    if (typeof condition === 'string') {
+      addIssue(['filter', field, operator], condition);
+      continue;
+    }
+    filters.push({ field, operator, value });
+    conditions.push(condition);
+  }
+
+  if (issues.length > 0) {
+    return { success: false, error: new z.ZodError(issues) };
+  }
+
+  return {
+    success: true,
+    data: {
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy,
+      applied: { sort, filters },
+    },
+  };
+}
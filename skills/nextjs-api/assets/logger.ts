@@ -0,0 +1,279 @@
+/**
+ * Structured Logging & Request IDs
+ *
+ * Copy this file to src/lib/server/logger.ts.
+ *
+ * Writes one JSON line per event, so logs can be filtered by field instead of
+ * grepped for message text:
+ *
+ *   {"time":"2026-03-01T12:00:00.000Z","level":"info","message":"request","requestId":"3f2a...",
+ *    "method":"PATCH","route":"/api/entities/[id]","path":"/api/entities/42","status":200,"durationMs":12}
+ *
+ * Every request gets an id: the incoming `x-request-id` (from a load balancer
+ * or proxy.ts) when it looks safe, otherwise a new UUID. The id is returned in
+ * the `x-request-id` response header and in every error envelope (apiError),
+ * and stored in audit_log, so the "Request ID" a user reports leads straight
+ * to the log lines for their request.
+ *
+ * Wrap routes with withLogging() for the access line (method, route, status,
+ * duration). Put it outermost so 401/403 responses are logged and timed too:
+ *
+ *   export const GET = withLogging(withAuth(handler, { permission: 'entities:read' }), {
+ *     route: '/api/entities',
+ *   });
+ *
+ * Lines go to stdout by default, or are appended to LOG_FILE when it is set.
+ * setLogSink() sends them anywhere else (a log shipper, a buffer in tests).
+ */
+
+import { createWriteStream } from 'node:fs';
+import type { WriteStream } from 'node:fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/server/api-errors';
+import type { CrudHandlers } from '@/lib/server/crud-handlers';
+
+// ========== TYPES ==========
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  /** e.g. a Postgres SQLSTATE */
+  code?: string;
+  cause?: SerializedError;
+}
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  message: string;
+  requestId?: string;
+  method?: string;
+  /** Route pattern, e.g. '/api/entities/[id]' */
+  route?: string;
+  /** Actual path, e.g. '/api/entities/42' */
+  path?: string;
+  status?: number;
+  durationMs?: number;
+  error?: SerializedError;
+  [field: string]: unknown;
+}
+
+/** Fields passed by callers; `error` may be anything that was thrown */
+export type LogFields = Omit<Partial<LogEntry>, 'time' | 'level' | 'message' | 'error'> & {
+  error?: unknown;
+};
+
+/** Receives every entry at or above LOG_LEVEL. Must not throw or block for long */
+export type LogSink = (entry: LogEntry) => void;
+
+export interface WithLoggingOptions {
+  /** Route pattern for grouping, e.g. '/api/entities/[id]'. Default: the request path */
+  route?: string;
+}
+
+// ========== SINKS ==========
+
+export const stdoutSink: LogSink = (entry) => {
+  console.log(JSON.stringify(entry));
+};
+
+/** Append JSON lines to a file. The file is opened on the first entry */
+export function fileSink(path: string): LogSink {
+  let stream: WriteStream | null = null;
+  return (entry) => {
+    stream ??= createWriteStream(path, { flags: 'a' });
+    stream.write(`${JSON.stringify(entry)}\n`);
+  };
+}
+
+let sink: LogSink = process.env.LOG_FILE ? fileSink(process.env.LOG_FILE) : stdoutSink;
+
+/**
+ * Replace where log lines go.
+ *
+ * @example
+ * // instrumentation.ts
+ * setLogSink((entry) => logShipper.send(entry));
+ */
+export function setLogSink(next: LogSink): void {
+  sink = next;
+}
+
+// ========== LOGGER ==========
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/** LOG_LEVEL=debug|info|warn|error. Default: info */
+const minLevel = LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+/** Errors as plain JSON, following `cause` (Drizzle wraps driver errors in it) */
+export function serializeError(error: unknown, depth = 0): SerializedError {
+  if (!(error instanceof Error)) return { name: 'NonError', message: String(error) };
+
+  const { code } = error as { code?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...(typeof code === 'string' && { code }),
+    ...(error.cause !== undefined &&
+      depth < 3 && { cause: serializeError(error.cause, depth + 1) }),
+  };
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LEVELS[level] < minLevel) return;
+
+  const { error, ...rest } = fields;
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...rest,
+    ...(error !== undefined && { error: serializeError(error) }),
+  };
+
+  try {
+    sink(entry);
+  } catch {
+    // A broken sink must never turn a working request into a failed one
+  }
+}
+
+/**
+ * Never log request bodies or secrets: passwords, tokens and personal data
+ * end up in every system the logs are shipped to.
+ *
+ * @example
+ * logger.warn('Slow export', { requestId, durationMs });
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+// ========== REQUEST IDS ==========
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/** Incoming ids are echoed in headers and logs, so only accept plain tokens */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Ids assigned per request, so the log, the envelope and audit_log agree
+const requestIds = new WeakMap<NextRequest, string>();
+
+/** The request's id: the incoming x-request-id if valid, otherwise a new UUID */
+export function getRequestId(request: NextRequest): string {
+  let requestId = requestIds.get(request);
+  if (!requestId) {
+    const incoming = request.headers.get(REQUEST_ID_HEADER);
+    requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+    requestIds.set(request, requestId);
+  }
+  return requestId;
+}
+
+/** requestId, method and path, to spread into log fields */
+export function requestFields(request: NextRequest): LogFields {
+  return {
+    requestId: getRequestId(request),
+    method: request.method,
+    path: request.nextUrl.pathname,
+  };
+}
+
+/**
+ * Log a failure with the request's id, e.g. before returning a 500.
+ *
+ * @example
+ * } catch (error) {
+ *   logRequestError(request, 'Failed to create user', error);
+ *   return apiError(request, { code: 'INTERNAL_ERROR', message: 'Failed to create user' });
+ * }
+ */
+export function logRequestError(request: NextRequest, message: string, error: unknown): void {
+  logger.error(message, { ...requestFields(request), error });
+}
+
+// ========== WRAPPERS ==========
+
+/**
+ * Log one line per request with its status and duration, and set the
+ * x-request-id response header unless the handler set one. Errors thrown by the handler are logged and
+ * returned as a 500 envelope. 5xx responses log at error level, 4xx at warn.
+ *
+ * For streamed responses (export) the duration ends when the headers are sent.
+ *
+ * @example
+ * export const PATCH = withLogging(withAuth(handler, { permission: 'entities:update' }), {
+ *   route: '/api/entities/[id]',
+ * });
+ */
+export function withLogging<TArgs extends unknown[]>(
+  handler: (request: NextRequest, ...args: TArgs) => Promise<NextResponse>,
+  options: WithLoggingOptions = {}
+): (request: NextRequest, ...args: TArgs) => Promise<NextResponse> {
+  return async (request, ...args) => {
+    const start = performance.now();
+    const fields = { ...requestFields(request), route: options.route ?? request.nextUrl.pathname };
+
+    let response: NextResponse;
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      logger.error('Unhandled error', { ...fields, error });
+      response = apiError(request, { code: 'INTERNAL_ERROR', message: 'Internal server error' });
+    }
+
+    // An idempotent replay already carries the id of the request it replays
+    if (!response.headers.has(REQUEST_ID_HEADER)) {
+      response.headers.set(REQUEST_ID_HEADER, getRequestId(request));
+    }
+
+    const { status } = response;
+    const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+    write(level, 'request', {
+      ...fields,
+      status,
+      durationMs: Math.round(performance.now() - start),
+    });
+    return response;
+  };
+}
+
+/**
+ * Log every handler from createCrudHandlers, with route patterns under `path`.
+ * Wrap the result of withCrudAuth() so auth failures are logged too.
+ *
+ * @example
+ * export const entityHandlers = withCrudLogging(
+ *   withCrudAuth(createCrudHandlers({ ... }), 'entities'),
+ *   '/api/entities'
+ * );
+ */
+export function withCrudLogging(handlers: CrudHandlers, path: string): CrudHandlers {
+  const at = (route: string): WithLoggingOptions => ({ route: `${path}${route}` });
+
+  return {
+    collection: {
+      GET: withLogging(handlers.collection.GET, at('')),
+      POST: withLogging(handlers.collection.POST, at('')),
+    },
+    item: {
+      GET: withLogging(handlers.item.GET, at('/[id]')),
+      PATCH: withLogging(handlers.item.PATCH, at('/[id]')),
+      DELETE: withLogging(handlers.item.DELETE, at('/[id]')),
+    },
+    restore: { POST: withLogging(handlers.restore.POST, at('/[id]/restore')) },
+    bulk: { POST: withLogging(handlers.bulk.POST, at('/bulk')) },
+    history: { GET: withLogging(handlers.history.GET, at('/[id]/history')) },
+    export: { GET: withLogging(handlers.export.GET, at('/export')) },
+    import: { POST: withLogging(handlers.import.POST, at('/import')) },
+    resource: handlers.resource,
+  };
+}
@@ -0,0 +1,880 @@
+/**
+ * OpenAPI 3.1 Generator
+ *
+ * Copy this file to src/lib/server/openapi.ts.
+ *
+ * Builds the spec from the resources created with createCrudHandlers(), so the
+ * request bodies come from the same Zod schemas the routes validate with, and
+ * the responses follow the { success, data, pagination } envelope and the
+ * error catalogue in api-errors.ts. Register each resource once:
+ *
+ *   // src/lib/server/resources/index.ts
+ *   export const apiResources: ApiResourceRegistration[] = [
+ *     { path: '/api/entities', handlers: entityHandlers },
+ *   ];
+ *
+ * Then:
+ *
+ *   npx tsx scripts/generate-openapi.ts          writes openapi.json
+ *   npx tsx scripts/generate-openapi.ts --check  fails when openapi.json is out of date
+ *   GET /api/docs                                serves the spec (docs-route-template.ts)
+ *
+ * The contract tests (playwright-e2e/assets/api-contract-test-template.ts)
+ * fail when a route's responses stop matching the spec.
+ *
+ * Zod types without a JSON Schema equivalent (transforms, custom refinements)
+ * are documented by their input type; anything unknown becomes `{}` (any value).
+ */
+
+import { z } from 'zod';
+import { getTableColumns } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { API_ERRORS } from '@/lib/server/api-errors';
+import type { ApiErrorCode } from '@/lib/server/api-errors';
+import { bulkOperationSchema, bulkRequestSchema, MAX_BULK_OPERATIONS } from '@/lib/bulk';
+import { FILTER_OPERATORS } from '@/lib/server/list-query';
+import type { CrudHandlers, CrudResource } from '@/lib/server/crud-handlers';
+
+// ========== TYPES ==========
+
+/** A JSON Schema (draft 2020-12, which OpenAPI 3.1 uses) */
+export type JsonSchema = { [keyword: string]: unknown };
+
+export interface ApiResourceRegistration {
+  /** Collection path, e.g. '/api/entities' */
+  path: string;
+  handlers: Pick<CrudHandlers, 'resource'>;
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  resources: ApiResourceRegistration[];
+}
+
+/** Path -> method (or `parameters`) -> operation */
+type PathItems = Record<string, Record<string, unknown>>;
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  paths: PathItems;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    parameters: Record<string, JsonSchema>;
+    responses: Record<string, JsonSchema>;
+  };
+}
+
+// ========== ZOD -> JSON SCHEMA ==========
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return typeof schema.type === 'string'
+    ? { ...schema, type: [schema.type, 'null'] }
+    : { anyOf: [schema, { type: 'null' }] };
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min')
+      result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    if (check.kind === 'max')
+      result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+  }
+  return result;
+}
+
+/**
+ * Convert a Zod schema to JSON Schema, describing what the route accepts.
+ * Covers the types used in validation schemas (see references/validation-patterns.md).
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return nullable(zodToJsonSchema(schema.unwrap()));
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return zodToJsonSchema(schema._def.in);
+
+  if (schema instanceof z.ZodString) {
+    return {
+      type: 'string',
+      ...(schema.isEmail && { format: 'email' }),
+      ...(schema.isUUID && { format: 'uuid' }),
+      ...(schema.isURL && { format: 'uri' }),
+      ...(schema.isDatetime && { format: 'date-time' }),
+      ...(schema.minLength !== null && { minLength: schema.minLength }),
+      ...(schema.maxLength !== null && { maxLength: schema.maxLength }),
+    };
+  }
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value }),
+    };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+      ),
+      ...(required.length > 0 && { required }),
+      ...(schema._def.unknownKeys === 'strict' && { additionalProperties: false }),
+    };
+  }
+
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  return {};
+}
+
+// ========== DRIZZLE -> JSON SCHEMA ==========
+
+const INTEGER_COLUMN_TYPES = new Set(['PgInteger', 'PgSmallInt', 'PgSerial', 'PgBigInt53']);
+
+function columnTypeSchema(column: AnyPgColumn): JsonSchema {
+  switch (column.dataType) {
+    case 'string': {
+      if (column.enumValues?.length) return { type: 'string', enum: column.enumValues };
+      if (column.columnType === 'PgUUID') return { type: 'string', format: 'uuid' };
+      if (column.columnType === 'PgDateString') return { type: 'string', format: 'date' };
+      const { length } = column as { length?: number };
+      return { type: 'string', ...(length && { maxLength: length }) };
+    }
+    case 'number':
+      return { type: INTEGER_COLUMN_TYPES.has(column.columnType) ? 'integer' : 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' }; // Serialised by NextResponse.json()
+    case 'array':
+      return { type: 'array' };
+    default:
+      return {}; // json, custom types
+  }
+}
+
+/** The record as the API returns it, from the table's columns */
+function recordSchema(resource: CrudResource): JsonSchema {
+  const columns = Object.entries(getTableColumns(resource.table)) as [string, AnyPgColumn][];
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      columns.map(([key, column]) => {
+        const schema = columnTypeSchema(column);
+        return [key, column.notNull ? schema : nullable(schema)];
+      })
+    ),
+    required: columns.map(([key]) => key),
+  };
+}
+
+/**
+ * The record as GET routes return it when ?fields= and ?include= are allowed:
+ * only id is guaranteed, and each includable relation may be embedded
+ */
+function fieldsetSchema(resource: CrudResource): JsonSchema {
+  const record = recordSchema(resource);
+  const relatedRow = { type: 'object' };
+  return {
+    ...record,
+    properties: {
+      ...(record.properties as Record<string, JsonSchema>),
+      ...Object.fromEntries(
+        Object.entries(resource.includable).map(([relation, fields]) => [
+          relation,
+          {
+            description: `With ?include=${relation}. Fields: ${fields.join(', ')}`,
+            anyOf: [relatedRow, { type: 'array', items: relatedRow }, { type: 'null' }],
+          },
+        ])
+      ),
+    },
+    required: ['id'],
+  };
+}
+
+// ========== SHARED COMPONENTS ==========
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const param = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+
+const ERROR_CODES = Object.keys(API_ERRORS) as ApiErrorCode[];
+const ERROR_STATUSES = [...new Set(ERROR_CODES.map((code) => API_ERRORS[code].status))];
+
+const codesFor = (status: number) =>
+  ERROR_CODES.filter((code) => API_ERRORS[code].status === status);
+
+const SHARED_SCHEMAS: Record<string, JsonSchema> = {
+  ErrorResponse: {
+    type: 'object',
+    required: ['success', 'error', 'code', 'requestId'],
+    properties: {
+      success: { const: false },
+      error: { type: 'string', description: 'Human-readable message' },
+      code: { type: 'string', enum: ERROR_CODES },
+      field: { type: 'string', description: 'API field the error relates to' },
+      details: { description: 'Zod format() output for validation errors' },
+      data: { description: 'Current record, e.g. for 412 conflicts' },
+      requestId: { type: 'string', description: 'Also in the x-request-id header and logs' },
+    },
+  },
+  ProblemDetails: {
+    type: 'object',
+    required: ['type', 'title', 'status', 'detail', 'instance', 'code', 'requestId'],
+    properties: {
+      type: { type: 'string' },
+      title: { type: 'string' },
+      status: { type: 'integer' },
+      detail: { type: 'string' },
+      instance: { type: 'string' },
+      code: { type: 'string', enum: ERROR_CODES },
+      field: { type: 'string' },
+      errors: {},
+      data: {},
+      requestId: { type: 'string' },
+    },
+  },
+  PaginationMetadata: {
+    type: 'object',
+    required: ['page', 'limit', 'total', 'pages'],
+    properties: {
+      page: { type: 'integer', minimum: 1 },
+      limit: { type: 'integer', minimum: 1, maximum: 100 },
+      total: { type: 'integer', minimum: 0 },
+      pages: { type: 'integer', minimum: 0 },
+      sort: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['field', 'order'],
+          properties: { field: { type: 'string' }, order: { enum: ['asc', 'desc'] } },
+        },
+      },
+      filters: { $ref: '#/components/schemas/AppliedFilters' },
+    },
+  },
+  CursorPaginationMetadata: {
+    type: 'object',
+    required: ['limit', 'nextCursor', 'prevCursor'],
+    properties: {
+      limit: { type: 'integer', minimum: 1, maximum: 100 },
+      nextCursor: { type: ['string', 'null'] },
+      prevCursor: { type: ['string', 'null'] },
+      total: { type: 'integer', minimum: 0, description: 'Only with ?count=true' },
+      filters: { $ref: '#/components/schemas/AppliedFilters' },
+    },
+  },
+  AuditEntry: {
+    type: 'object',
+    required: [
+      'id',
+      'actorId',
+      'actorEmail',
+      'action',
+      'entityType',
+      'entityId',
+      'changes',
+      'requestId',
+      'createdAt',
+    ],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      actorId: { type: ['string', 'null'] },
+      actorEmail: { type: ['string', 'null'] },
+      action: { enum: ['create', 'update', 'delete', 'restore'] },
+      entityType: { type: 'string' },
+      entityId: { type: 'string' },
+      changes: {
+        type: 'object',
+        description: 'Changed fields only',
+        additionalProperties: {
+          type: 'object',
+          required: ['from', 'to'],
+          properties: { from: {}, to: {} },
+        },
+      },
+      requestId: { type: ['string', 'null'] },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  AppliedFilters: {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['field', 'operator', 'value'],
+      properties: {
+        field: { type: 'string' },
+        operator: { enum: FILTER_OPERATORS },
+        value: { type: 'string' },
+      },
+    },
+  },
+  ImportReport: {
+    type: 'object',
+    required: ['dryRun', 'mode', 'columns', 'total', 'valid', 'failed', 'imported', 'errors'],
+    properties: {
+      dryRun: { type: 'boolean' },
+      mode: { enum: ['atomic', 'partial'] },
+      columns: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['header', 'field'],
+          properties: { header: { type: 'string' }, field: { type: ['string', 'null'] } },
+        },
+      },
+      total: { type: 'integer' },
+      valid: { type: 'integer' },
+      failed: { type: 'integer' },
+      imported: { type: 'integer', description: '0 for a dry run or a rolled-back import' },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['row', 'values', 'error'],
+          properties: {
+            row: { type: 'integer', description: 'Spreadsheet row number (header = 1)' },
+            values: { type: 'object', additionalProperties: { type: 'string' } },
+            code: { type: 'string', enum: ERROR_CODES },
+            error: { type: 'string' },
+            field: { type: 'string' },
+            details: {},
+          },
+        },
+      },
+    },
+  },
+};
+
+const SHARED_PARAMETERS: Record<string, JsonSchema> = {
+  id: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+  page: { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+  limit: {
+    name: 'limit',
+    in: 'query',
+    description: 'Clamped to 1-100',
+    schema: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+  },
+  search: { name: 'search', in: 'query', schema: { type: 'string' } },
+  cursor: {
+    name: 'cursor',
+    in: 'query',
+    description: 'Opaque cursor from nextCursor/prevCursor; empty for the first page',
+    schema: { type: 'string' },
+  },
+  count: {
+    name: 'count',
+    in: 'query',
+    description: 'Include the total with cursor pagination',
+    schema: { type: 'boolean' },
+  },
+  includeDeleted: { name: 'includeDeleted', in: 'query', schema: { type: 'boolean' } },
+  permanent: {
+    name: 'permanent',
+    in: 'query',
+    description: 'Remove the row instead of moving it to the trash',
+    schema: { type: 'boolean' },
+  },
+  ifMatch: {
+    name: 'If-Match',
+    in: 'header',
+    description: 'ETag from GET; a stale value returns 412',
+    schema: { type: 'string' },
+  },
+  idempotencyKey: {
+    name: 'Idempotency-Key',
+    in: 'header',
+    description: 'Repeated keys replay the first response for 24 hours',
+    schema: { type: 'string', minLength: 1, maxLength: 255 },
+  },
+};
+
+/** Sent with every 429 (rate-limit.ts) */
+const RETRY_AFTER = {
+  'Retry-After': {
+    schema: { type: 'integer', minimum: 0 },
+    description: 'Seconds until the next request would be allowed',
+  },
+};
+
+/** One response per error status, listing the codes it can carry */
+const SHARED_RESPONSES: Record<string, JsonSchema> = Object.fromEntries(
+  ERROR_STATUSES.map((status) => {
+    const codes = codesFor(status);
+    const narrowed = (name: string) => ({
+      allOf: [ref(name), { properties: { code: { enum: codes } } }],
+    });
+    return [
+      `Error${status}`,
+      {
+        description: codes.map((code) => API_ERRORS[code].title).join(', '),
+        ...(status === 429 && { headers: RETRY_AFTER }),
+        content: {
+          'application/json': { schema: narrowed('ErrorResponse') },
+          'application/problem+json': { schema: narrowed('ProblemDetails') },
+        },
+      },
+    ];
+  })
+);
+
+// ========== OPERATIONS ==========
+
+function json(description: string, schema: JsonSchema, headers?: JsonSchema) {
+  return { description, content: { 'application/json': { schema } }, ...(headers && { headers }) };
+}
+
+/** The success envelope around `data` */
+function envelope(data: JsonSchema, extra: Record<string, JsonSchema> = {}): JsonSchema {
+  return {
+    type: 'object',
+    required: ['success', 'data', ...Object.keys(extra)],
+    properties: { success: { const: true }, data, ...extra },
+  };
+}
+
+function errors(...statuses: number[]) {
+  return Object.fromEntries(
+    statuses.map((status) => [status, { $ref: `#/components/responses/Error${status}` }])
+  );
+}
+
+const pascalCase = (value: string) =>
+  value.replace(/(^|[^a-zA-Z0-9]+)([a-zA-Z0-9])/g, (_, __, char: string) => char.toUpperCase());
+
+function bulkSchema(resource: CrudResource): JsonSchema {
+  const [createOp, updateOp, deleteOp] = bulkOperationSchema.options;
+  const operations = z.discriminatedUnion('op', [
+    createOp.extend({ data: resource.createSchema }),
+    updateOp.extend({ data: resource.updateSchema }),
+    deleteOp,
+  ]);
+  return zodToJsonSchema(
+    bulkRequestSchema.extend({
+      operations: z.array(operations).min(1).max(MAX_BULK_OPERATIONS),
+    })
+  );
+}
+
+function resourcePaths(path: string, resource: CrudResource) {
+  const name = pascalCase(resource.resourceName);
+  const plural = pascalCase(resource.resourcePlural);
+  const tags = [plural];
+  const record = ref(name);
+
+  // GET responses are narrowed by ?fields= and extended by ?include=
+  const sparse = resource.selectable.length > 0 || Object.keys(resource.includable).length > 0;
+  const readRecord = sparse ? ref(`${name}Fields`) : record;
+  const fieldsetParameters = [
+    ...(resource.selectable.length > 0
+      ? [
+          {
+            name: 'fields',
+            in: 'query',
+            description: `Comma-separated; id is always returned. Fields: ${resource.selectable.join(', ')}`,
+            schema: { type: 'string' },
+          },
+        ]
+      : []),
+    ...(Object.keys(resource.includable).length > 0
+      ? [
+          {
+            name: 'include',
+            in: 'query',
+            description: `Comma-separated relations: ${Object.keys(resource.includable).join(', ')}`,
+            schema: { type: 'string' },
+          },
+        ]
+      : []),
+  ];
+
+  // Writes can also fail on the If-Match check and the idempotency key
+  const precondition = resource.versioned ? [412] : [];
+  const ifMatch = resource.versioned ? [param('ifMatch')] : [];
+  const idempotency = resource.idempotent ? [param('idempotencyKey')] : [];
+  const keyReused = resource.idempotent ? [422] : [];
+  // withCrudRateLimit: 429 with Retry-After
+  const readLimited = resource.rateLimited.read ? [429] : [];
+  const writeLimited = resource.rateLimited.write ? [429] : [];
+  const etag = resource.versioned
+    ? { ETag: { schema: { type: 'string' }, description: 'Send back as If-Match' } }
+    : undefined;
+
+  const sortParameter = resource.sortable.length > 0 && {
+    name: 'sort',
+    in: 'query',
+    description: `Comma-separated, - prefix for descending. Fields: ${resource.sortable.join(', ')}`,
+    schema: { type: 'string' },
+  };
+  const filterParameter = Object.keys(resource.filterable).length > 0 && {
+    name: 'filter',
+    in: 'query',
+    style: 'deepObject',
+    explode: true,
+    description: '?filter[field][operator]=value, or ?filter[field]=value for eq',
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: Object.fromEntries(
+        Object.entries(resource.filterable).map(([field, operators]) => [
+          field,
+          {
+            anyOf: [
+              { type: 'string' },
+              {
+                type: 'object',
+                additionalProperties: false,
+                properties: Object.fromEntries(operators.map((op) => [op, { type: 'string' }])),
+              },
+            ],
+          },
+        ])
+      ),
+    },
+  };
+
+  const listParameters = [
+    param('page'),
+    param('limit'),
+    ...(resource.searchable ? [param('search')] : []),
+    ...(sortParameter ? [sortParameter] : []),
+    ...(filterParameter ? [filterParameter] : []),
+    ...(resource.cursor ? [param('cursor'), param('count')] : []),
+    ...(resource.softDelete ? [param('includeDeleted')] : []),
+    ...fieldsetParameters,
+  ];
+
+  const pagination = resource.cursor
+    ? { anyOf: [ref('PaginationMetadata'), ref('CursorPaginationMetadata')] }
+    : ref('PaginationMetadata');
+
+  const paths: PathItems = {
+    [path]: {
+      get: {
+        operationId: `list${plural}`,
+        tags,
+        parameters: listParameters,
+        responses: {
+          200: json(
+            'Page of records',
+            envelope({ type: 'array', items: readRecord }, { pagination })
+          ),
+          ...errors(400, 401, 403, ...readLimited, 500),
+        },
+      },
+      post: {
+        operationId: `create${name}`,
+        tags,
+        parameters: idempotency,
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref(`Create${name}`) } },
+        },
+        responses: {
+          201: json('Created', envelope(record), etag),
+          ...errors(400, 401, 403, 409, ...keyReused, ...writeLimited, 500),
+        },
+      },
+    },
+    [`${path}/{id}`]: {
+      parameters: [param('id')],
+      get: {
+        operationId: `get${name}`,
+        tags,
+        parameters: fieldsetParameters,
+        responses: {
+          200: json('Record', envelope(readRecord), etag),
+          ...errors(...(sparse ? [400] : []), 401, 403, 404, ...readLimited, 500),
+        },
+      },
+      patch: {
+        operationId: `update${name}`,
+        tags,
+        parameters: ifMatch,
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref(`Update${name}`) } },
+        },
+        responses: {
+          200: json('Updated', envelope(record), etag),
+          ...errors(400, 401, 403, 404, 409, ...precondition, ...writeLimited, 500),
+        },
+      },
+      delete: {
+        operationId: `delete${name}`,
+        tags,
+        parameters: [...ifMatch, ...(resource.softDelete ? [param('permanent')] : [])],
+        responses: {
+          200: json('Deleted, or moved to the trash (with the trashed record)', {
+            type: 'object',
+            required: ['success', 'message'],
+            properties: { success: { const: true }, data: record, message: { type: 'string' } },
+          }),
+          ...errors(401, 403, 404, 409, ...precondition, ...writeLimited, 500),
+        },
+      },
+    },
+    [`${path}/bulk`]: {
+      post: {
+        operationId: `bulk${plural}`,
+        tags,
+        parameters: idempotency,
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: bulkSchema(resource) } },
+        },
+        responses: {
+          200: json('Every operation succeeded', ref('BulkResponse')),
+          207: json('Partial mode: some operations failed', ref('BulkResponse')),
+          ...errors(400, 401, 403, 404, 409, ...precondition, ...keyReused, ...writeLimited, 500),
+        },
+      },
+    },
+  };
+
+  if (resource.softDelete) {
+    paths[`${path}/{id}/restore`] = {
+      parameters: [param('id')],
+      post: {
+        operationId: `restore${name}`,
+        tags,
+        parameters: ifMatch,
+        responses: {
+          200: json('Restored', envelope(record), etag),
+          ...errors(401, 403, 404, 409, ...precondition, ...writeLimited, 500),
+        },
+      },
+    };
+  }
+
+  if (resource.audited) {
+    paths[`${path}/{id}/history`] = {
+      parameters: [param('id')],
+      get: {
+        operationId: `get${name}History`,
+        tags,
+        parameters: [param('page'), param('limit')],
+        responses: {
+          200: json(
+            'Audit entries, newest first',
+            envelope(
+              { type: 'array', items: ref('AuditEntry') },
+              { pagination: ref('PaginationMetadata') }
+            )
+          ),
+          ...errors(401, 403, 404, ...readLimited, 500),
+        },
+      },
+    };
+  }
+
+  if (resource.exportColumns.length > 0) {
+    const download = { schema: { type: 'string' }, description: 'attachment; filename="..."' };
+    paths[`${path}/export`] = {
+      get: {
+        operationId: `export${plural}`,
+        tags,
+        parameters: [
+          {
+            name: 'format',
+            in: 'query',
+            schema: { type: 'string', enum: ['csv', 'ndjson'], default: 'csv' },
+          },
+          {
+            name: 'columns',
+            in: 'query',
+            description: `Comma-separated, in output order. Fields: ${resource.exportColumns.join(', ')}`,
+            schema: { type: 'string' },
+          },
+          {
+            name: 'locale',
+            in: 'query',
+            description: 'Language of the CSV header row. Default: Accept-Language',
+            schema: { type: 'string' },
+          },
+          ...(resource.searchable ? [param('search')] : []),
+          ...(filterParameter ? [filterParameter] : []),
+          ...(resource.softDelete ? [param('includeDeleted')] : []),
+        ],
+        responses: {
+          200: {
+            description: 'Streamed rows in id order',
+            headers: { 'Content-Disposition': download },
+            content: {
+              'text/csv': { schema: { type: 'string' } },
+              'application/x-ndjson': { schema: { type: 'string' } },
+            },
+          },
+          ...errors(400, 401, 403, ...readLimited, 500),
+        },
+      },
+    };
+  }
+
+  if (resource.importFields.length > 0) {
+    // success is false when any row failed, so the envelope isn't `success: true`
+    const report = (description: string) =>
+      json(description, {
+        type: 'object',
+        required: ['success', 'data'],
+        properties: { success: { type: 'boolean' }, data: ref('ImportReport') },
+      });
+    paths[`${path}/import`] = {
+      post: {
+        operationId: `import${plural}`,
+        tags,
+        parameters: [
+          {
+            name: 'dryRun',
+            in: 'query',
+            description: 'Validate and report, then roll back',
+            schema: { type: 'boolean' },
+          },
+          {
+            name: 'mode',
+            in: 'query',
+            description: 'atomic imports every row or none; partial skips failed rows',
+            schema: { type: 'string', enum: ['atomic', 'partial'], default: 'atomic' },
+          },
+          {
+            name: 'exported',
+            in: 'query',
+            description:
+              "The file is this app's export or error file: remove the ' it puts before =, +, - and @",
+            schema: { type: 'boolean' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['file'],
+                properties: {
+                  file: {
+                    type: 'string',
+                    contentMediaType: 'text/csv',
+                    description: `Header row, then data. Fields: ${resource.importFields.join(', ')}`,
+                  },
+                  mapping: {
+                    type: 'string',
+                    description: 'JSON object of header -> field for headers that differ',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: report('Every row is valid (and imported unless dryRun)'),
+          207: report('Some rows failed; see errors'),
+          ...errors(400, 401, 403, 413, ...writeLimited, 500),
+        },
+      },
+    };
+  }
+
+  return paths;
+}
+
+const BULK_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['success', 'data'],
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      required: ['mode', 'results', 'succeeded', 'failed'],
+      properties: {
+        mode: { enum: ['atomic', 'partial'] },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['index', 'op', 'success', 'status'],
+            properties: {
+              index: { type: 'integer' },
+              op: { enum: ['create', 'update', 'delete'] },
+              id: { type: 'string' },
+              success: { type: 'boolean' },
+              status: { type: 'integer' },
+              data: {},
+              error: { type: 'string' },
+              code: { type: 'string', enum: ERROR_CODES },
+              field: { type: 'string' },
+              details: {},
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// ========== GENERATOR ==========
+
+/**
+ * Build the OpenAPI document for the registered resources.
+ *
+ * @example
+ * const spec = generateOpenApiSpec({ title: 'My App API', version: '1.0.0', resources: apiResources });
+ */
+export function generateOpenApiSpec(options: OpenApiOptions): OpenApiDocument {
+  const schemas: Record<string, JsonSchema> = {
+    ...SHARED_SCHEMAS,
+    BulkResponse: BULK_RESPONSE_SCHEMA,
+  };
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const { path, handlers } of options.resources) {
+    const { resource } = handlers;
+    const name = pascalCase(resource.resourceName);
+
+    schemas[name] = recordSchema(resource);
+    if (resource.selectable.length > 0 || Object.keys(resource.includable).length > 0) {
+      schemas[`${name}Fields`] = fieldsetSchema(resource);
+    }
+    schemas[`Create${name}`] = zodToJsonSchema(resource.createSchema);
+    schemas[`Update${name}`] = zodToJsonSchema(resource.updateSchema);
+    Object.assign(paths, resourcePaths(path, resource));
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    paths,
+    components: { schemas, parameters: SHARED_PARAMETERS, responses: SHARED_RESPONSES },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Proxy Template (Next.js 16)
+ *
+ * Copy this file to src/proxy.ts. Next.js 16 renamed middleware.ts to proxy.ts
+ * and the exported function from `middleware` to `proxy`.
+ *
+ * Turns away unauthenticated requests before they reach a page or route:
+ * - API routes get 401 in the standard envelope
+ * - Pages redirect to /login?callbackUrl=...
+ *
+ * Permission checks stay in withAuth() on each route. The proxy only sees the
+ * URL, not which permission a handler needs, so it is a first line of defence,
+ * never the only one.
+ *
+ * It also gives every request an x-request-id (logger.ts) before it reaches a
+ * page or route, so their log lines share one id.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/server/api-errors';
+import { resolveSession } from '@/lib/server/auth';
+import { getRequestId, REQUEST_ID_HEADER } from '@/lib/server/logger';
+
+// TODO: Add paths that must work without a session
+const PUBLIC_PATHS = ['/login', '/api/auth', '/api/health'];
+
+function isPublic(pathname: string) {
+  return PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/** Continue to the page or route, passing the request id on */
+function next(request: NextRequest) {
+  const requestId = getRequestId(request);
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isPublic(pathname)) return next(request);
+
+  // Runs on every request: keep the resolver cheap (cookie or JWT, not a DB query)
+  const user = await resolveSession(request);
+  if (user) return next(request);
+
+  if (pathname.startsWith('/api/')) {
+    return apiError(request, { code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('callbackUrl', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Everything except static assets
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
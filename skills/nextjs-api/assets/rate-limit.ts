@@ -0,0 +1,421 @@
+/**
+ * Rate Limiting
+ *
+ * Copy this file to src/lib/server/rate-limit.ts. For the Postgres store, also
+ * add the rateLimits table below to src/db/schema.ts.
+ *
+ * Throttles a route per client. Over the limit, the request is answered with
+ * 429 RATE_LIMITED and a Retry-After header (seconds) in the standard error
+ * envelope; every response carries RateLimit-Limit, RateLimit-Remaining and
+ * RateLimit-Reset so well-behaved clients can slow down first.
+ *
+ *   export const POST = withLogging(
+ *     withRateLimit(withAuth(createEntity, { permission: 'entities:create' }), {
+ *       name: 'entities:create',
+ *       policy: { algorithm: 'token-bucket', capacity: 20, refillPerSecond: 1 },
+ *     }),
+ *     { route: '/api/entities' }
+ *   );
+ *
+ * Algorithms:
+ * - fixed-window: `limit` requests per `windowMs`, counted from the start of
+ *   each window. Simple and predictable; allows a burst at a window boundary.
+ * - token-bucket: up to `capacity` requests at once, refilled at
+ *   `refillPerSecond`. Smooths traffic while still allowing short bursts.
+ *
+ * Clients are keyed by IP (default), signed-in user, or API key. Put
+ * withRateLimit() outside withAuth() for IP limits, so floods are turned away
+ * before the session lookup, and inside it for `key: 'user'`. Requests
+ * without a user or API key fall back to their IP.
+ *
+ * Stores: memory (default) keeps counters in the process, which is right for
+ * one server and for development; each serverless instance counts separately.
+ * postgresRateLimitStore shares the counters between instances without Redis,
+ * at the cost of one short transaction per request. When the store fails the
+ * request is let through and the error logged: a rate limiter outage
+ * shouldn't become an API outage.
+ *
+ * Schema (src/db/schema.ts), for postgresRateLimitStore:
+ *
+ *   export const rateLimits = pgTable(
+ *     'rate_limits',
+ *     {
+ *       key: varchar('key', { length: 512 }).primaryKey(), // name and client
+ *       value: doublePrecision('value').notNull(), // requests in the window, or tokens left
+ *       updatedAt: timestamp('updated_at', { withTimezone: true }).notNull(),
+ *       expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+ *     },
+ *     (table) => [index('rate_limits_expires_at_idx').on(table.expiresAt)]
+ *   );
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, lt } from 'drizzle-orm';
+import { db } from '@/db';
+import { rateLimits } from '@/db/schema';
+import { apiError } from '@/lib/server/api-errors';
+import { getAuthUser } from '@/lib/server/auth';
+import type { CrudHandlers } from '@/lib/server/crud-handlers';
+import { logRequestError } from '@/lib/server/logger';
+
+// ========== TYPES ==========
+
+export type RateLimitPolicy =
+  | { algorithm: 'fixed-window'; limit: number; windowMs: number }
+  | { algorithm: 'token-bucket'; capacity: number; refillPerSecond: number };
+
+/** Who a limit applies to: 'ip', 'user', 'api-key', or a custom key (null = IP) */
+export type RateLimitKey =
+  'ip' | 'user' | 'api-key' | ((request: NextRequest) => string | null | Promise<string | null>);
+
+/** Counter state for one client: requests in the window, or tokens left */
+export interface RateLimitState {
+  value: number;
+  /** Start of the window, or when the bucket was last refilled (ms) */
+  updatedAt: number;
+  /** When the state no longer matters: the window ended, or the bucket is full (ms) */
+  expiresAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Until the window resets or the bucket is full (ms) */
+  resetMs: number;
+  /** Until the next request would be allowed (ms); 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Where counters live. consume() must apply the policy atomically, so two
+ * concurrent requests can't both take the last slot.
+ */
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision>;
+}
+
+export interface WithRateLimitOptions {
+  /** Namespace for the counters, e.g. 'entities:create'. Routes with the same name share a limit */
+  name: string;
+  policy: RateLimitPolicy;
+  /** Default: 'ip' */
+  key?: RateLimitKey;
+  /** Default: the store set with setRateLimitStore() (memory unless changed) */
+  store?: RateLimitStore;
+}
+
+export interface CrudRateLimitOptions {
+  /** GET routes: list, item, history, export */
+  read?: RateLimitPolicy;
+  /** Everything that writes: create, update, delete, restore, bulk, import */
+  write?: RateLimitPolicy;
+  key?: RateLimitKey;
+  store?: RateLimitStore;
+}
+
+export const API_KEY_HEADER = 'x-api-key';
+
+// ========== ALGORITHMS ==========
+
+/**
+ * Throw for a policy that can never let a request through or would divide by
+ * zero, so a typo fails at startup instead of as Infinity in Retry-After.
+ */
+export function assertValidPolicy(name: string, policy: RateLimitPolicy): void {
+  const limits =
+    policy.algorithm === 'fixed-window'
+      ? { limit: policy.limit, windowMs: policy.windowMs }
+      : { capacity: policy.capacity, refillPerSecond: policy.refillPerSecond };
+
+  for (const [field, value] of Object.entries(limits)) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Rate limit "${name}": ${field} must be a positive number, got ${value}`);
+    }
+  }
+}
+
+/**
+ * Apply one request to a client's state. Pure, so every store runs the same
+ * arithmetic; stores only have to load and save the state atomically.
+ */
+export function applyPolicy(
+  policy: RateLimitPolicy,
+  previous: RateLimitState | null,
+  now: number
+): { state: RateLimitState; decision: RateLimitDecision } {
+  // Expired state is the same as none: a new window, or a full bucket
+  const current = previous && previous.expiresAt > now ? previous : null;
+
+  if (policy.algorithm === 'fixed-window') {
+    const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs;
+    const windowEnd = windowStart + policy.windowMs;
+    const used = current?.updatedAt === windowStart ? current.value : 0;
+    const allowed = used < policy.limit;
+    const count = allowed ? used + 1 : used;
+
+    return {
+      state: { value: count, updatedAt: windowStart, expiresAt: windowEnd },
+      decision: {
+        allowed,
+        limit: policy.limit,
+        remaining: policy.limit - count,
+        resetMs: windowEnd - now,
+        retryAfterMs: allowed ? 0 : windowEnd - now,
+      },
+    };
+  }
+
+  const { capacity, refillPerSecond } = policy;
+  const refilled = current
+    ? Math.min(capacity, current.value + ((now - current.updatedAt) / 1000) * refillPerSecond)
+    : capacity;
+  const allowed = refilled >= 1;
+  const tokens = allowed ? refilled - 1 : refilled;
+  const untilFull = ((capacity - tokens) / refillPerSecond) * 1000;
+
+  return {
+    state: { value: tokens, updatedAt: now, expiresAt: now + untilFull },
+    decision: {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetMs: untilFull,
+      retryAfterMs: allowed ? 0 : ((1 - tokens) / refillPerSecond) * 1000,
+    },
+  };
+}
+
+// ========== STORES ==========
+
+/** How often the memory store drops expired counters */
+const MEMORY_SWEEP_INTERVAL = 1000;
+
+/** Counters in this process. Each server (or serverless instance) counts separately */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const states = new Map<string, RateLimitState>();
+  let calls = 0;
+
+  return {
+    async consume(key, policy, now) {
+      // Sweep now and then, so clients that went away don't hold memory forever
+      if (++calls % MEMORY_SWEEP_INTERVAL === 0) {
+        for (const [stateKey, state] of states) {
+          if (state.expiresAt <= now) states.delete(stateKey);
+        }
+      }
+
+      // Map access is synchronous, so no other request can interleave here
+      const { state, decision } = applyPolicy(policy, states.get(key) ?? null, now);
+      states.set(key, state);
+      return decision;
+    },
+  };
+}
+
+/**
+ * Counters in the rate_limits table, shared by every instance. The row is
+ * locked for the read-modify-write, so concurrent requests queue on it.
+ */
+export const postgresRateLimitStore: RateLimitStore = {
+  async consume(key, policy, now) {
+    return db.transaction(async (tx) => {
+      // Make sure there is a row to lock; a new client starts with expired state
+      await tx
+        .insert(rateLimits)
+        .values({ key, value: 0, updatedAt: new Date(now), expiresAt: new Date(now) })
+        .onConflictDoNothing();
+
+      const [row] = await tx.select().from(rateLimits).where(eq(rateLimits.key, key)).for('update');
+
+      const { state, decision } = applyPolicy(
+        policy,
+        row
+          ? {
+              value: row.value,
+              updatedAt: row.updatedAt.getTime(),
+              expiresAt: row.expiresAt.getTime(),
+            }
+          : null,
+        now
+      );
+
+      await tx
+        .update(rateLimits)
+        .set({
+          value: state.value,
+          updatedAt: new Date(state.updatedAt),
+          expiresAt: new Date(state.expiresAt),
+        })
+        .where(eq(rateLimits.key, key));
+
+      return decision;
+    });
+  },
+};
+
+/**
+ * Delete expired rows from rate_limits. Run it from a scheduled job; expired
+ * rows are harmless but accumulate one per client and route.
+ *
+ * @example
+ * // src/app/api/cron/rate-limits/route.ts
+ * export async function GET() {
+ *   return NextResponse.json({ success: true, data: { deleted: await pruneRateLimits() } });
+ * }
+ */
+export async function pruneRateLimits(): Promise<number> {
+  const deleted = await db
+    .delete(rateLimits)
+    .where(lt(rateLimits.expiresAt, new Date()))
+    .returning({ key: rateLimits.key });
+  return deleted.length;
+}
+
+let defaultStore: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replace the store used by routes that don't pass their own.
+ *
+ * @example
+ * // instrumentation.ts
+ * setRateLimitStore(postgresRateLimitStore);
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  defaultStore = next;
+}
+
+// ========== CLIENT KEYS ==========
+
+/**
+ * The client's IP: the first x-forwarded-for entry, then x-real-ip. These are
+ * set by the platform's proxy (Vercel, a load balancer); without one in front
+ * clients can send any value, so key by user or API key instead.
+ */
+export function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function clientKey(request: NextRequest, key: RateLimitKey): Promise<string> {
+  if (key === 'user') {
+    const user = getAuthUser(request);
+    if (user) return `user:${user.id}`;
+  } else if (key === 'api-key') {
+    const apiKey = request.headers.get(API_KEY_HEADER);
+    // Hashed, so the store never holds usable keys
+    if (apiKey) return `key:${await sha256(apiKey)}`;
+  } else if (typeof key === 'function') {
+    const custom = await key(request);
+    if (custom) return `custom:${custom}`;
+  }
+  return `ip:${clientIp(request)}`;
+}
+
+// ========== WRAPPERS ==========
+
+function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(Math.max(0, decision.remaining)),
+    'RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000)),
+  };
+}
+
+/**
+ * Limit how often each client may call a handler. Over the limit: 429
+ * RATE_LIMITED with Retry-After; otherwise the handler's response with
+ * RateLimit-* headers.
+ *
+ * @example
+ * export const GET = withRateLimit(withAuth(listEntities, { permission: 'entities:read' }), {
+ *   name: 'entities:list',
+ *   policy: { algorithm: 'fixed-window', limit: 120, windowMs: 60_000 },
+ * });
+ */
+export function withRateLimit<TArgs extends unknown[]>(
+  handler: (request: NextRequest, ...args: TArgs) => Promise<NextResponse>,
+  options: WithRateLimitOptions
+): (request: NextRequest, ...args: TArgs) => Promise<NextResponse> {
+  assertValidPolicy(options.name, options.policy);
+
+  return async (request, ...args) => {
+    const store = options.store ?? defaultStore;
+
+    let decision: RateLimitDecision;
+    try {
+      const key = `${options.name}:${await clientKey(request, options.key ?? 'ip')}`;
+      decision = await store.consume(key, options.policy, Date.now());
+    } catch (error) {
+      logRequestError(request, 'Failed to check rate limit', error);
+      return handler(request, ...args);
+    }
+
+    const headers = rateLimitHeaders(decision);
+    if (!decision.allowed) {
+      return apiError(
+        request,
+        { code: 'RATE_LIMITED', message: 'Too many requests, please try again later' },
+        { headers: { ...headers, 'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)) } }
+      );
+    }
+
+    const response = await handler(request, ...args);
+    for (const [name, value] of Object.entries(headers)) response.headers.set(name, value);
+    return response;
+  };
+}
+
+/**
+ * Rate-limit every handler from createCrudHandlers: `read` for GET routes,
+ * `write` for the rest. Reads and writes count separately, under `name`.
+ * Wrap the result of withCrudAuth() for IP limits; for `key: 'user'`, wrap
+ * createCrudHandlers() and pass the result to withCrudAuth().
+ *
+ * @example
+ * export const entityHandlers = withCrudRateLimit(
+ *   withCrudAuth(createCrudHandlers({ ... }), 'entities'),
+ *   'entities',
+ *   { write: { algorithm: 'token-bucket', capacity: 20, refillPerSecond: 1 } }
+ * );
+ */
+export function withCrudRateLimit(
+  handlers: CrudHandlers,
+  name: string,
+  options: CrudRateLimitOptions
+): CrudHandlers {
+  const { read, write, ...shared } = options;
+  const limit = <TArgs extends unknown[]>(
+    handler: (request: NextRequest, ...args: TArgs) => Promise<NextResponse>,
+    kind: 'read' | 'write'
+  ) => {
+    const policy = kind === 'read' ? read : write;
+    return policy
+      ? withRateLimit(handler, { ...shared, name: `${name}:${kind}`, policy })
+      : handler;
+  };
+
+  return {
+    collection: {
+      GET: limit(handlers.collection.GET, 'read'),
+      POST: limit(handlers.collection.POST, 'write'),
+    },
+    item: {
+      GET: limit(handlers.item.GET, 'read'),
+      PATCH: limit(handlers.item.PATCH, 'write'),
+      DELETE: limit(handlers.item.DELETE, 'write'),
+    },
+    restore: { POST: limit(handlers.restore.POST, 'write') },
+    bulk: { POST: limit(handlers.bulk.POST, 'write') },
+    history: { GET: limit(handlers.history.GET, 'read') },
+    export: { GET: limit(handlers.export.GET, 'read') },
+    import: { POST: limit(handlers.import.POST, 'write') },
+    // The OpenAPI spec documents the 429s
+    resource: { ...handlers.resource, rateLimited: { read: !!read, write: !!write } },
+  };
+}
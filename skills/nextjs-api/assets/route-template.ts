@@ -6,13 +6,61 @@
  *
  * Collection routes: src/app/api/entities/route.ts (GET all, POST create)
  * Item routes: src/app/api/entities/[id]/route.ts (GET one, PATCH, DELETE)
+ *
+ * For standard CRUD resources, prefer createCrudHandlers() from crud-handlers.ts
+ * and only copy this template when a route needs custom logic.
+ *
+ * Every handler is wrapped in withAuth() with the permission it needs. The
+ * wrapper returns 401/403 and passes the signed-in user as `{ user }` next to
+ * `{ params }`. withLogging() goes outside it, so every request (401/403
+ * included) is logged with its request id, status and duration.
+ *
+ * withTenant() inside withAuth() passes the user's organisation as
+ * `{ tenantId }`. Every query adds `eq(entities.organisationId, tenantId)` and
+ * inserts stamp it, so another tenant's entity is a 404 (see tenancy.ts).
+ * Single-tenant apps drop withTenant() and the organisationId conditions.
+ *
+ * Writes run in a transaction with recordAudit(), so every change lands in
+ * audit_log with its diff (see audit.ts).
+ *
+ * The public list and create routes are wrapped in withRateLimit() (per IP,
+ * see rate-limit.ts); repeat it on other routes that need throttling.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { entities } from '@/db/schema'; // Replace with your table
-import { eq, ilike, or, sql } from 'drizzle-orm';
+import { and, eq, ilike, or, sql } from 'drizzle-orm';
 import { createEntitySchema, updateEntitySchema } from '@/lib/validations/entity'; // Replace
+import { apiError, translateDbError } from '@/lib/server/api-errors';
+import { checkIfMatch, preconditionFailed, versionMatches } from '@/lib/server/concurrency';
+import { etagFor } from '@/lib/etag';
+import { withAuth } from '@/lib/server/auth';
+import { withIdempotency } from '@/lib/server/idempotency';
+import { recordAudit } from '@/lib/server/audit';
+import { logRequestError, withLogging } from '@/lib/server/logger';
+import { withRateLimit } from '@/lib/server/rate-limit';
+import type { RateLimitPolicy } from '@/lib/server/rate-limit';
+import { escapeLikePattern } from '@/lib/server/search';
+import { withTenant } from '@/lib/server/tenancy';
+
+type ItemRouteParams = { params: Promise<{ id: string }> };
+
+// TODO: Tune per route; 429 RATE_LIMITED with Retry-After when exceeded (rate-limit.ts)
+const LIST_RATE_LIMIT: RateLimitPolicy = {
+  algorithm: 'fixed-window',
+  limit: 120,
+  windowMs: 60_000,
+};
+const CREATE_RATE_LIMIT: RateLimitPolicy = {
+  algorithm: 'token-bucket',
+  capacity: 20,
+  refillPerSecond: 1,
+};
+
+/** One entity, only when it belongs to the tenant; any other tenant's id is not found */
+const entityInTenant = (id: string, tenantId: string) =>
+  and(eq(entities.id, id), eq(entities.organisationId, tenantId));
 
 // ========== COLLECTION ROUTES (route.ts) ==========
 
@@ -20,112 +68,150 @@ import { createEntitySchema, updateEntitySchema } from '@/lib/validations/entity
  * GET /api/entities
  * List entities with pagination and search
  */
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const page = parseInt(searchParams.get('page') || '1');
-  const limit = parseInt(searchParams.get('limit') || '50');
-  const search = searchParams.get('search') || undefined;
-
-  // Sanitize and validate pagination params
-  const safePage = Math.max(1, page);
-  const safeLimit = Math.min(Math.max(1, limit), 100); // Max 100 items per page
-  const offset = (safePage - 1) * safeLimit;
-
-  try {
-    // Build search condition (customize fields for your entity)
-    const searchCondition = search
-      ? or(
-          ilike(entities.name, `%${search}%`),
-          ilike(entities.email, `%${search}%`) // Replace with your searchable fields
-        )
-      : undefined;
-
-    // Build queries conditionally (Drizzle type safety requirement)
-    const itemsQuery = searchCondition
-      ? db.select().from(entities).where(searchCondition).limit(safeLimit).offset(offset)
-      : db.select().from(entities).limit(safeLimit).offset(offset);
-
-    const countQuery = searchCondition
-      ? db
-          .select({ count: sql<number>`count(*)` })
-          .from(entities)
-          .where(searchCondition)
-      : db.select({ count: sql<number>`count(*)` }).from(entities);
-
-    // Execute queries in parallel
-    const [items, countResult] = await Promise.all([itemsQuery, countQuery]);
-
-    // Calculate pagination metadata
-    const total = Number(countResult[0].count);
-    const pages = Math.ceil(total / safeLimit);
-
-    return NextResponse.json({
-      success: true,
-      data: items,
-      pagination: {
-        page: safePage,
-        limit: safeLimit,
-        total,
-        pages,
-      },
-    });
-  } catch (error) {
-    console.error('Failed to fetch entities:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch entities' },
-      { status: 500 }
-    );
-  }
-}
+export const GET = withLogging(
+  // Per IP, outside withAuth() so floods are refused before the session lookup
+  withRateLimit(
+    withAuth(
+      withTenant(async (request: NextRequest, { tenantId }) => {
+        const searchParams = request.nextUrl.searchParams;
+        const page = parseInt(searchParams.get('page') || '1');
+        const limit = parseInt(searchParams.get('limit') || '50');
+        const search = searchParams.get('search') || undefined;
+
+        // Sanitize and validate pagination params
+        const safePage = Math.max(1, page);
+        const safeLimit = Math.min(Math.max(1, limit), 100); // Max 100 items per page
+        const offset = (safePage - 1) * safeLimit;
+
+        try {
+          // Build search condition (customize fields for your entity). Escape the
+          // input so % and _ match literally instead of as wildcards
+          const pattern = search ? `%${escapeLikePattern(search)}%` : undefined;
+          const searchCondition = pattern
+            ? or(
+                ilike(entities.name, pattern),
+                ilike(entities.email, pattern) // Replace with your searchable fields
+              )
+            : undefined;
+
+          // Only the tenant's rows, for both the page and the count
+          const where = and(eq(entities.organisationId, tenantId), searchCondition);
+
+          const itemsQuery = db
+            .select()
+            .from(entities)
+            .where(where)
+            .limit(safeLimit)
+            .offset(offset);
+          const countQuery = db
+            .select({ count: sql<number>`count(*)` })
+            .from(entities)
+            .where(where);
+
+          // Execute queries in parallel
+          const [items, countResult] = await Promise.all([itemsQuery, countQuery]);
+
+          // Calculate pagination metadata
+          const total = Number(countResult[0].count);
+          const pages = Math.ceil(total / safeLimit);
+
+          return NextResponse.json({
+            success: true,
+            data: items,
+            pagination: {
+              page: safePage,
+              limit: safeLimit,
+              total,
+              pages,
+            },
+          });
+        } catch (error) {
+          logRequestError(request, 'Failed to fetch entities', error);
+          return apiError(request, { code: 'INTERNAL_ERROR', message: 'Failed to fetch entities' });
+        }
+      }),
+      { permission: 'entities:read' }
+    ),
+    { name: 'entities:list', policy: LIST_RATE_LIMIT }
+  ),
+  { route: '/api/entities' }
+);
 
 /**
  * POST /api/entities
  * Create a new entity
  */
-export async function POST(request: NextRequest) {
-  let body;
-
-  // Parse JSON body
-  try {
-    body = await request.json();
-  } catch (error) {
-    return NextResponse.json(
-      { success: false, error: 'Invalid JSON in request body' },
-      { status: 400 }
-    );
-  }
-
-  // Validate with Zod
-  const validationResult = createEntitySchema.safeParse(body);
-  if (!validationResult.success) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Validation failed',
-        details: validationResult.error.format(),
-      },
-      { status: 400 }
-    );
-  }
-
-  // Insert into database
-  try {
-    const [newEntity] = await db.insert(entities).values(validationResult.data).returning();
-
-    return NextResponse.json({ success: true, data: newEntity }, { status: 201 });
-  } catch (error) {
-    // Handle unique constraint violations
-    if (error instanceof Error && error.message.includes('unique constraint')) {
-      return NextResponse.json(
-        { success: false, error: 'Entity with this identifier already exists' },
-        { status: 409 }
-      );
-    }
-
-    console.error('Failed to create entity:', error);
-    return NextResponse.json({ success: false, error: 'Failed to create entity' }, { status: 500 });
-  }
-}
+export const POST = withLogging(
+  // Per IP, outside withAuth() so floods are refused before the session lookup
+  withRateLimit(
+    withAuth(
+      // Replays the first response when a client retries with the same Idempotency-Key
+      withIdempotency(
+        withTenant(async (request: NextRequest, { tenantId }) => {
+          let body;
+
+          // Parse JSON body
+          try {
+            body = await request.json();
+          } catch (error) {
+            return apiError(request, {
+              code: 'INVALID_JSON',
+              message: 'Invalid JSON in request body',
+            });
+          }
+
+          // Validate with Zod
+          const validationResult = createEntitySchema.safeParse(body);
+          if (!validationResult.success) {
+            return apiError(request, {
+              code: 'VALIDATION_FAILED',
+              message: 'Validation failed',
+              details: validationResult.error.format(),
+            });
+          }
+
+          // Insert into database
+          try {
+            // The audit entry commits or rolls back together with the change
+            const newEntity = await db.transaction(async (tx) => {
+              // The tenant comes from the session, never from the body
+              const [created] = await tx
+                .insert(entities)
+                .values({ ...validationResult.data, organisationId: tenantId })
+                .returning();
+              await recordAudit(tx, request, {
+                action: 'create',
+                entityType: 'entity',
+                entityId: created.id,
+                before: null,
+                after: created,
+              });
+              return created;
+            });
+
+            return NextResponse.json(
+              { success: true, data: newEntity },
+              { status: 201, headers: { ETag: etagFor(newEntity.updatedAt) } }
+            );
+          } catch (error) {
+            // Handle constraint violations (duplicate, missing reference, ...) by SQLSTATE
+            const dbError = translateDbError(error, { resourceName: 'Entity', table: entities });
+            if (dbError) return apiError(request, dbError);
+
+            logRequestError(request, 'Failed to create entity', error);
+            return apiError(request, {
+              code: 'INTERNAL_ERROR',
+              message: 'Failed to create entity',
+            });
+          }
+        })
+      ),
+      { permission: 'entities:create' }
+    ),
+    { name: 'entities:create', policy: CREATE_RATE_LIMIT }
+  ),
+  { route: '/api/entities' }
+);
 
 // ========== ITEM ROUTES ([id]/route.ts) ==========
 
@@ -133,127 +219,212 @@ export async function POST(request: NextRequest) {
  * GET /api/entities/[id]
  * Get a single entity by ID
  */
-export async function GET_ONE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const { id } = await params; // MUST await in Next.js 16
-
-  try {
-    const items = await db.select().from(entities).where(eq(entities.id, id)).limit(1);
-
-    if (items.length === 0) {
-      return NextResponse.json({ success: false, error: 'Entity not found' }, { status: 404 });
-    }
-
-    return NextResponse.json({
-      success: true,
-      data: items[0],
-    });
-  } catch (error) {
-    console.error('Failed to fetch entity:', error);
-    return NextResponse.json({ success: false, error: 'Failed to fetch entity' }, { status: 500 });
-  }
-}
+export const GET_ONE = withLogging(
+  withAuth<ItemRouteParams>(
+    withTenant(async (request, { params, tenantId }) => {
+      const { id } = await params; // MUST await in Next.js 16
+
+      try {
+        const items = await db.select().from(entities).where(entityInTenant(id, tenantId)).limit(1);
+
+        if (items.length === 0) {
+          return apiError(request, { code: 'NOT_FOUND', message: 'Entity not found' });
+        }
+
+        // ETag lets clients send If-Match on PATCH/DELETE
+        return NextResponse.json(
+          { success: true, data: items[0] },
+          { headers: { ETag: etagFor(items[0].updatedAt) } }
+        );
+      } catch (error) {
+        logRequestError(request, 'Failed to fetch entity', error);
+        return apiError(request, { code: 'INTERNAL_ERROR', message: 'Failed to fetch entity' });
+      }
+    }),
+    { permission: 'entities:read' }
+  ),
+  { route: '/api/entities/[id]' }
+);
 
 /**
  * PATCH /api/entities/[id]
  * Update an entity
  */
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  const { id } = await params;
-
-  let body;
-
-  // Parse JSON body
-  try {
-    body = await request.json();
-  } catch (error) {
-    return NextResponse.json(
-      { success: false, error: 'Invalid JSON in request body' },
-      { status: 400 }
-    );
-  }
-
-  // Validate with Zod
-  const validationResult = updateEntitySchema.safeParse(body);
-  if (!validationResult.success) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Validation failed',
-        details: validationResult.error.format(),
-      },
-      { status: 400 }
-    );
-  }
-
-  // Check if entity exists
-  try {
-    const existing = await db.select().from(entities).where(eq(entities.id, id)).limit(1);
-
-    if (existing.length === 0) {
-      return NextResponse.json({ success: false, error: 'Entity not found' }, { status: 404 });
-    }
-
-    // Update entity
-    const [updated] = await db
-      .update(entities)
-      .set({
-        ...validationResult.data,
-        updatedAt: new Date(),
-      })
-      .where(eq(entities.id, id))
-      .returning();
-
-    return NextResponse.json({
-      success: true,
-      data: updated,
-    });
-  } catch (error) {
-    // Handle unique constraint violations
-    if (error instanceof Error && error.message.includes('unique constraint')) {
-      return NextResponse.json(
-        { success: false, error: 'Entity with this identifier already exists' },
-        { status: 409 }
-      );
-    }
-
-    console.error('Failed to update entity:', error);
-    return NextResponse.json({ success: false, error: 'Failed to update entity' }, { status: 500 });
-  }
-}
+export const PATCH = withLogging(
+  withAuth<ItemRouteParams>(
+    withTenant(async (request, { params, tenantId }) => {
+      const { id } = await params;
+
+      let body;
+
+      // Parse JSON body
+      try {
+        body = await request.json();
+      } catch (error) {
+        return apiError(request, { code: 'INVALID_JSON', message: 'Invalid JSON in request body' });
+      }
+
+      // Validate with Zod
+      const validationResult = updateEntitySchema.safeParse(body);
+      if (!validationResult.success) {
+        return apiError(request, {
+          code: 'VALIDATION_FAILED',
+          message: 'Validation failed',
+          details: validationResult.error.format(),
+        });
+      }
+
+      // Check if entity exists
+      try {
+        const existing = await db
+          .select()
+          .from(entities)
+          .where(entityInTenant(id, tenantId))
+          .limit(1);
+
+        if (existing.length === 0) {
+          return apiError(request, { code: 'NOT_FOUND', message: 'Entity not found' });
+        }
+
+        // 412 if the client's If-Match is stale
+        const stale = checkIfMatch(request, 'Entity', existing[0], existing[0].updatedAt);
+        if (stale) return stale;
+
+        // Update entity, only if it hasn't changed since the check above
+        const updated = await db.transaction(async (tx) => {
+          const [row] = await tx
+            .update(entities)
+            .set({
+              ...validationResult.data,
+              updatedAt: new Date(),
+            })
+            .where(
+              and(
+                entityInTenant(id, tenantId),
+                versionMatches(entities.updatedAt, existing[0].updatedAt)
+              )
+            )
+            .returning();
+
+          if (row) {
+            await recordAudit(tx, request, {
+              action: 'update',
+              entityType: 'entity',
+              entityId: id,
+              before: existing[0],
+              after: row,
+            });
+          }
+          return row;
+        });
+
+        if (!updated) {
+          const [current] = await db
+            .select()
+            .from(entities)
+            .where(entityInTenant(id, tenantId))
+            .limit(1);
+          if (!current) {
+            return apiError(request, { code: 'NOT_FOUND', message: 'Entity not found' });
+          }
+          return preconditionFailed(request, 'Entity', current, etagFor(current.updatedAt));
+        }
+
+        return NextResponse.json(
+          { success: true, data: updated },
+          { headers: { ETag: etagFor(updated.updatedAt) } }
+        );
+      } catch (error) {
+        // Handle constraint violations (duplicate, missing reference, ...) by SQLSTATE
+        const dbError = translateDbError(error, { resourceName: 'Entity', table: entities });
+        if (dbError) return apiError(request, dbError);
+
+        logRequestError(request, 'Failed to update entity', error);
+        return apiError(request, { code: 'INTERNAL_ERROR', message: 'Failed to update entity' });
+      }
+    }),
+    { permission: 'entities:update' }
+  ),
+  { route: '/api/entities/[id]' }
+);
 
 /**
  * DELETE /api/entities/[id]
  * Delete an entity
  */
-export async function DELETE(
-  _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const { id } = await params;
-
-  try {
-    // Check if entity exists
-    const existing = await db.select().from(entities).where(eq(entities.id, id)).limit(1);
-
-    if (existing.length === 0) {
-      return NextResponse.json({ success: false, error: 'Entity not found' }, { status: 404 });
-    }
-
-    // Delete entity
-    await db.delete(entities).where(eq(entities.id, id));
-
-    return NextResponse.json({
-      success: true,
-      message: 'Entity deleted successfully',
-    });
-  } catch (error) {
-    console.error('Failed to delete entity:', error);
-    return NextResponse.json({ success: false, error: 'Failed to delete entity' }, { status: 500 });
-  }
-}
+export const DELETE = withLogging(
+  withAuth<ItemRouteParams>(
+    withTenant(async (request, { params, tenantId }) => {
+      const { id } = await params;
+
+      try {
+        // Check if entity exists
+        const existing = await db
+          .select()
+          .from(entities)
+          .where(entityInTenant(id, tenantId))
+          .limit(1);
+
+        if (existing.length === 0) {
+          return apiError(request, { code: 'NOT_FOUND', message: 'Entity not found' });
+        }
+
+        const stale = checkIfMatch(request, 'Entity', existing[0], existing[0].updatedAt);
+        if (stale) return stale;
+
+        // Delete entity
+        const deleted = await db.transaction(async (tx) => {
+          const rows = await tx
+            .delete(entities)
+            .where(
+              and(
+                entityInTenant(id, tenantId),
+                versionMatches(entities.updatedAt, existing[0].updatedAt)
+              )
+            )
+            .returning();
+
+          if (rows.length > 0) {
+            await recordAudit(tx, request, {
+              action: 'delete',
+              entityType: 'entity',
+              entityId: id,
+              before: existing[0],
+              after: null,
+            });
+          }
+          return rows;
+        });
+
+        if (deleted.length === 0) {
+          const [current] = await db
+            .select()
+            .from(entities)
+            .where(entityInTenant(id, tenantId))
+            .limit(1);
+          if (!current) {
+            return apiError(request, { code: 'NOT_FOUND', message: 'Entity not found' });
+          }
+          return preconditionFailed(request, 'Entity', current, etagFor(current.updatedAt));
+        }
+
+        return NextResponse.json({
+          success: true,
+          message: 'Entity deleted successfully',
+        });
+      } catch (error) {
+        // Rows that other tables still reference return 409 STILL_REFERENCED
+        const dbError = translateDbError(error, { resourceName: 'Entity', table: entities });
+        if (dbError) return apiError(request, dbError);
+
+        logRequestError(request, 'Failed to delete entity', error);
+        return apiError(request, { code: 'INTERNAL_ERROR', message: 'Failed to delete entity' });
+      }
+    }),
+    { permission: 'entities:delete' }
+  ),
+  { route: '/api/entities/[id]' }
+);
 
 // ========== CHECKLIST ==========
 /*
@@ -272,6 +443,7 @@ When using this template:
    - Update searchCondition to search relevant fields
    - Example for users: name, email
    - Example for organisations: name, slug
+   - Sorting/filtering: use parseListQuery() from list-query.ts with an allowlist
 
 4. Response Messages:
    - Replace "entity" with your resource name in error messages
@@ -281,10 +453,10 @@ When using this template:
    - Create Zod schemas in src/lib/validations/entity.ts
    - Export CreateEntityInput and UpdateEntityInput types
 
-6. Tests:
-   - Create src/lib/api/entity.test.ts for service layer tests
-   - Mock fetch and test all CRUD operations
-   - Test validation errors, not found errors, duplicate errors
+6. Client and tests:
+   - Create src/lib/api/entities.ts with createResourceClient (api-client.ts); don't hand-write fetch calls
+   - Create src/lib/api/entities.test.ts: pass a fake `fetch` option to the client
+   - Test validation errors, not found errors, duplicate errors (thrown as ApiError)
 
 7. Item Routes Only:
    - Rename GET_ONE to GET in [id]/route.ts
@@ -292,17 +464,37 @@ When using this template:
 
 8. Database Schema:
    - Ensure your table has id, createdAt, updatedAt fields
+   - Need a trash/restore? Use createCrudHandlers({ softDelete: true }) with a deletedAt column
+   - Need bulk changes? createCrudHandlers() also provides POST /api/entities/bulk
+   - Add the audit_log table (see audit.ts); set entityType in recordAudit() calls
+   - Need GET /api/entities/[id]/history? createCrudHandlers({ audit: true }) provides it
    - Add indexes for searchable fields
    - Set up foreign key constraints if needed
 
-9. Error Handling:
-   - Log errors with console.error
-   - Return appropriate status codes
-   - Include validation details for 400 errors
-   - Use generic messages for 500 errors
-
-10. Pagination:
+9. Permissions:
+   - Set each withAuth() permission ('users:read', 'users:update', ...)
+   - Add the permissions to ROLE_PERMISSIONS in src/lib/server/auth.ts
+   - Use `{ user }` for ownership checks (e.g. only the creator may delete)
+   - Multi-tenant: withTenant() inside withAuth(); every WHERE includes organisationId
+     (entityInTenant) and inserts set organisationId: tenantId
+   - Keep organisationId out of the Zod schemas: the tenant comes from the session
+   - POST is wrapped in withIdempotency() inside withAuth() (needs the idempotency_keys table)
+   - GET list and POST are wrapped in withRateLimit() outside withAuth(); tune the policies,
+     use key: 'user' (inside withAuth()) or 'api-key' for per-account limits
+   - Several instances? setRateLimitStore(postgresRateLimitStore) (needs the rate_limits table)
+
+10. Error Handling:
+    - Database constraint errors go through translateDbError() (api-errors.ts)
+    - Stale If-Match on PATCH/DELETE returns 412 with the current record (concurrency.ts)
+    - Log unexpected errors with logRequestError() (logger.ts), never console.error
+    - Wrap each handler in withLogging() with its route pattern
+    - Return appropriate status codes
+    - Include validation details for 400 errors
+    - Use generic messages for 500 errors
+
+11. Pagination:
     - Default: page=1, limit=50
     - Max limit: 100 items per page
     - Include total count and pages in response
+    - Large tables: use cursor mode instead (cursor-pagination.ts)
 */
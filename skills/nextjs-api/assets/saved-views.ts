@@ -0,0 +1,121 @@
+/**
+ * Saved Views
+ *
+ * Copy this file to src/lib/server/saved-views.ts and add the savedViews table
+ * below to src/db/schema.ts.
+ *
+ * A saved view is a named list setup — sort, filters and visible columns —
+ * that a user can return to, e.g. "Active customers, newest first". Views are
+ * stored per user and per list page (`resource`, e.g. 'entities'), and are
+ * served by createCrudHandlers with `owner: true`, so each user only ever
+ * sees, renames and deletes their own.
+ *
+ * The state holds the list route's own parameters (`sort`, `filter[field][op]`),
+ * so applying a view is just another server-side list request. Fields are
+ * checked against the resource's sortable/filterable allowlist when the view
+ * is applied, not when it is saved.
+ *
+ * Schema (src/db/schema.ts):
+ *
+ *   import type { SavedViewState } from '@/lib/server/saved-views';
+ *
+ *   export const savedViews = pgTable(
+ *     'saved_views',
+ *     {
+ *       id: uuid('id').primaryKey().defaultRandom(),
+ *       userId: varchar('user_id', { length: 255 }).notNull(),
+ *       resource: varchar('resource', { length: 100 }).notNull(),
+ *       name: varchar('name', { length: 100 }).notNull(),
+ *       state: jsonb('state').$type<SavedViewState>().notNull(),
+ *       createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+ *       updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+ *     },
+ *     (table) => [
+ *       uniqueIndex('saved_views_user_resource_name_idx').on(table.userId, table.resource, table.name),
+ *     ]
+ *   );
+ *
+ * Routes:
+ *
+ *   // src/app/api/views/route.ts           (GET ?filter[resource]=entities, POST)
+ *   export const { GET, POST } = savedViewHandlers.collection;
+ *
+ *   // src/app/api/views/[id]/route.ts      (GET, PATCH, DELETE)
+ *   export const { GET, PATCH, DELETE } = savedViewHandlers.item;
+ *
+ * Client (src/lib/api/saved-views.ts), passed to EntityListPage's `savedViews`:
+ *
+ *   export const savedViewsApi = createResourceClient<
+ *     typeof savedViews,
+ *     typeof createSavedViewSchema,
+ *     typeof updateSavedViewSchema
+ *   >('/api/views');
+ */
+
+import { z } from 'zod';
+import { savedViews } from '@/db/schema';
+import { withCrudAuth } from '@/lib/server/auth';
+import { createCrudHandlers } from '@/lib/server/crud-handlers';
+
+// ========== SCHEMAS ==========
+
+const operatorValue = z.string().max(1000).optional();
+
+/** Values per operator, as in ?filter[field][op]=value ('in' values are comma-separated) */
+const filterConditionSchema = z
+  .object({
+    eq: operatorValue,
+    ne: operatorValue,
+    gt: operatorValue,
+    gte: operatorValue,
+    lt: operatorValue,
+    lte: operatorValue,
+    in: operatorValue,
+    isNull: operatorValue,
+  })
+  .strict();
+
+export const savedViewStateSchema = z.object({
+  /** Fields, `-` for descending: ['-createdAt', 'name'] */
+  sort: z
+    .array(z.string().regex(/^-?[A-Za-z_][\w.]*$/, 'Invalid sort field'))
+    .max(10)
+    .default([]),
+  filter: z.record(z.string().max(100), filterConditionSchema).default({}),
+  /** Visible column keys; empty for the page's default columns */
+  columns: z.array(z.string().max(100)).max(50).default([]),
+});
+
+export type SavedViewState = z.infer<typeof savedViewStateSchema>;
+
+export const createSavedViewSchema = z.object({
+  /** The list page the view belongs to, e.g. 'entities' */
+  resource: z
+    .string()
+    .max(100)
+    .regex(/^[a-z][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  state: savedViewStateSchema,
+});
+
+// A view stays on its page; only the name and state change
+export const updateSavedViewSchema = createSavedViewSchema.omit({ resource: true }).partial();
+
+// ========== HANDLERS ==========
+
+/**
+ * Needs views:read / create / update / delete (ROLE_PERMISSIONS gives every
+ * role 'views:*'); ownership is enforced by `owner`, not by permissions.
+ */
+export const savedViewHandlers = withCrudAuth(
+  createCrudHandlers({
+    table: savedViews,
+    createSchema: createSavedViewSchema,
+    updateSchema: updateSavedViewSchema,
+    resourceName: 'View',
+    owner: true,
+    sortable: ['name', 'createdAt', 'updatedAt'],
+    filterable: { resource: ['eq'] },
+  }),
+  'views'
+);
@@ -0,0 +1,147 @@
+/**
+ * Search Strategies
+ *
+ * Copy this file to src/lib/server/search.ts.
+ *
+ * Builds the `?search=` condition for a list route, and a rank to order by,
+ * with one of three strategies:
+ *
+ * | Strategy  | Matches                               | Ranked | Index                      |
+ * | --------- | ------------------------------------- | ------ | -------------------------- |
+ * | ilike     | Substring, case-insensitive (default) | No     | GIN gin_trgm_ops (pg_trgm) |
+ * | trigram   | Substring or similar spelling         | Yes    | GIN gin_trgm_ops (pg_trgm) |
+ * | fulltext  | Words and phrases, stemmed            | Yes    | GIN on the tsvector        |
+ *
+ * User input is never part of a pattern unescaped: `%` and `_` match
+ * themselves, and fulltext input goes through websearch_to_tsquery, which
+ * accepts anything a user types ("quoted phrases", -exclusions, or).
+ *
+ * Migrations (drizzle-kit generates the indexes from the schema; add the
+ * extension to the first migration by hand):
+ *
+ * ilike and trigram: one trigram index per search field
+ *
+ *   CREATE EXTENSION IF NOT EXISTS pg_trgm;
+ *
+ *   // src/db/schema.ts
+ *   (table) => [
+ *     index('entities_name_trgm_idx').using('gin', table.name.op('gin_trgm_ops')),
+ *     index('entities_email_trgm_idx').using('gin', table.email.op('gin_trgm_ops')),
+ *   ]
+ *
+ *   Trigram matches use pg_trgm.similarity_threshold (default 0.3). Lower it
+ *   for fuzzier matching: ALTER DATABASE app SET pg_trgm.similarity_threshold = 0.2;
+ *
+ * fulltext: one expression index over all search fields. It must match
+ * fulltextVector() exactly (same language, same field order) to be used:
+ *
+ *   // src/db/schema.ts
+ *   (table) => [
+ *     index('entities_search_idx').using(
+ *       'gin',
+ *       sql`to_tsvector('english', coalesce(${table.name}, '') || ' ' || coalesce(${table.email}, ''))`
+ *     ),
+ *   ]
+ */
+
+import { ilike, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// ========== TYPES ==========
+
+export type SearchStrategy = 'ilike' | 'trigram' | 'fulltext';
+
+export const SEARCH_STRATEGIES: SearchStrategy[] = ['ilike', 'trigram', 'fulltext'];
+
+export interface SearchOptions {
+  /** Default: ilike */
+  strategy?: SearchStrategy;
+  /** Text search configuration for fulltext, e.g. 'english', 'german', 'simple'. Default: english */
+  language?: string;
+}
+
+export interface SearchQuery {
+  where: SQL | undefined;
+  /** Higher is more relevant; undefined when the strategy doesn't rank */
+  rank: SQL | undefined;
+}
+
+// ========== HELPERS ==========
+
+/**
+ * Escape LIKE wildcards so user input matches literally.
+ *
+ * @example
+ * ilike(products.name, `%${escapeLikePattern('100%_pure')}%`); // matches "100%_pure" only
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/** Text search configurations are identifiers, not values, so they're inlined */
+function languageConfig(language: string) {
+  if (!/^[a-z_]+$/.test(language)) throw new Error(`Invalid text search language "${language}"`);
+  return sql.raw(`'${language}'`);
+}
+
+/**
+ * The tsvector searched by the fulltext strategy. The fulltext index must be
+ * built on this exact expression.
+ */
+export function fulltextVector(fields: AnyPgColumn[], language = 'english'): SQL {
+  const document = sql.join(
+    fields.map((field) => sql`coalesce(${field}, '')`),
+    sql` || ' ' || `
+  );
+  return sql`to_tsvector(${languageConfig(language)}, ${document})`;
+}
+
+// ========== SEARCH ==========
+
+/**
+ * Build the search condition and rank for `?search=`.
+ *
+ * @example
+ * const { where, rank } = buildSearch([users.name, users.email], search, { strategy: 'fulltext' });
+ * const rows = await db
+ *   .select()
+ *   .from(users)
+ *   .where(where)
+ *   .orderBy(...(rank ? [desc(rank)] : []), asc(users.id));
+ */
+export function buildSearch(
+  fields: AnyPgColumn[] | undefined,
+  search: string | undefined,
+  options: SearchOptions = {}
+): SearchQuery {
+  const term = search?.trim();
+  if (!term || !fields || fields.length === 0) return { where: undefined, rank: undefined };
+
+  const substring = or(...fields.map((field) => ilike(field, `%${escapeLikePattern(term)}%`)));
+
+  switch (options.strategy ?? 'ilike') {
+    case 'trigram': {
+      // `%` is pg_trgm's similarity operator; both it and ilike use the trigram index
+      const similar = or(...fields.map((field) => sql`${field} % ${term}`));
+      const similarities = fields.map((field) => sql`similarity(${field}, ${term})`);
+      return {
+        where: or(substring, similar),
+        rank:
+          similarities.length > 1
+            ? sql`greatest(${sql.join(similarities, sql`, `)})`
+            : similarities[0],
+      };
+    }
+
+    case 'fulltext': {
+      const language = options.language ?? 'english';
+      const vector = fulltextVector(fields, language);
+      const query = sql`websearch_to_tsquery(${languageConfig(language)}, ${term})`;
+      return { where: sql`${vector} @@ ${query}`, rank: sql`ts_rank(${vector}, ${query})` };
+    }
+
+    default:
+      return { where: substring, rank: undefined };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Server Action Helpers
+ *
+ * Copy this file to src/lib/server/actions.ts.
+ *
+ * Lets Server Actions (actions-template.ts) follow the same conventions as the
+ * route handlers: the { success, data } / { success: false, error, code }
+ * envelope, Zod `details` for validation errors, translateDbError() for
+ * constraint errors, permissions and request ids.
+ *
+ * Actions receive no NextRequest, so actionRequest() rebuilds one from the
+ * incoming headers. authorize(), recordAudit() and the logger then work
+ * exactly as they do inside withAuth().
+ */
+
+import { headers } from 'next/headers';
+import { NextRequest } from 'next/server';
+import type { z } from 'zod';
+import type { ApiError, ApiErrorCode } from '@/lib/server/api-errors';
+import { getRequestId } from '@/lib/server/logger';
+
+// ========== TYPES ==========
+
+/** Same fields as the error envelope returned by apiError() */
+export interface ActionFailure {
+  success: false;
+  error: string;
+  code: ApiErrorCode;
+  field?: string;
+  /** Zod `error.format()` output for validation failures */
+  details?: unknown;
+  /** Current record, e.g. for PRECONDITION_FAILED */
+  data?: unknown;
+  requestId: string;
+}
+
+/**
+ * What every action returns. Type-only imports of it are safe in client code.
+ *
+ * @example
+ * const [state, formAction, pending] = useActionState<ActionResult<Entity> | null, FormData>(
+ *   createEntity,
+ *   null
+ * );
+ */
+export type ActionResult<T> = { success: true; data: T } | ActionFailure;
+
+// ========== REQUEST ==========
+
+/**
+ * A NextRequest for the action's incoming request, carrying its cookies and
+ * headers (and so its session and x-request-id). The URL is a placeholder:
+ * actions are addressed by id, not by path.
+ */
+export async function actionRequest(): Promise<NextRequest> {
+  const incoming = await headers();
+  const host = incoming.get('host') ?? 'localhost';
+  return new NextRequest(`http://${host}/`, { headers: new Headers(incoming) });
+}
+
+// ========== RESULTS ==========
+
+/**
+ * Failure result for an ApiError, with the request id the logs use.
+ *
+ * @example
+ * const dbError = translateDbError(error, { resourceName: 'User', table: users });
+ * if (dbError) return actionError(request, dbError);
+ */
+export function actionError(request: NextRequest, error: ApiError): ActionFailure {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...(error.field && { field: error.field }),
+    ...(error.details !== undefined && { details: error.details }),
+    ...(error.data !== undefined && { data: error.data }),
+    requestId: getRequestId(request),
+  };
+}
+
+// ========== FORM DATA ==========
+
+/**
+ * Validate submitted form fields with a Zod schema.
+ *
+ * FormData values are strings, so schemas with numbers, booleans or dates
+ * need z.coerce. Empty fields become undefined, so `.optional()` works as it
+ * does for JSON bodies. React's internal `$ACTION_` fields are dropped.
+ *
+ * @example
+ * const parsed = parseFormData(formData, createUserSchema);
+ * if (!parsed.success) {
+ *   return actionError(request, {
+ *     code: 'VALIDATION_FAILED',
+ *     message: 'Validation failed',
+ *     details: parsed.error.format(),
+ *   });
+ * }
+ */
+export function parseFormData<TSchema extends z.ZodTypeAny>(
+  formData: FormData,
+  schema: TSchema,
+  options: { omit?: string[] } = {}
+): z.SafeParseReturnType<z.input<TSchema>, z.output<TSchema>> {
+  const values: Record<string, string> = {};
+  for (const [key, value] of formData) {
+    if (key.startsWith('$ACTION_') || options.omit?.includes(key)) continue;
+    if (typeof value === 'string' && value !== '') values[key] = value;
+  }
+  return schema.safeParse(values);
+}
@@ -0,0 +1,129 @@
+/**
+ * Tenant Scoping
+ *
+ * Copy this file to src/lib/server/tenancy.ts.
+ *
+ * Keeps each organisation's rows apart in a multi-tenant app. The tenant is
+ * resolved from the session (AuthUser.organisationId), never from the body or
+ * query string, so a user can't ask for another organisation's data.
+ *
+ * Every query on a tenant-owned table adds `eq(table.organisationId, tenantId)`
+ * and every insert stamps it. A row that belongs to another tenant is then
+ * simply not found: the API answers 404, not 403, so ids can't be probed to
+ * learn which exist elsewhere. Signed-in users without a tenant get 403.
+ *
+ * createCrudHandlers({ tenant: true }) does all of this for a resource. In
+ * hand-written routes, wrap the handler with withTenant() inside withAuth():
+ *
+ *   export const GET = withAuth(
+ *     withTenant(async (request, { tenantId }) => {
+ *       const rows = await db.select().from(entities).where(eq(entities.organisationId, tenantId));
+ *       ...
+ *     }),
+ *     { permission: 'entities:read' }
+ *   );
+ *
+ * Schema: a non-null organisation_id column on each tenant-owned table, and
+ * indexes that lead with it (unique indexes too, so names are unique per tenant):
+ *
+ *   organisationId: uuid('organisation_id')
+ *     .notNull()
+ *     .references(() => organisations.id),
+ *
+ *   (table) => [uniqueIndex('entities_org_email_idx').on(table.organisationId, table.email)]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/server/api-errors';
+import type { ApiError } from '@/lib/server/api-errors';
+import { getAuthUser, resolveSession } from '@/lib/server/auth';
+
+// ========== TYPES ==========
+
+/** Turns a request into the current tenant's id, or null when it has none */
+export type TenantResolver = (request: NextRequest) => Promise<string | null>;
+
+export type RequireTenantResult =
+  { tenantId: string; error?: never } | { tenantId?: never; error: ApiError };
+
+/** Handler that receives the tenant id alongside the route context */
+export type TenantHandler<TContext> = (
+  request: NextRequest,
+  context: TContext & { tenantId: string }
+) => Promise<NextResponse>;
+
+/** Column createCrudHandlers scopes by unless `tenant.field` says otherwise */
+export const DEFAULT_TENANT_FIELD = 'organisationId';
+
+// ========== RESOLUTION ==========
+
+/** The signed-in user's organisation, reusing the user withAuth() resolved */
+const sessionTenantResolver: TenantResolver = async (request) => {
+  const user = getAuthUser(request) ?? (await resolveSession(request));
+  return user?.organisationId ?? null;
+};
+
+let resolver: TenantResolver = sessionTenantResolver;
+
+/**
+ * Replace how the tenant is resolved, e.g. from an organisation switcher
+ * stored in the session. Always check the user belongs to the tenant.
+ *
+ * @example
+ * // instrumentation.ts
+ * setTenantResolver(async (request) => {
+ *   const session = await auth();
+ *   return session?.activeOrganisationId ?? null;
+ * });
+ */
+export function setTenantResolver(next: TenantResolver): void {
+  resolver = next;
+}
+
+// Tenants resolved per request, so every query in a request uses the same one
+const tenants = new WeakMap<NextRequest, string | null>();
+
+/** The request's tenant id, or null when the user has none */
+export async function getTenantId(request: NextRequest): Promise<string | null> {
+  if (!tenants.has(request)) tenants.set(request, await resolver(request));
+  return tenants.get(request) ?? null;
+}
+
+/**
+ * The request's tenant id, or the 403 withTenant() responds with.
+ * For code that isn't a route handler, e.g. Server Actions.
+ *
+ * @example
+ * const { tenantId, error } = await requireTenant(request);
+ * if (error) return actionError(request, error);
+ */
+export async function requireTenant(request: NextRequest): Promise<RequireTenantResult> {
+  const tenantId = await getTenantId(request);
+  if (!tenantId) {
+    return { error: { code: 'FORBIDDEN', message: 'No organisation selected' } };
+  }
+  return { tenantId };
+}
+
+// ========== WRAPPERS ==========
+
+/**
+ * Resolve the tenant before running a handler, and pass it as `{ tenantId }`.
+ * Put it inside withAuth(), so signed-out requests still get a 401.
+ *
+ * @example
+ * export const DELETE = withAuth<ItemRouteParams>(
+ *   withTenant(async (request, { params, tenantId }) => { ... }),
+ *   { permission: 'entities:delete' }
+ * );
+ */
+export function withTenant<TContext extends object = object>(
+  handler: TenantHandler<TContext>
+): (request: NextRequest, context: TContext) => Promise<NextResponse> {
+  return async (request, context) => {
+    const { tenantId, error } = await requireTenant(request);
+    if (error) return apiError(request, error);
+
+    return handler(request, { ...context, tenantId });
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * API Contract Test Template
+ *
+ * Checks that the API still behaves the way openapi.json says it does: every
+ * response must use a documented status and match that status's schema.
+ * Generate the spec first (npx tsx scripts/generate-openapi.ts).
+ *
+ * Replace 'entity' with your actual entity name (e.g., organisation, user, etc.)
+ */
+
+import { readFileSync } from 'node:fs';
+import { test, expect } from '../helpers/auth'; // Signed in as admin by default
+import type { APIResponse } from '@playwright/test';
+
+type Schema = { [keyword: string]: unknown };
+
+interface OpenApiSpec {
+  paths: Record<string, Record<string, { responses: Record<string, Schema> }>>;
+  components: Record<string, Record<string, Schema>>;
+}
+
+const spec: OpenApiSpec = JSON.parse(readFileSync('openapi.json', 'utf8'));
+
+/** Follow a '#/components/...' reference */
+function resolve(schema: Schema): Schema {
+  if (typeof schema.$ref !== 'string') return schema;
+  const [, , section, name] = schema.$ref.split('/');
+  return resolve(spec.components[section][name]);
+}
+
+function typeOf(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Minimal JSON Schema check for the keywords the generator emits.
+ * Returns the mismatches as 'path: problem' strings.
+ */
+function validate(value: unknown, rawSchema: Schema, path = '$'): string[] {
+  const schema = resolve(rawSchema);
+  const problems: string[] = [];
+
+  if (schema.allOf) {
+    for (const part of schema.allOf as Schema[]) problems.push(...validate(value, part, path));
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const options = schema[keyword] as Schema[] | undefined;
+    if (options && !options.some((option) => validate(value, option, path).length === 0)) {
+      problems.push(`${path}: matches none of ${keyword}`);
+    }
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    problems.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !(schema.enum as unknown[]).includes(value)) {
+    problems.push(`${path}: ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (schema.type) {
+    const allowed = [schema.type].flat() as string[];
+    const actual = typeOf(value);
+    if (!allowed.includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+      return [...problems, `${path}: expected ${allowed.join(' | ')}, got ${actual}`];
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      problems.push(...validate(item, schema.items as Schema, `${path}[${index}]`))
+    );
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, Schema>;
+
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in record)) problems.push(`${path}.${key}: missing`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (properties[key]) problems.push(...validate(item, properties[key], `${path}.${key}`));
+      else if (schema.additionalProperties === false) problems.push(`${path}.${key}: not allowed`);
+    }
+  }
+
+  return problems;
+}
+
+/** Fail unless the response's status is documented and its body matches */
+async function expectMatchesSpec(response: APIResponse, path: string, method: string) {
+  const operation = spec.paths[path]?.[method];
+  expect(operation, `${method.toUpperCase()} ${path} is not in openapi.json`).toBeDefined();
+
+  const status = String(response.status());
+  const documented = operation.responses[status];
+  expect(
+    documented,
+    `${method.toUpperCase()} ${path} returned undocumented ${status}`
+  ).toBeDefined();
+
+  const { content } = resolve(documented) as { content?: Record<string, { schema: Schema }> };
+  const schema = content?.['application/json']?.schema;
+  if (schema) expect(validate(await response.json(), schema)).toEqual([]);
+}
+
+test.describe('Entity API Contract', () => {
+  test('list matches the spec', async ({ request }) => {
+    const response = await request.get('/api/entities?page=1&limit=5');
+    expect(response.status()).toBe(200);
+    await expectMatchesSpec(response, '/api/entities', 'get');
+  });
+
+  test('invalid query matches the spec', async ({ request }) => {
+    const response = await request.get('/api/entities?sort=notAField');
+    expect(response.status()).toBe(400);
+    await expectMatchesSpec(response, '/api/entities', 'get');
+  });
+
+  test('create, read, update and delete match the spec', async ({ request }) => {
+    const uniqueId = Date.now();
+
+    // Replace with a valid body for your create schema
+    const created = await request.post('/api/entities', {
+      data: { name: `Contract ${uniqueId}`, email: `contract-${uniqueId}@example.com` },
+    });
+    expect(created.status()).toBe(201);
+    await expectMatchesSpec(created, '/api/entities', 'post');
+    const { data: entity } = await created.json();
+
+    const itemPath = '/api/entities/{id}';
+    const url = `/api/entities/${entity.id}`;
+
+    await expectMatchesSpec(await request.get(url), itemPath, 'get');
+    await expectMatchesSpec(
+      await request.patch(url, { data: { name: `Contract ${uniqueId} renamed` } }),
+      itemPath,
+      'patch'
+    );
+    await expectMatchesSpec(await request.delete(url), itemPath, 'delete');
+  });
+
+  test('validation and not-found errors match the spec', async ({ request }) => {
+    const invalid = await request.post('/api/entities', { data: {} });
+    expect(invalid.status()).toBe(400);
+    await expectMatchesSpec(invalid, '/api/entities', 'post');
+
+    const missing = await request.get('/api/entities/00000000-0000-0000-0000-000000000000');
+    expect(missing.status()).toBe(404);
+    await expectMatchesSpec(missing, '/api/entities/{id}', 'get');
+  });
+
+  test.describe('signed out', () => {
+    test.use({ role: null });
+
+    test('401 matches the spec', async ({ request }) => {
+      const response = await request.get('/api/entities');
+      expect(response.status()).toBe(401);
+      await expectMatchesSpec(response, '/api/entities', 'get');
+    });
+  });
+});
+
+/**
+ * Sparse Fieldsets
+ *
+ * For resources with `selectable` / `includable` in createCrudHandlers.
+ * Replace the fields and the `organisation` relation with your own.
+ */
+test.describe('Entity Fieldsets', () => {
+  test('should return only the requested fields', async ({ request }) => {
+    const response = await request.get('/api/entities?fields=name&limit=5');
+    expect(response.status()).toBe(200);
+    await expectMatchesSpec(response, '/api/entities', 'get');
+
+    const { data } = await response.json();
+    for (const entity of data) {
+      expect(Object.keys(entity).sort()).toEqual(['id', 'name']); // id is always returned
+    }
+  });
+
+  test('should narrow the item route too', async ({ request }) => {
+    const created = await request.post('/api/entities', {
+      data: { name: `Fields ${Date.now()}`, email: `fields-${Date.now()}@example.com` },
+    });
+    const { data: entity } = await created.json();
+
+    const response = await request.get(`/api/entities/${entity.id}?fields=email`);
+    await expectMatchesSpec(response, '/api/entities/{id}', 'get');
+    expect((await response.json()).data).toEqual({ id: entity.id, email: entity.email });
+  });
+
+  test('should embed included relations', async ({ request }) => {
+    const response = await request.get('/api/entities?fields=name&include=organisation&limit=5');
+    expect(response.status()).toBe(200);
+    await expectMatchesSpec(response, '/api/entities', 'get');
+
+    const { data } = await response.json();
+    for (const entity of data) {
+      expect(entity).toHaveProperty('organisation');
+      if (entity.organisation) {
+        expect(Object.keys(entity.organisation).sort()).toEqual(['id', 'name']);
+      }
+    }
+  });
+
+  test('should reject fields and relations outside the allowlist', async ({ request }) => {
+    const field = await request.get('/api/entities?fields=passwordHash');
+    expect(field.status()).toBe(400);
+    expect((await field.json()).details.fields._errors).toContain('Cannot select "passwordHash"');
+    await expectMatchesSpec(field, '/api/entities', 'get');
+
+    const relation = await request.get('/api/entities?include=secrets');
+    expect(relation.status()).toBe(400);
+    expect((await relation.json()).code).toBe('INVALID_QUERY');
+  });
+});
+
+/**
+ * Request IDs
+ *
+ * For routes wrapped in withLogging() (logger.ts).
+ */
+test.describe('Entity Request IDs', () => {
+  test('should return a request id on every response', async ({ request }) => {
+    const response = await request.get('/api/entities?limit=1');
+    expect(response.headers()['x-request-id']).toMatch(/^[\w.:-]+$/);
+  });
+
+  test('should put the request id in error envelopes', async ({ request }) => {
+    const response = await request.get('/api/entities/00000000-0000-0000-0000-000000000000');
+    expect(response.status()).toBe(404);
+
+    const body = await response.json();
+    expect(body.requestId).toBe(response.headers()['x-request-id']);
+  });
+
+  test('should keep a valid incoming request id', async ({ request }) => {
+    const requestId = `e2e-${Date.now()}`;
+    const response = await request.post('/api/entities', {
+      data: {},
+      headers: { 'x-request-id': requestId },
+    });
+    expect(response.status()).toBe(400);
+    expect(response.headers()['x-request-id']).toBe(requestId);
+    expect((await response.json()).requestId).toBe(requestId);
+  });
+
+  test('should replace an unsafe incoming request id', async ({ request }) => {
+    const response = await request.get('/api/entities?limit=1', {
+      headers: { 'x-request-id': 'id with spaces and "quotes"' },
+    });
+    expect(response.headers()['x-request-id']).not.toContain(' ');
+  });
+});
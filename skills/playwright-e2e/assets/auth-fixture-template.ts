@@ -0,0 +1,92 @@
+/**
+ * Auth Fixture Template
+ *
+ * Copy this file to e2e/helpers/auth.ts and import `test`/`expect` from it
+ * instead of '@playwright/test'.
+ *
+ * Logs every test in as a role through the stub session provider
+ * (src/lib/server/auth-stub.ts). The dev server must run with AUTH_STUB=true:
+ *
+ *   // playwright.config.ts
+ *   webServer: { command: 'npm run dev', env: { AUTH_STUB: 'true' } }
+ *
+ * The role is sent as the `x-stub-role` header, so it applies to both page
+ * navigation and the `request` fixture.
+ *
+ * Multi-tenant apps (tenancy.ts): the user belongs to the `organisation`
+ * option, sent as `x-stub-organisation`. Both test organisations must exist in
+ * the test database, e.g. in the seed script:
+ *
+ *   INSERT INTO organisations (id, name) VALUES
+ *     ('00000000-0000-4000-8000-00000000000a', 'Acme'),
+ *     ('00000000-0000-4000-8000-00000000000b', 'Globex')
+ *   ON CONFLICT DO NOTHING;
+ */
+
+import { test as base, expect } from '@playwright/test';
+import type { APIRequestContext } from '@playwright/test';
+
+// Must match ROLE_PERMISSIONS in src/lib/server/auth.ts
+export type TestRole = 'admin' | 'editor' | 'viewer';
+
+export const STUB_ROLE_HEADER = 'x-stub-role';
+export const STUB_ORGANISATION_HEADER = 'x-stub-organisation';
+
+/** Two tenants, for proving one can't see the other's data */
+export const TEST_ORGANISATIONS = {
+  acme: '00000000-0000-4000-8000-00000000000a',
+  globex: '00000000-0000-4000-8000-00000000000b',
+} as const;
+
+export type TestOrganisation = keyof typeof TEST_ORGANISATIONS;
+
+export interface RequestAsOptions {
+  role?: TestRole;
+  organisation?: TestOrganisation | null;
+}
+
+function stubHeaders(role: TestRole | null, organisation: TestOrganisation | null) {
+  return {
+    ...(role && { [STUB_ROLE_HEADER]: role }),
+    ...(organisation && { [STUB_ORGANISATION_HEADER]: TEST_ORGANISATIONS[organisation] }),
+  };
+}
+
+export const test = base.extend<{
+  role: TestRole | null;
+  organisation: TestOrganisation | null;
+  /** An API client signed in as another user, for tests that need two at once */
+  requestAs: (options: RequestAsOptions) => Promise<APIRequestContext>;
+}>({
+  // Default role; override per file or describe block with test.use({ role: 'viewer' })
+  // Use { role: null } to test as a signed-out visitor
+  role: ['admin', { option: true }],
+
+  // Default tenant; override with test.use({ organisation: 'globex' })
+  // Use { organisation: null } to test as a user without one. Ignored by single-tenant apps
+  organisation: ['acme', { option: true }],
+
+  extraHTTPHeaders: async ({ role, organisation, extraHTTPHeaders }, use) => {
+    await use({ ...extraHTTPHeaders, ...stubHeaders(role, organisation) });
+  },
+
+  requestAs: async ({ playwright, baseURL, role, organisation }, use) => {
+    const contexts: APIRequestContext[] = [];
+
+    await use(async (options) => {
+      const context = await playwright.request.newContext({
+        baseURL,
+        extraHTTPHeaders: stubHeaders(
+          options.role ?? role,
+          options.organisation === undefined ? organisation : options.organisation
+        ),
+      });
+      contexts.push(context);
+      return context;
+    });
+
+    await Promise.all(contexts.map((context) => context.dispose()));
+  },
+});
+
+export { expect };
@@ -5,7 +5,8 @@
  * Replace 'entity' with your actual entity name (e.g., organisation, user, etc.)
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect, TEST_ORGANISATIONS } from '../helpers/auth'; // Signed in as admin by default
+import type { APIRequestContext, Page } from '@playwright/test';
 import { t } from '../helpers/translations';
 
 test.describe('Entity CRUD Operations', () => {
@@ -237,3 +238,807 @@ test.describe('Entity CRUD Operations', () => {
     await expect(dialog).not.toBeVisible();
   });
 });
+
+/**
+ * Soft Delete (Trash) Tests
+ *
+ * For resources created with createCrudHandlers({ softDelete: true }).
+ * Delete moves the entity to the Trash tab, where it can be restored or
+ * deleted permanently. Remove this block for hard-delete resources.
+ */
+test.describe('Entity Trash', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/entities');
+  });
+
+  // Create an entity through the UI and move it to the trash
+  async function createAndTrash(page: Page, entityName: string) {
+    await page.getByTestId('create-entity-button').click();
+    const createDialog = page.getByTestId('entity-dialog');
+    await createDialog.getByLabel(t.common.labels.name).fill(entityName);
+    await createDialog.getByTestId('entity-dialog-save').click();
+    await expect(createDialog).not.toBeVisible();
+
+    await page.getByTestId('entities-search-field').locator('input').fill(entityName);
+    await page.waitForTimeout(500);
+    await expect(page.getByText(entityName)).toBeVisible();
+
+    await page.locator('[data-testid^="delete-entity-"]').first().click();
+    const deleteDialog = page.getByTestId('delete-entity-dialog');
+    await deleteDialog.getByTestId('delete-dialog-confirm').click();
+    await expect(deleteDialog).not.toBeVisible();
+  }
+
+  test('should move a deleted entity to the trash', async ({ page }) => {
+    const entityName = `Trash Test ${Date.now()}`;
+
+    await createAndTrash(page, entityName);
+
+    // Gone from the active list
+    await expect(page.getByText(entityName)).not.toBeVisible();
+
+    // Listed in the Trash tab (search is kept between tabs)
+    await page.getByTestId('entities-tab-trash').click();
+    await expect(page.getByText(entityName)).toBeVisible();
+    await expect(page.locator('[data-testid^="restore-entity-"]').first()).toBeVisible();
+  });
+
+  test('should restore an entity from the trash', async ({ page }) => {
+    const entityName = `Restore Test ${Date.now()}`;
+
+    await createAndTrash(page, entityName);
+
+    await page.getByTestId('entities-tab-trash').click();
+    await expect(page.getByText(entityName)).toBeVisible();
+
+    // Restore removes it from the trash
+    await page.locator('[data-testid^="restore-entity-"]').first().click();
+    await expect(page.getByText(entityName)).not.toBeVisible();
+
+    // And it's back in the active list
+    await page.getByTestId('entities-tab-active').click();
+    await expect(page.getByText(entityName)).toBeVisible();
+  });
+
+  test('should permanently delete an entity from the trash', async ({ page, request }) => {
+    const entityName = `Permanent Test ${Date.now()}`;
+
+    await createAndTrash(page, entityName);
+
+    await page.getByTestId('entities-tab-trash').click();
+    await page.locator('[data-testid^="permanent-delete-entity-"]').first().click();
+
+    // Permanent delete warns that it can't be undone
+    const deleteDialog = page.getByTestId('delete-entity-dialog');
+    await expect(deleteDialog).toBeVisible();
+    await expect(deleteDialog).toContainText(entityName);
+    await deleteDialog.getByTestId('delete-dialog-confirm').click();
+    await expect(deleteDialog).not.toBeVisible();
+
+    await expect(page.getByText(entityName)).not.toBeVisible();
+
+    // The DELETE is sent once the Undo snackbar closes
+    await expect(page.getByTestId('entity-undo-snackbar')).not.toBeVisible({ timeout: 10_000 });
+
+    // The row no longer exists, even with includeDeleted
+    const response = await request.get(
+      `/api/entities?includeDeleted=true&search=${encodeURIComponent(entityName)}`
+    );
+    const body = await response.json();
+    expect(body.data).toHaveLength(0);
+  });
+
+  test('should hide trashed entities from the API unless includeDeleted=true', async ({
+    request,
+  }) => {
+    const entityName = `API Trash ${Date.now()}`;
+
+    const created = await request.post('/api/entities', { data: { name: entityName } });
+    const { data: entity } = await created.json();
+
+    const deleted = await request.delete(`/api/entities/${entity.id}`);
+    expect(deleted.ok()).toBeTruthy();
+
+    const search = `search=${encodeURIComponent(entityName)}`;
+
+    const active = await (await request.get(`/api/entities?${search}`)).json();
+    expect(active.data).toHaveLength(0);
+
+    const all = await (await request.get(`/api/entities?includeDeleted=true&${search}`)).json();
+    expect(all.data).toHaveLength(1);
+    expect(all.data[0].deletedAt).not.toBeNull();
+
+    // Item route is 404 until restored
+    expect((await request.get(`/api/entities/${entity.id}`)).status()).toBe(404);
+
+    const restored = await request.post(`/api/entities/${entity.id}/restore`);
+    expect(restored.ok()).toBeTruthy();
+    expect((await restored.json()).data.deletedAt).toBeNull();
+    expect((await request.get(`/api/entities/${entity.id}`)).status()).toBe(200);
+  });
+});
+
+/**
+ * Optimistic Update Tests
+ *
+ * Edits and deletes change the list before the server answers, and deletes
+ * can be undone from a snackbar; a failed request puts the row back with the
+ * error underneath. Saved records replace their row without a reload.
+ */
+test.describe('Entity Optimistic Updates', () => {
+  async function createEntity(request: APIRequestContext, name: string) {
+    const response = await request.post('/api/entities', { data: { name } });
+    expect(response.ok()).toBeTruthy();
+    return (await response.json()).data as { id: string; name: string };
+  }
+
+  test('should update an edited row without reloading the list', async ({ page, request }) => {
+    const uniqueId = Date.now();
+    const entity = await createEntity(request, `Optimistic ${uniqueId}`);
+    await page.goto(`/entities?search=Optimistic ${uniqueId}`);
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).toBeVisible();
+
+    // Count list requests from here on
+    let listRequests = 0;
+    page.on('request', (req) => {
+      if (req.method() === 'GET' && new URL(req.url()).pathname === '/api/entities') {
+        listRequests++;
+      }
+    });
+
+    await page.getByTestId(`edit-entity-${entity.id}`).click();
+    const dialog = page.getByTestId('entity-dialog');
+    await dialog.getByLabel(t.common.labels.name).fill(`Optimistic ${uniqueId} Renamed`);
+    await dialog.getByTestId('entity-dialog-save').click();
+    await expect(dialog).not.toBeVisible();
+
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).toContainText(
+      `Optimistic ${uniqueId} Renamed`
+    );
+    expect(listRequests).toBe(0);
+  });
+
+  test('should put an edited row back with its error when the save fails', async ({
+    page,
+    request,
+  }) => {
+    const entityName = `Edit fails ${Date.now()}`;
+    const entity = await createEntity(request, entityName);
+    await page.goto(`/entities?search=${entityName}`);
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).toBeVisible();
+
+    // Deleted elsewhere in the meantime, so this page's PUT gets a 404
+    await request.delete(`/api/entities/${entity.id}`);
+
+    await page.getByTestId(`edit-entity-${entity.id}`).click();
+    const dialog = page.getByTestId('entity-dialog');
+    await dialog.getByLabel(t.common.labels.name).fill(`${entityName} Renamed`);
+    await dialog.getByTestId('entity-dialog-save').click();
+
+    // The dialog stays open with the error; the row shows the saved name again
+    await expect(dialog).toBeVisible();
+    const row = page.getByTestId(`entity-row-${entity.id}`);
+    await expect(row).toContainText(entityName);
+    await expect(row).not.toContainText('Renamed');
+    await expect(page.getByTestId(`entity-row-error-${entity.id}`)).toContainText('not found');
+  });
+
+  test('should undo a delete', async ({ page, request }) => {
+    const entityName = `Undo ${Date.now()}`;
+    const entity = await createEntity(request, entityName);
+    await page.goto(`/entities?search=${entityName}`);
+
+    await page.getByTestId(`delete-entity-${entity.id}`).click();
+    await page.getByTestId('delete-dialog-confirm').click();
+
+    // Gone at once, with the snackbar offering Undo
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).not.toBeVisible();
+    const snackbar = page.getByTestId('entity-undo-snackbar');
+    await expect(snackbar).toContainText(entityName);
+
+    await snackbar.getByTestId('undo-delete').click();
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).toBeVisible();
+    await expect(snackbar).not.toBeVisible();
+
+    // Restored on the server too (soft delete: Undo calls restore)
+    await expect
+      .poll(async () => (await request.get(`/api/entities/${entity.id}`)).status())
+      .toBe(200);
+  });
+
+  test('should hold a permanent delete until the snackbar closes', async ({ page, request }) => {
+    const entityName = `Held ${Date.now()}`;
+    const entity = await createEntity(request, entityName);
+    await request.delete(`/api/entities/${entity.id}`); // To the trash
+
+    await page.goto(`/entities?search=${entityName}`);
+    await page.getByTestId('entities-tab-trash').click();
+    await page.getByTestId(`permanent-delete-entity-${entity.id}`).click();
+    await page.getByTestId('delete-dialog-confirm').click();
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).not.toBeVisible();
+
+    // Nothing sent yet
+    const trashed = `/api/entities?includeDeleted=true&search=${encodeURIComponent(entityName)}`;
+    expect((await (await request.get(trashed)).json()).data).toHaveLength(1);
+
+    await expect(page.getByTestId('entity-undo-snackbar')).not.toBeVisible({ timeout: 10_000 });
+    await expect.poll(async () => (await (await request.get(trashed)).json()).data.length).toBe(0);
+  });
+
+  test('should send a held delete when the page is reloaded', async ({ page, request }) => {
+    const entityName = `Reloaded ${Date.now()}`;
+    const entity = await createEntity(request, entityName);
+    await request.delete(`/api/entities/${entity.id}`); // To the trash
+
+    await page.goto(`/entities?search=${entityName}`);
+    await page.getByTestId('entities-tab-trash').click();
+    await page.getByTestId(`permanent-delete-entity-${entity.id}`).click();
+    await page.getByTestId('delete-dialog-confirm').click();
+    await expect(page.getByTestId('entity-undo-snackbar')).toBeVisible();
+
+    // Leaving before the snackbar closes still deletes it
+    await page.reload();
+    const trashed = `/api/entities?includeDeleted=true&search=${encodeURIComponent(entityName)}`;
+    await expect.poll(async () => (await (await request.get(trashed)).json()).data.length).toBe(0);
+  });
+
+  test('should put the row back with its error when a delete fails', async ({ page, request }) => {
+    const entityName = `Fails ${Date.now()}`;
+    const entity = await createEntity(request, entityName);
+    await page.goto(`/entities?search=${entityName}`);
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).toBeVisible();
+
+    // Deleted elsewhere in the meantime, so this page's DELETE gets a 404
+    await request.delete(`/api/entities/${entity.id}`);
+
+    await page.getByTestId(`delete-entity-${entity.id}`).click();
+    await page.getByTestId('delete-dialog-confirm').click();
+
+    await expect(page.getByTestId(`entity-row-${entity.id}`)).toBeVisible();
+    await expect(page.getByTestId(`entity-row-error-${entity.id}`)).toContainText('not found');
+    await expect(page.getByTestId('entities-error')).not.toBeVisible();
+  });
+});
+
+/**
+ * Permission Tests
+ *
+ * Uses the `role` option from helpers/auth.ts to act as different users.
+ * Roles and permissions are defined in ROLE_PERMISSIONS (src/lib/server/auth.ts).
+ */
+test.describe('Entity Permissions', () => {
+  test.describe('as a signed-out visitor', () => {
+    test.use({ role: null });
+
+    test('should reject API requests with 401', async ({ request }) => {
+      const response = await request.get('/api/entities');
+      expect(response.status()).toBe(401);
+
+      const body = await response.json();
+      expect(body.success).toBe(false);
+      expect(body.code).toBe('UNAUTHORIZED');
+    });
+
+    test('should redirect pages to login', async ({ page }) => {
+      await page.goto('/entities');
+      await expect(page).toHaveURL(/\/login\?callbackUrl=%2Fentities/);
+    });
+  });
+
+  test.describe('as a viewer', () => {
+    test.use({ role: 'viewer' });
+
+    test('should list entities', async ({ request }) => {
+      const response = await request.get('/api/entities');
+      expect(response.status()).toBe(200);
+    });
+
+    test('should not create entities', async ({ request }) => {
+      const response = await request.post('/api/entities', {
+        data: { name: `Viewer ${Date.now()}` },
+      });
+      expect(response.status()).toBe(403);
+
+      const body = await response.json();
+      expect(body.code).toBe('FORBIDDEN');
+    });
+  });
+
+  test.describe('as an editor', () => {
+    test.use({ role: 'editor' });
+
+    test('should create and delete entities', async ({ request }) => {
+      const created = await request.post('/api/entities', {
+        data: { name: `Editor ${Date.now()}` },
+      });
+      expect(created.status()).toBe(201);
+
+      const { data: entity } = await created.json();
+      const deleted = await request.delete(`/api/entities/${entity.id}`);
+      expect(deleted.ok()).toBeTruthy();
+    });
+  });
+});
+
+/**
+ * Tenant Isolation Tests
+ *
+ * For tenant-scoped resources (createCrudHandlers({ tenant: true }) or withTenant()).
+ * Tests run as the `acme` organisation by default; requestAs() signs in a
+ * second client as `globex`. Another tenant's entity must look like it
+ * doesn't exist: 404, never 403, and never in lists or counts.
+ */
+test.describe('Entity Tenant Isolation', () => {
+  test('should stamp the tenant on create', async ({ request }) => {
+    const response = await request.post('/api/entities', {
+      // organisationId in the body is ignored: the tenant comes from the session
+      data: { name: `Acme ${Date.now()}`, organisationId: TEST_ORGANISATIONS.globex },
+    });
+    expect(response.status()).toBe(201);
+
+    const { data: entity } = await response.json();
+    expect(entity.organisationId).toBe(TEST_ORGANISATIONS.acme);
+  });
+
+  test("should not list or count another tenant's entities", async ({ request, requestAs }) => {
+    const entityName = `Isolated ${Date.now()}`;
+    await request.post('/api/entities', { data: { name: entityName } });
+
+    const globex = await requestAs({ organisation: 'globex' });
+    const response = await globex.get(`/api/entities?search=${encodeURIComponent(entityName)}`);
+    expect(response.status()).toBe(200);
+
+    const body = await response.json();
+    expect(body.data).toEqual([]);
+    expect(body.pagination.total).toBe(0);
+
+    // Still visible to its own tenant
+    const own = await request.get(`/api/entities?search=${encodeURIComponent(entityName)}`);
+    expect((await own.json()).data).toHaveLength(1);
+  });
+
+  test("should return 404 for another tenant's entity", async ({ request, requestAs }) => {
+    const entityName = `Private ${Date.now()}`;
+    const created = await request.post('/api/entities', { data: { name: entityName } });
+    const { data: entity } = await created.json();
+
+    const globex = await requestAs({ organisation: 'globex' });
+    const attempts = [
+      globex.get(`/api/entities/${entity.id}`),
+      globex.patch(`/api/entities/${entity.id}`, { data: { name: 'Taken over' } }),
+      globex.delete(`/api/entities/${entity.id}`),
+    ];
+
+    for (const response of await Promise.all(attempts)) {
+      expect(response.status()).toBe(404);
+      expect((await response.json()).code).toBe('NOT_FOUND');
+    }
+
+    // Unchanged for its own tenant
+    const own = await request.get(`/api/entities/${entity.id}`);
+    expect(own.status()).toBe(200);
+    expect((await own.json()).data.name).toBe(entityName);
+  });
+
+  test("should not touch another tenant's entity in a bulk request", async ({
+    request,
+    requestAs,
+  }) => {
+    const created = await request.post('/api/entities', {
+      data: { name: `Bulk Private ${Date.now()}` },
+    });
+    const { data: entity } = await created.json();
+
+    const globex = await requestAs({ organisation: 'globex' });
+    const response = await globex.post('/api/entities/bulk', {
+      data: {
+        mode: 'partial',
+        operations: [
+          { op: 'update', id: entity.id, data: { name: 'Taken over' } },
+          { op: 'delete', id: entity.id },
+        ],
+      },
+    });
+    expect(response.status()).toBe(207);
+
+    const { data } = await response.json();
+    expect(data.results.map((result: { status: number }) => result.status)).toEqual([404, 404]);
+
+    const own = await request.get(`/api/entities/${entity.id}`);
+    expect(own.status()).toBe(200);
+  });
+
+  test.describe('as a user without an organisation', () => {
+    test.use({ organisation: null });
+
+    test('should reject API requests with 403', async ({ request }) => {
+      const response = await request.get('/api/entities');
+      expect(response.status()).toBe(403);
+      expect((await response.json()).code).toBe('FORBIDDEN');
+    });
+  });
+});
+
+/**
+ * Idempotency Tests
+ *
+ * For create routes wrapped in withIdempotency() (or createCrudHandlers({ idempotent: true })).
+ */
+test.describe('Entity Idempotency', () => {
+  test('should replay a create retried with the same Idempotency-Key', async ({ request }) => {
+    const data = { name: `Idempotent ${Date.now()}` };
+    const headers = { 'Idempotency-Key': crypto.randomUUID() };
+
+    const first = await request.post('/api/entities', { data, headers });
+    const second = await request.post('/api/entities', { data, headers });
+
+    expect(first.status()).toBe(201);
+    expect(second.status()).toBe(201);
+    expect(second.headers()['idempotent-replayed']).toBe('true');
+    expect((await second.json()).data.id).toBe((await first.json()).data.id);
+    // The replay carries the first request's id and ETag
+    expect(second.headers()['x-request-id']).toBe(first.headers()['x-request-id']);
+    expect(second.headers()['etag']).toBe(first.headers()['etag']);
+
+    // Only one row was created
+    const list = await request.get(`/api/entities?search=${encodeURIComponent(data.name)}`);
+    expect((await list.json()).data).toHaveLength(1);
+  });
+
+  test('should reject a reused Idempotency-Key with a different body', async ({ request }) => {
+    const headers = { 'Idempotency-Key': crypto.randomUUID() };
+
+    await request.post('/api/entities', { data: { name: `First ${Date.now()}` }, headers });
+    const reused = await request.post('/api/entities', {
+      data: { name: `Second ${Date.now()}` },
+      headers,
+    });
+
+    expect(reused.status()).toBe(422);
+    expect((await reused.json()).code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+});
+
+/**
+ * History Tests
+ *
+ * For audited resources (createCrudHandlers({ audit: true })) with the history drawer.
+ */
+test.describe('Entity History', () => {
+  test('should record who changed which fields', async ({ request }) => {
+    const entityName = `Audited ${Date.now()}`;
+
+    const created = await request.post('/api/entities', { data: { name: entityName } });
+    const { data: entity } = await created.json();
+    await request.patch(`/api/entities/${entity.id}`, {
+      data: { name: `${entityName} renamed` },
+    });
+
+    const response = await request.get(`/api/entities/${entity.id}/history`);
+    expect(response.status()).toBe(200);
+
+    // Newest first
+    const { data: entries } = await response.json();
+    expect(entries.map((entry: { action: string }) => entry.action)).toEqual(['update', 'create']);
+    expect(entries[0].changes).toEqual({
+      name: { from: entityName, to: `${entityName} renamed` },
+    });
+    expect(entries[0].actorEmail).toBe('admin@example.test'); // Stub admin user
+  });
+
+  test('should show changes in the history drawer', async ({ page, request }) => {
+    const entityName = `Drawer ${Date.now()}`;
+
+    const created = await request.post('/api/entities', { data: { name: entityName } });
+    const { data: entity } = await created.json();
+    await request.patch(`/api/entities/${entity.id}`, {
+      data: { name: `${entityName} renamed` },
+    });
+
+    await page.goto('/entities');
+    await page.getByTestId('entities-search-field').locator('input').fill(entityName);
+    await page.getByTestId(`history-entity-${entity.id}`).click();
+
+    const drawer = page.getByTestId('entity-history-drawer');
+    await expect(drawer).toBeVisible();
+
+    const changes = drawer.getByTestId('entity-history-change-name');
+    await expect(changes.first()).toContainText(`${entityName} renamed`);
+    await expect(drawer.getByTestId('entity-history-action').first()).toHaveText('update');
+
+    await drawer.getByTestId('entity-history-close').click();
+    await expect(drawer).not.toBeVisible();
+  });
+
+  // Not for tenant-scoped resources: their history ends with the row
+  test('should keep history after a permanent delete', async ({ request }) => {
+    const created = await request.post('/api/entities', {
+      data: { name: `Deleted ${Date.now()}` },
+    });
+    const { data: entity } = await created.json();
+    await request.delete(`/api/entities/${entity.id}?permanent=true`);
+
+    const response = await request.get(`/api/entities/${entity.id}/history`);
+    const { data: entries } = await response.json();
+    expect(entries[0].action).toBe('delete');
+  });
+});
+
+/**
+ * Import Tests
+ *
+ * For resources with createCrudHandlers({ import: { fields } }) and the import dialog.
+ * Assumes `email` has a unique constraint; use any unique column of your table.
+ */
+test.describe('Entity Import', () => {
+  const csvFile = (rows: string[][]) => ({
+    name: 'entities.csv',
+    mimeType: 'text/csv',
+    buffer: Buffer.from(rows.map((row) => row.join(',')).join('\r\n')),
+  });
+
+  test('should report row errors on a dry run without writing', async ({ request }) => {
+    const uniqueId = Date.now();
+    const response = await request.post('/api/entities/import?dryRun=true', {
+      multipart: {
+        file: csvFile([
+          ['Name', 'Email'],
+          [`Import ${uniqueId} A`, `import-${uniqueId}-a@example.com`],
+          ['', `import-${uniqueId}-b@example.com`], // Missing name
+          [`Import ${uniqueId} C`, `import-${uniqueId}-a@example.com`], // Duplicate email
+        ]),
+      },
+    });
+
+    expect(response.status()).toBe(207);
+    const { data: report } = await response.json();
+    expect(report).toMatchObject({ dryRun: true, total: 3, valid: 1, failed: 2, imported: 0 });
+    expect(report.errors.map((error: { row: number }) => error.row)).toEqual([3, 4]);
+    expect(report.errors[0].code).toBe('VALIDATION_FAILED');
+    expect(report.errors[1]).toMatchObject({ code: 'DUPLICATE', field: 'email' });
+
+    // Nothing was written
+    const list = await request.get(`/api/entities?search=Import ${uniqueId}`);
+    expect((await list.json()).data).toHaveLength(0);
+  });
+
+  test('should import nothing when an atomic import has errors', async ({ request }) => {
+    const uniqueId = Date.now();
+    const response = await request.post('/api/entities/import', {
+      multipart: {
+        file: csvFile([
+          ['name', 'email'],
+          [`Atomic ${uniqueId}`, `atomic-${uniqueId}@example.com`],
+          [`Atomic ${uniqueId} bad`, 'not-an-email'],
+        ]),
+      },
+    });
+
+    const { data: report } = await response.json();
+    expect(report).toMatchObject({ valid: 1, failed: 1, imported: 0 });
+
+    const list = await request.get(`/api/entities?search=Atomic ${uniqueId}`);
+    expect((await list.json()).data).toHaveLength(0);
+  });
+
+  test('should import the valid rows in partial mode', async ({ request }) => {
+    const uniqueId = Date.now();
+    const response = await request.post('/api/entities/import?mode=partial', {
+      multipart: {
+        file: csvFile([
+          ['name', 'email'],
+          [`Partial ${uniqueId}`, `partial-${uniqueId}@example.com`],
+          [`Partial ${uniqueId} bad`, 'not-an-email'],
+        ]),
+      },
+    });
+
+    const { data: report } = await response.json();
+    expect(report).toMatchObject({ valid: 1, failed: 1, imported: 1 });
+
+    const list = await request.get(`/api/entities?search=Partial ${uniqueId}`);
+    expect((await list.json()).data).toHaveLength(1);
+  });
+
+  test('should reject a file without a matching column', async ({ request }) => {
+    const response = await request.post('/api/entities/import', {
+      multipart: { file: csvFile([['Colour'], ['Blue']]) },
+    });
+    expect(response.status()).toBe(400);
+    expect((await response.json()).code).toBe('INVALID_FILE');
+  });
+
+  test('should check, report and import from the dialog', async ({ page }) => {
+    const uniqueId = Date.now();
+    await page.goto('/entities');
+    await page.getByTestId('import-entities-button').click();
+
+    const dialog = page.getByTestId('entity-import-dialog');
+    await dialog.getByTestId('entity-import-file').setInputFiles(
+      csvFile([
+        ['name', 'email'],
+        [`Dialog ${uniqueId}`, `dialog-${uniqueId}@example.com`],
+        [`Dialog ${uniqueId} bad`, 'not-an-email'],
+      ])
+    );
+    await dialog.getByTestId('entity-import-check').click();
+
+    await expect(dialog.getByTestId('entity-import-summary')).toContainText('1 of 2 rows');
+    await expect(dialog.getByTestId('entity-import-error-3')).toBeVisible();
+
+    // Error file holds the failed row, ready to fix
+    const downloadPromise = page.waitForEvent('download');
+    await dialog.getByTestId('entity-import-error-file').click();
+    const download = await downloadPromise;
+    expect(download.suggestedFilename()).toBe('entities-import-errors.csv');
+
+    // Blocked until failed rows are skipped
+    await expect(dialog.getByTestId('entity-import-submit')).toBeDisabled();
+    await dialog.getByTestId('entity-import-skip-errors').click();
+    await dialog.getByTestId('entity-import-submit').click();
+    await expect(dialog).not.toBeVisible();
+
+    await page.getByTestId('entities-search-field').locator('input').fill(`Dialog ${uniqueId}`);
+    await expect(page.getByText(`Dialog ${uniqueId}`, { exact: true })).toBeVisible();
+  });
+});
+
+/**
+ * Bulk Action Tests
+ *
+ * For list pages with `selectable` (row checkboxes and the bulk action toolbar).
+ * Rows are seeded in one POST /api/entities/bulk; Export of selected rows
+ * needs filterable: { id: ['in'] } on the resource.
+ */
+test.describe('Entity Bulk Actions', () => {
+  // Create `count` entities named "{prefix} 1", "{prefix} 2", ...
+  async function seed(request: APIRequestContext, count: number) {
+    const prefix = `Bulk${Date.now()}`;
+    const response = await request.post('/api/entities/bulk', {
+      data: {
+        operations: Array.from({ length: count }, (_, index) => ({
+          op: 'create',
+          data: { name: `${prefix} ${index + 1}`, email: `${prefix}-${index + 1}@example.com` },
+        })),
+      },
+    });
+    expect(response.status()).toBe(200);
+
+    const { data } = await response.json();
+    const ids: string[] = data.results.map((result: { id: string }) => result.id);
+    return { prefix, ids };
+  }
+
+  test('should delete the selected entities', async ({ page, request }) => {
+    const { prefix, ids } = await seed(request, 3);
+    await page.goto(`/entities?search=${prefix}`);
+
+    await page.getByTestId(`select-entity-${ids[0]}`).check();
+    await page.getByTestId(`select-entity-${ids[1]}`).check();
+    await expect(page.getByTestId('entities-selected-count')).toHaveText('2 selected');
+
+    await page.getByTestId('bulk-delete').click();
+    const dialog = page.getByTestId('bulk-confirm-dialog');
+    await expect(dialog).toContainText('2 entities');
+    await dialog.getByTestId('bulk-confirm').click();
+
+    await expect(page.getByTestId('bulk-summary')).toHaveText('Delete: 2 deleted');
+    await expect(page.getByTestId(`entity-row-${ids[0]}`)).not.toBeVisible();
+    await expect(page.getByTestId(`entity-row-${ids[2]}`)).toBeVisible();
+    await expect(page.getByTestId('entities-bulk-toolbar')).not.toBeVisible();
+  });
+
+  test('should select the page, then every matching entity', async ({ page, request }) => {
+    const { prefix } = await seed(request, 30);
+    await page.goto(`/entities?search=${prefix}&limit=25`);
+
+    await page.getByTestId('entities-select-all').check();
+    await expect(page.getByTestId('entities-selected-count')).toHaveText('25 selected');
+
+    await page.getByTestId('select-all-matching').click();
+    await expect(page.getByTestId('entities-selected-count')).toHaveText(
+      'All 30 matching selected'
+    );
+
+    await page.getByTestId('bulk-delete').click();
+    await page.getByTestId('bulk-confirm').click();
+
+    await expect(page.getByTestId('bulk-summary')).toHaveText('Delete: 30 deleted');
+    await expect(page.getByTestId('entities-empty')).toBeVisible();
+
+    const list = await request.get(`/api/entities?search=${prefix}`);
+    expect((await list.json()).pagination.total).toBe(0);
+  });
+
+  test('should keep the selection across pages', async ({ page, request }) => {
+    const { prefix, ids } = await seed(request, 30);
+    await page.goto(`/entities?search=${prefix}&limit=25&sort=name`);
+
+    await page.getByTestId('entities-select-all').check();
+    await page.getByRole('button', { name: 'Go to next page' }).click();
+    // Names sort as text ("1", "10", ..., "9"), so "{prefix} 9" is on page 2
+    await page.getByTestId(`select-entity-${ids[8]}`).check();
+    await expect(page.getByTestId('entities-selected-count')).toHaveText('26 selected');
+
+    // A new search starts over
+    await page.getByTestId('entities-search-field').locator('input').fill(`${prefix} 3`);
+    await expect(page.getByTestId('entities-bulk-toolbar')).not.toBeVisible();
+  });
+
+  test('should summarise the entities that failed', async ({ page, request }) => {
+    const { prefix, ids } = await seed(request, 3);
+    await page.goto(`/entities?search=${prefix}`);
+
+    await page.getByTestId('entities-select-all').check();
+
+    // Deleted elsewhere after it was selected
+    const deleted = await request.delete(`/api/entities/${ids[1]}`);
+    expect(deleted.ok()).toBeTruthy();
+
+    await page.getByTestId('bulk-delete').click();
+    await page.getByTestId('bulk-confirm').click();
+
+    const summary = page.getByTestId('bulk-summary');
+    await expect(summary).toContainText('Delete: 2 deleted, 1 failed');
+    await expect(summary).toContainText(`${prefix} 2:`);
+
+    // The failed entity stays selected for a retry
+    await expect(page.getByTestId('entities-selected-count')).toHaveText('1 selected');
+  });
+
+  test('should export only the selected entities', async ({ page, request }) => {
+    const { prefix, ids } = await seed(request, 3);
+    await page.goto(`/entities?search=${prefix}`);
+
+    await page.getByTestId(`select-entity-${ids[0]}`).check();
+    await page.getByTestId(`select-entity-${ids[2]}`).check();
+
+    const downloadPromise = page.waitForEvent('download');
+    await page.getByTestId('bulk-export').click();
+    const download = await downloadPromise;
+
+    expect(decodeURIComponent(download.url())).toContain(`filter[id][in]=${ids[0]},${ids[2]}`);
+
+    const response = await request.get(
+      `/api/entities/export?format=csv&filter[id][in]=${ids[0]},${ids[2]}&locale=en`
+    );
+    const csv = await response.text();
+    expect(csv).toContain(`${prefix} 1`);
+    expect(csv).not.toContain(`${prefix} 2`);
+    expect(csv).toContain(`${prefix} 3`);
+  });
+
+  test('should require permission for bulk changes', async ({ request, requestAs }) => {
+    const { ids } = await seed(request, 1);
+
+    const viewer = await requestAs({ role: 'viewer' });
+    const response = await viewer.post('/api/entities/bulk', {
+      data: { mode: 'partial', operations: [{ op: 'delete', id: ids[0] }] },
+    });
+    expect(response.status()).toBe(403);
+
+    const own = await request.get(`/api/entities/${ids[0]}`);
+    expect(own.status()).toBe(200);
+  });
+
+  test('should reject a bulk update with a stale ifMatch', async ({ request }) => {
+    const { ids } = await seed(request, 1);
+    const loaded = await request.get(`/api/entities/${ids[0]}`);
+    const ifMatch = loaded.headers()['etag'];
+
+    // Someone else saves in between
+    await request.patch(`/api/entities/${ids[0]}`, { data: { name: `Theirs ${Date.now()}` } });
+
+    const response = await request.post('/api/entities/bulk', {
+      data: {
+        mode: 'partial',
+        operations: [{ op: 'update', id: ids[0], data: { name: 'Mine' }, ifMatch }],
+      },
+    });
+    expect(response.status()).toBe(207);
+    const [result] = (await response.json()).data.results;
+    expect(result.status).toBe(412);
+    expect(result.code).toBe('PRECONDITION_FAILED');
+    expect(result.data.name).toContain('Theirs');
+  });
+});
@@ -5,7 +5,7 @@
  * form validation, and complex multi-step dialogs.
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../helpers/auth'; // Signed in as admin by default
 import { t } from '../helpers/translations';
 
 test.describe('Entity Dialog Interactions', () => {
@@ -5,8 +5,9 @@
  * Replace 'entity' with your actual entity name (e.g., organisation, user, etc.)
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../helpers/auth'; // Signed in as admin by default
 import { t } from '../helpers/translations';
+import type { APIRequestContext, Page } from '@playwright/test';
 
 test.describe('Entity Search and Filter', () => {
   test.beforeEach(async ({ page }) => {
@@ -209,6 +210,41 @@ test.describe('Entity Search and Filter', () => {
     await expect(page.getByText(name)).toBeVisible();
   });
 
+  test('should match % and _ literally', async ({ page, request }) => {
+    const uniqueId = Date.now();
+    // Each pair differs only where the wildcard is; an unescaped pattern would match both
+    const percent = `100% Pure${uniqueId}`;
+    const percentDecoy = `100X Pure${uniqueId}`;
+    const underscore = `a_b${uniqueId}`;
+    const underscoreDecoy = `axb${uniqueId}`;
+
+    for (const name of [percent, percentDecoy, underscore, underscoreDecoy]) {
+      const response = await request.post('/api/entities', {
+        data: { name, email: `special-${uniqueId}-${name.replace(/\W/g, '')}@example.com` },
+      });
+      expect(response.ok()).toBeTruthy();
+    }
+
+    const searchField = page.getByTestId('entities-search-field').locator('input');
+
+    await searchField.fill(`100% Pure${uniqueId}`);
+    await page.waitForTimeout(500);
+    await expect(page.getByText(percent)).toBeVisible();
+    await expect(page.getByText(percentDecoy)).not.toBeVisible();
+
+    await searchField.clear();
+    await searchField.fill(`a_b${uniqueId}`);
+    await page.waitForTimeout(500);
+    await expect(page.getByText(underscore)).toBeVisible();
+    await expect(page.getByText(underscoreDecoy)).not.toBeVisible();
+
+    // Backslashes and quotes are ordinary characters too, not errors
+    await searchField.clear();
+    await searchField.fill(`\\'"${uniqueId}`);
+    await page.waitForTimeout(500);
+    await expect(page.getByText(t.entities.messages.noSearchResults)).toBeVisible();
+  });
+
   test('should show empty state when no entities exist', async ({ page }) => {
     // Don't create any entities, just verify empty state
     // Note: This assumes a fresh database or that other tests haven't created entities
@@ -227,20 +263,498 @@ test.describe('Entity Search and Filter', () => {
     await dialog.getByTestId('entity-dialog-save').click();
     await expect(dialog).not.toBeVisible();
 
-    // Perform search
-    await page.getByTestId('entities-search-field').locator('input').fill('Persistent');
-    await page.waitForTimeout(500);
+    // Perform search; the URL follows after the debounce
+    await page.getByTestId('entities-search-field').locator('input').fill(entityName);
+    await expect(page).toHaveURL(new RegExp(`[?&]search=${entityName}`));
+    await expect(page.getByText(entityName)).toBeVisible();
+
+    // Navigate away (adjust URL as needed), then Back
+    await page.goto('/');
+    await page.goBack();
+
+    // The search comes back from the URL, with its results
+    const searchField = page.getByTestId('entities-search-field').locator('input');
+    await expect(searchField).toHaveValue(entityName);
     await expect(page.getByText(entityName)).toBeVisible();
 
-    // Navigate away (adjust URL as needed)
+    // A reload (server-rendered first load) keeps it too
+    await page.reload();
+    await expect(searchField).toHaveValue(entityName);
+    await expect(page.getByText(entityName)).toBeVisible();
+  });
+});
+
+/**
+ * URL State
+ *
+ * Search, page and page size live in the URL (useListQueryState), so links,
+ * reloads and the back button show the same list.
+ */
+test.describe('Entity List URL State', () => {
+  // Smallest option of the page size select
+  const SMALL_PAGE_SIZE = 25;
+
+  async function seed(request: APIRequestContext, prefix: string, count: number) {
+    for (let i = 0; i < count; i++) {
+      const response = await request.post('/api/entities', {
+        data: { name: `${prefix} ${i}`, email: `${prefix.toLowerCase()}-${i}@example.com` },
+      });
+      expect(response.ok()).toBeTruthy();
+    }
+  }
+
+  test('should write the search to the URL and start at page 1', async ({ page, request }) => {
+    const prefix = `UrlSearch${Date.now()}`;
+    await seed(request, prefix, SMALL_PAGE_SIZE + 1);
+
+    // On page 2 of the seeded rows
+    await page.goto(`/entities?search=${prefix}&limit=${SMALL_PAGE_SIZE}&page=2`);
+    await expect(page.getByTestId('pagination-info')).toContainText(
+      `${SMALL_PAGE_SIZE + 1} to ${SMALL_PAGE_SIZE + 1}`
+    );
+
+    // A new search replaces the search and drops the page
+    await page.getByTestId('entities-search-field').locator('input').fill(`${prefix} 1`);
+    await expect(page).toHaveURL(new RegExp(`search=${prefix}\\+1(&|$)`));
+    await expect(page).not.toHaveURL(/[?&]page=/);
+    await expect(page).toHaveURL(new RegExp(`[?&]limit=${SMALL_PAGE_SIZE}`));
+  });
+
+  test('should load the list from a shared link', async ({ page, request }) => {
+    const prefix = `UrlLink${Date.now()}`;
+    await seed(request, prefix, SMALL_PAGE_SIZE + 1);
+
+    await page.goto(`/entities?search=${prefix}&page=2&limit=${SMALL_PAGE_SIZE}`);
+
+    await expect(page.getByTestId('entities-search-field').locator('input')).toHaveValue(prefix);
+    await expect(page.getByTestId('page-size-select')).toContainText(String(SMALL_PAGE_SIZE));
+    await expect(page.locator('[data-testid^="entity-row-"]')).toHaveCount(1);
+    await expect(page.getByTestId('pagination-info')).toContainText(
+      `of ${SMALL_PAGE_SIZE + 1} items`
+    );
+  });
+
+  test('should ignore invalid page and limit values', async ({ page }) => {
+    await page.goto('/entities?page=-3&limit=7');
+
+    // Falls back to page 1 at the default page size instead of failing
+    await expect(page.getByTestId('entities-error')).not.toBeVisible();
+    await expect(page.getByTestId('page-size-select')).toContainText('50');
+  });
+
+  test('should restore the previous page with the back button', async ({ page, request }) => {
+    const prefix = `UrlBack${Date.now()}`;
+    await seed(request, prefix, SMALL_PAGE_SIZE + 1);
+
+    await page.goto(`/entities?search=${prefix}&limit=${SMALL_PAGE_SIZE}`);
+    await expect(page.locator('[data-testid^="entity-row-"]')).toHaveCount(SMALL_PAGE_SIZE);
+
+    // Page changes are history entries
+    await page.getByRole('button', { name: 'Go to page 2' }).click();
+    await expect(page).toHaveURL(/[?&]page=2/);
+    await expect(page.locator('[data-testid^="entity-row-"]')).toHaveCount(1);
+
+    await page.goBack();
+    await expect(page).not.toHaveURL(/[?&]page=/);
+    await expect(page.locator('[data-testid^="entity-row-"]')).toHaveCount(SMALL_PAGE_SIZE);
+    await expect(page.getByTestId('entities-search-field').locator('input')).toHaveValue(prefix);
+  });
+
+  test('should not add a history entry per keystroke', async ({ page }) => {
+    const prefix = `UrlTyping${Date.now()}`;
+
     await page.goto('/');
+    await page.goto('/entities');
+    await page.getByTestId('entities-search-field').locator('input').pressSequentially(prefix);
+    await expect(page).toHaveURL(new RegExp(`[?&]search=${prefix}`));
 
-    // Navigate back
+    // One Back leaves the list page: the search replaced the entry
+    await page.goBack();
+    await expect(page).not.toHaveURL(/\/entities/);
+  });
+});
+
+/**
+ * Sorting, Filters and Saved Views
+ *
+ * For EntityListPage with `sortable` columns, `filters` and `savedViews`.
+ * Sorting and filtering run on the server, so they are checked through the
+ * URL and the rows the API returned. Adjust fields to your resource's
+ * `sortable` / `filterable` allowlist.
+ */
+test.describe('Entity Sorting, Filters and Saved Views', () => {
+  const rows = (page: Page) => page.locator('[data-testid^="entity-row-"]');
+
+  test.beforeEach(async ({ page }) => {
     await page.goto('/entities');
+  });
+
+  async function seedNames(request: APIRequestContext, names: string[]) {
+    for (const name of names) {
+      const response = await request.post('/api/entities', {
+        data: { name, email: `${name.toLowerCase().replace(/\W/g, '-')}@example.com` },
+      });
+      expect(response.ok()).toBeTruthy();
+    }
+  }
+
+  test('should sort by a column header on the server', async ({ page, request }) => {
+    const prefix = `Sort${Date.now()}`;
+    await seedNames(request, [`${prefix} B`, `${prefix} C`, `${prefix} A`]);
+    await page.goto(`/entities?search=${prefix}`);
+    await expect(rows(page)).toHaveCount(3);
+
+    // Ascending, descending, then the default order
+    await page.getByTestId('entities-sort-name').click();
+    await expect(page).toHaveURL(/[?&]sort=name(&|$)/);
+    await expect(rows(page).first()).toContainText(`${prefix} A`);
+
+    await page.getByTestId('entities-sort-name').click();
+    await expect(page).toHaveURL(/[?&]sort=-name(&|$)/);
+    await expect(rows(page).first()).toContainText(`${prefix} C`);
+
+    await page.getByTestId('entities-sort-name').click();
+    await expect(page).not.toHaveURL(/[?&]sort=/);
+  });
+
+  test('should filter with a chip and remove it again', async ({ page, request }) => {
+    const prefix = `Filter${Date.now()}`;
+    await seedNames(request, [`${prefix} 1`]);
+    await page.goto(`/entities?search=${prefix}`);
+    await expect(rows(page)).toHaveCount(1);
+
+    // Created from tomorrow: nothing matches
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    await page.getByTestId('add-filter-button').click();
+    await page.getByTestId('add-filter-createdAt').click();
+    await page.getByTestId('filter-editor-from').locator('input').fill(tomorrow);
+    await page.getByTestId('filter-editor-apply').click();
+
+    await expect(page.getByTestId('filter-chip-createdAt')).toBeVisible();
+    await expect(page).toHaveURL(new RegExp(`filter%5BcreatedAt%5D%5Bgte%5D=${tomorrow}`));
+    await expect(rows(page)).toHaveCount(0);
+
+    // Removing the chip removes the filter
+    await page.getByTestId('filter-chip-createdAt').locator('.MuiChip-deleteIcon').click();
+    await expect(page).not.toHaveURL(/filter%5B/);
+    await expect(rows(page)).toHaveCount(1);
+  });
+
+  test('should hide a column from the columns menu', async ({ page }) => {
+    await page.getByTestId('entities-columns-button').click();
+    await page.getByTestId('column-toggle-createdAt').click();
+    await page.keyboard.press('Escape');
+
+    await expect(page).toHaveURL(/[?&]columns=/);
+    await expect(page.getByRole('columnheader', { name: 'Created' })).not.toBeVisible();
+
+    // Kept across a reload
+    await page.reload();
+    await expect(page.getByRole('columnheader', { name: 'Created' })).not.toBeVisible();
+  });
+
+  test('should save a view and apply it later', async ({ page }) => {
+    const viewName = `Newest ${Date.now()}`;
+
+    // Sort descending by name, then save it
+    await page.getByTestId('entities-sort-name').click();
+    await page.getByTestId('entities-sort-name').click();
+    await expect(page).toHaveURL(/[?&]sort=-name/);
+
+    await page.getByTestId('saved-views-button').click();
+    await page.getByTestId('save-view-button').click();
+    await page.getByTestId('save-view-name').locator('input').fill(viewName);
+    await page.getByTestId('save-view-confirm').click();
+    await expect(page.getByTestId('save-view-dialog')).not.toBeVisible();
+    await expect(page.getByTestId('saved-views-button')).toHaveText(viewName);
+
+    // From the plain list, applying the view brings its sort back
+    await page.goto('/entities');
+    await expect(page).not.toHaveURL(/[?&]sort=/);
+    await page.getByTestId('saved-views-button').click();
+    await page.getByTestId('saved-views-menu').getByText(viewName).click();
+    await expect(page).toHaveURL(/[?&]sort=-name/);
+
+    // Clean up
+    await page.getByTestId('saved-views-button').click();
+    await page
+      .getByTestId('saved-views-menu')
+      .getByRole('button', { name: `delete view ${viewName}` })
+      .click();
+    await expect(page.getByTestId('saved-views-menu').getByText(viewName)).not.toBeVisible();
+  });
+
+  test("should not show another user's saved views", async ({ request, requestAs }) => {
+    const viewName = `Private view ${Date.now()}`;
+    const created = await request.post('/api/views', {
+      data: { resource: 'entities', name: viewName, state: { sort: ['name'] } },
+    });
+    expect(created.status()).toBe(201);
+    const { data: view } = await created.json();
+
+    // Another user (the stub viewer) neither lists nor reaches it
+    const viewer = await requestAs({ role: 'viewer' });
+    const list = await viewer.get('/api/views?filter[resource]=entities');
+    const names = (await list.json()).data.map((item: { name: string }) => item.name);
+    expect(names).not.toContain(viewName);
+    expect((await viewer.get(`/api/views/${view.id}`)).status()).toBe(404);
+    expect((await viewer.delete(`/api/views/${view.id}`)).status()).toBe(404);
+
+    await request.delete(`/api/views/${view.id}`);
+  });
+
+  test('should reject a duplicate view name', async ({ request }) => {
+    const data = { resource: 'entities', name: `Twice ${Date.now()}`, state: {} };
+    const first = await request.post('/api/views', { data });
+    expect(first.status()).toBe(201);
+
+    const second = await request.post('/api/views', { data });
+    expect(second.status()).toBe(409);
+    expect((await second.json()).code).toBe('DUPLICATE');
+
+    await request.delete(`/api/views/${(await first.json()).data.id}`);
+  });
+});
+
+/**
+ * Load More (Cursor Pagination) Variant
+ *
+ * For pages built from load-more-page-template.tsx.
+ * Test data is seeded through the API because each test needs more rows than one page.
+ */
+test.describe('Entity Load More', () => {
+  // Must match PAGE_SIZE in the page component
+  const PAGE_SIZE = 25;
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/entities');
+  });
+
+  test('should append the next page when clicking load more', async ({ page, request }) => {
+    const uniqueId = Date.now();
+    const prefix = `LoadMore${uniqueId}`;
+
+    // Seed one more entity than fits on a page
+    for (let i = 0; i < PAGE_SIZE + 1; i++) {
+      const response = await request.post('/api/entities', {
+        data: { name: `${prefix} ${i}`, email: `load-more-${uniqueId}-${i}@example.com` },
+      });
+      expect(response.ok()).toBeTruthy();
+    }
+
+    await page.getByTestId('entities-search-field').locator('input').fill(prefix);
+    await page.waitForTimeout(500); // Wait for debounce
+
+    const rows = page.locator('[data-testid^="entity-row-"]');
+
+    // First page only
+    await expect(rows).toHaveCount(PAGE_SIZE);
+    await expect(page.getByTestId('load-more-button')).toBeVisible();
+
+    // Load the remaining row
+    await page.getByTestId('load-more-button').click();
+    await expect(rows).toHaveCount(PAGE_SIZE + 1);
+
+    // No duplicates: every seeded name appears exactly once
+    for (let i = 0; i < PAGE_SIZE + 1; i++) {
+      await expect(page.getByText(`${prefix} ${i}`, { exact: true })).toHaveCount(1);
+    }
+
+    // Nothing left to load
+    await expect(page.getByTestId('load-more-button')).not.toBeVisible();
+  });
+
+  test('should hide load more when results fit on one page', async ({ page }) => {
+    const uniqueId = Date.now();
+    const entityName = `Single${uniqueId}`;
+
+    await page.getByTestId('create-entity-button').click();
+    const dialog = page.getByTestId('entity-dialog');
+    await dialog.getByLabel(t.common.labels.name).fill(entityName);
+    await dialog.getByTestId('entity-dialog-save').click();
+    await expect(dialog).not.toBeVisible();
+
+    await page.getByTestId('entities-search-field').locator('input').fill(entityName);
+    await page.waitForTimeout(500);
+
+    await expect(page.getByText(entityName)).toBeVisible();
+    await expect(page.getByTestId('load-more-button')).not.toBeVisible();
+  });
+
+  test('should restart from the first page when search changes', async ({ page, request }) => {
+    const uniqueId = Date.now();
+    const prefix = `Restart${uniqueId}`;
+
+    for (let i = 0; i < PAGE_SIZE + 1; i++) {
+      await request.post('/api/entities', {
+        data: { name: `${prefix} ${i}`, email: `restart-${uniqueId}-${i}@example.com` },
+      });
+    }
 
-    // Verify search is cleared (most implementations clear on navigation)
-    // Or verify search is preserved if that's your implementation
     const searchField = page.getByTestId('entities-search-field').locator('input');
-    await expect(searchField).toHaveValue('');
+    await searchField.fill(prefix);
+    await page.waitForTimeout(500);
+
+    const rows = page.locator('[data-testid^="entity-row-"]');
+    await page.getByTestId('load-more-button').click();
+    await expect(rows).toHaveCount(PAGE_SIZE + 1);
+
+    // Narrow the search: loaded pages are discarded, not filtered client-side
+    await searchField.fill(`${prefix} 1`);
+    await page.waitForTimeout(500);
+
+    // Matches "1" and "10".."19"
+    await expect(rows).toHaveCount(11);
+    await expect(page.getByTestId('load-more-button')).not.toBeVisible();
+  });
+});
+
+/**
+ * Export Tests
+ *
+ * For resources configured with `export` in createCrudHandlers.
+ * Replace the header labels with the English translations of your export columns.
+ */
+test.describe('Entity Export', () => {
+  // Seed two entities through the API; only the first matches `prefix`
+  async function seed(request: APIRequestContext) {
+    const uniqueId = Date.now();
+    const prefix = `Export${uniqueId}`;
+    for (const name of [`${prefix} Alpha`, `Other${uniqueId}`]) {
+      const response = await request.post('/api/entities', {
+        data: { name, email: `${name.replace(/\W/g, '-').toLowerCase()}@example.com` },
+      });
+      expect(response.ok()).toBeTruthy();
+    }
+    return { prefix, uniqueId };
+  }
+
+  test('should export the current search as CSV', async ({ request }) => {
+    const { prefix, uniqueId } = await seed(request);
+
+    const response = await request.get(
+      `/api/entities/export?format=csv&search=${prefix}&locale=en`
+    );
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toContain('text/csv');
+    expect(response.headers()['content-disposition']).toMatch(/attachment; filename=".+\.csv"/);
+
+    const lines = (await response.text())
+      .replace(/^\uFEFF/, '')
+      .trim()
+      .split('\r\n');
+    expect(lines[0]).toBe('Name,Email,Created');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain(`${prefix} Alpha`);
+    expect(lines.join('\n')).not.toContain(`Other${uniqueId}`);
+  });
+
+  test('should export only the selected columns, in order', async ({ request }) => {
+    const { prefix } = await seed(request);
+
+    const response = await request.get(
+      `/api/entities/export?format=csv&search=${prefix}&columns=email,name&locale=en`
+    );
+    const [header, row] = (await response.text())
+      .replace(/^\uFEFF/, '')
+      .trim()
+      .split('\r\n');
+    expect(header).toBe('Email,Name');
+    expect(row.split(',')).toHaveLength(2);
+    expect(row.endsWith(`${prefix} Alpha`)).toBe(true);
+  });
+
+  test('should export NDJSON with one object per line', async ({ request }) => {
+    const { prefix } = await seed(request);
+
+    const response = await request.get(
+      `/api/entities/export?format=ndjson&search=${prefix}&columns=name`
+    );
+    expect(response.headers()['content-type']).toContain('application/x-ndjson');
+
+    const records = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(records).toEqual([{ name: `${prefix} Alpha` }]);
+  });
+
+  test('should reject unknown columns and formats', async ({ request }) => {
+    const badColumn = await request.get('/api/entities/export?columns=name,passwordHash');
+    expect(badColumn.status()).toBe(400);
+    expect((await badColumn.json()).code).toBe('INVALID_QUERY');
+
+    const badFormat = await request.get('/api/entities/export?format=xlsx');
+    expect(badFormat.status()).toBe(400);
+  });
+
+  test('should download the search from the Export button', async ({ page, request }) => {
+    const { prefix } = await seed(request);
+
+    await page.goto('/entities');
+    await page.getByTestId('entities-search-field').locator('input').fill(prefix);
+    await page.waitForTimeout(500); // Wait for debounce
+
+    await page.getByTestId('export-entities-button').click();
+    const downloadPromise = page.waitForEvent('download');
+    await page.getByTestId('export-entities-csv').click();
+    const download = await downloadPromise;
+
+    expect(download.suggestedFilename()).toMatch(/^entities-.+\.csv$/);
+    expect(download.url()).toContain(`search=${prefix}`);
+  });
+});
+
+/**
+ * For resources configured with search: { strategy: 'trigram' } or 'fulltext'.
+ * Without ?sort=, the most relevant rows come first.
+ */
+test.describe('Entity Search Ranking', () => {
+  async function createEntities(request: APIRequestContext, names: string[]) {
+    for (const name of names) {
+      const response = await request.post('/api/entities', {
+        data: { name, email: `rank-${Date.now()}-${names.indexOf(name)}@example.com` },
+      });
+      expect(response.ok()).toBeTruthy();
+    }
+  }
+
+  async function searchNames(request: APIRequestContext, query: string) {
+    const response = await request.get(`/api/entities?search=${encodeURIComponent(query)}`);
+    expect(response.status()).toBe(200);
+    const result = await response.json();
+    return result.data.map((entity: { name: string }) => entity.name);
+  }
+
+  test('should order results by relevance', async ({ request }) => {
+    const uniqueId = Date.now();
+    const term = `Ranking${uniqueId}`;
+    // Nothing but the term (trigram) and mentioning it twice (fulltext) both rank higher
+    const strong = `${term} ${term}`;
+    const weak = `${term} with a much longer name around it`;
+    // Created first, so id order alone would put the weaker match on top
+    await createEntities(request, [weak, strong]);
+
+    const names = await searchNames(request, term);
+    expect(names.indexOf(strong)).toBeGreaterThanOrEqual(0);
+    expect(names.indexOf(strong)).toBeLessThan(names.indexOf(weak));
+  });
+
+  test('should let an explicit sort override relevance', async ({ request }) => {
+    const uniqueId = Date.now();
+    const names = [`Zulu Ranking${uniqueId}`, `Ranking${uniqueId}`];
+    await createEntities(request, names);
+
+    const response = await request.get(`/api/entities?search=Ranking${uniqueId}&sort=-name`);
+    const result = await response.json();
+    expect(result.data.map((entity: { name: string }) => entity.name)).toEqual(names);
+  });
+
+  test('should accept search syntax without errors', async ({ request }) => {
+    // fulltext parses input with websearch_to_tsquery, which never rejects a query
+    for (const query of ['"unterminated', 'a & | !b', '-', 'or', ':*', '(())']) {
+      const response = await request.get(`/api/entities?search=${encodeURIComponent(query)}`);
+      expect(response.status()).toBe(200);
+    }
   });
 });